@@ -1,4 +1,5 @@
 import * as path from "path";
+import { Writable } from "stream";
 import { getRelativePathToRootDir } from "../src/utils/keyAndPathUtils";
 
 const fs = jest.createMockFromModule('fs') as any;
@@ -181,8 +182,25 @@ fs.promises = {
   mkdir: jest.fn((path, o) => Promise.resolve()),
   writeFile: jest.fn(() => Promise.resolve()),
   rename: jest.fn(() => Promise.resolve()),
+  unlink: jest.fn(() => Promise.resolve()),
+  utimes: jest.fn(() => Promise.resolve()),
 }
 
+/*
+* The written chunks of each stream are kept on the stream (__writtenChunks) so
+* that tests can check what was written.
+* */
+fs.createWriteStream = jest.fn((path: string, options?: any) => {
+  const writable = new Writable({
+                                  write(chunk: any, encoding: string, callback: (err?: Error) => void) {
+                                    (writable as any).__writtenChunks.push(chunk);
+                                    callback();
+                                  }
+                                });
+  (writable as any).__writtenChunks = [];
+  return writable;
+});
+
 //
 // /*
 // * Test FS Structure (starting at root):
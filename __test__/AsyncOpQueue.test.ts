@@ -1,4 +1,4 @@
-import AsyncOpQueue from "../src/AsyncOpQueue";
+import AsyncOpQueue, { SUPERSEDED } from "../src/AsyncOpQueue";
 
 describe("No expiration queue tests.", () => {
 
@@ -280,6 +280,16 @@ describe("Timeout tests.", () => {
     })
   })
 
+
+  test("Should not expire a task submitted with a null runTimeout.", async () => {
+    timeoutQueue.submit("key1", onComplete => {
+    }, null, 2);
+    await new Promise<void>(resolve => setTimeout(resolve, 150));
+    // keeps its key and slots even though the default expiration has passed
+    expect(timeoutQueue.runningCount()).toEqual(2);
+    expect(timeoutQueue.runningTasks["key1"]).toBeDefined();
+  })
+
 })
 
 describe("Max concurrency tests.", () => {
@@ -500,5 +510,215 @@ describe("Tests promise based tasks.", () => {
 
   });
 
+  test("Should settle the returned promise with the task.", async () => {
+    const catchingQueue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: undefined, catchErrors: true});
+    await expect(catchingQueue.submitPromiseTask("key1", () => Promise.resolve("Done"))).resolves.toEqual("Done");
+    await expect(catchingQueue.submitPromiseTask("key1", () => Promise.reject("whatever"))).rejects.toEqual("whatever");
+    expect(catchingQueue.size).toEqual(0);
+    catchingQueue.stop(true);
+  });
+
+  test("Should free the key and slots of a rejected task without catchErrors.", async () => {
+    const weightedQueue = new AsyncOpQueue({maxConcurrency: 2, defaultTaskRunTimeoutMillis: 60_000});
+    try {
+      await expect(weightedQueue.submitPromiseTask("key1", () => Promise.reject("whatever"), undefined, 2))
+        .rejects.toEqual("whatever");
+      expect(weightedQueue.runningCount()).toEqual(0);
+      expect(weightedQueue.runningTasks["key1"]).toBeUndefined();
+      // would wait for the expiration if the rejected task were still running
+      await expect(weightedQueue.submitPromiseTask("key1", () => Promise.resolve("Done"), undefined, 2))
+        .resolves.toEqual("Done");
+    } finally {
+      weightedQueue.stop(true);
+    }
+  });
+
 })
 
+
+describe("Tests weighted tasks.", () => {
+
+  let queue: AsyncOpQueue
+
+  beforeEach(() => {
+    queue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: undefined, maxConcurrency: 3});
+  });
+
+  afterEach(() => {
+    queue.stop(true);
+  });
+
+  test("Should wait for enough free slots to run a weighted task and not run tasks behind it.", async () => {
+    const runOrder: string[] = [];
+    const runningCounts: number[] = [];
+
+    queue.submit("key1", onComplete => {
+      runOrder.push("key1");
+      setTimeout(onComplete, 20);
+    });
+    // needs all 3 slots, so must wait for key1
+    queue.submit("key2", onComplete => {
+      runOrder.push("key2");
+      setTimeout(() => {
+        runningCounts.push(queue.runningCount());
+        onComplete();
+      }, 20);
+    }, undefined, 3);
+    // would fit beside key1, but must not jump ahead of key2
+    queue.submit("key3", onComplete => {
+      runOrder.push("key3");
+      runningCounts.push(queue.runningCount());
+      onComplete();
+    });
+
+    await new Promise<void>(resolve => {
+      setTimeout(() => {
+        expect(runOrder).toEqual(["key1"]);
+        expect(queue.runningCount()).toEqual(1);
+        resolve();
+      }, 10);
+    });
+
+    await new Promise<void>(resolve => {
+      setTimeout(() => {
+        expect(runOrder).toEqual(["key1", "key2", "key3"]);
+        // key2 takes up all 3 slots while running and key3 runs once it has completed
+        expect(runningCounts).toEqual([3, 0]);
+        expect(queue.runningCount()).toEqual(0);
+        resolve();
+      }, 60);
+    });
+  });
+
+  test("Should cap the weight at maxConcurrency.", async () => {
+    let ran = false;
+    queue.submit("key1", onComplete => {
+      ran = true;
+      onComplete();
+    }, undefined, 10);
+
+    await new Promise<void>(resolve => {
+      setTimeout(() => {
+        expect(ran).toEqual(true);
+        expect(queue.runningCount()).toEqual(0);
+        resolve();
+      }, 10);
+    });
+  });
+
+});
+
+describe("Tests coalescing tasks.", () => {
+
+  let queue: AsyncOpQueue
+
+  beforeEach(() => {
+    queue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: undefined, catchErrors: true});
+  });
+
+  afterEach(() => {
+    queue.stop(true);
+  });
+
+  test("Should replace the queued task of the key.", async () => {
+    const runOrder: string[] = [];
+    const delay = (name: string) => () => new Promise<string>(resolve => {
+      runOrder.push(name);
+      setTimeout(() => resolve(name), 10);
+    });
+
+    const running = queue.submitPromiseTask("key1", delay("running"), undefined, 1, true);
+    // wait for the first to be running, which can no longer be replaced
+    while (runOrder.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+    const superseded = queue.submitPromiseTask("key1", delay("superseded"), undefined, 1, true);
+    const replacement = queue.submitPromiseTask("key1", delay("replacement"), undefined, 1, true);
+    expect(queue.queueSize()).toEqual(1);
+
+    expect(await running).toEqual("running");
+    // the superseded task's promise has its own outcome
+    expect(await superseded).toBe(SUPERSEDED);
+    expect(await replacement).toEqual("replacement");
+    expect(runOrder).toEqual(["running", "replacement"]);
+  });
+
+  test("Should not replace a task that was not submitted in coalescing mode.", async () => {
+    const runOrder: string[] = [];
+    const delay = (name: string) => () => new Promise<string>(resolve => {
+      runOrder.push(name);
+      setTimeout(() => resolve(name), 10);
+    });
+
+    const running = queue.submitPromiseTask("key1", delay("running"));
+    while (runOrder.length === 0) {
+      await new Promise(resolve => setTimeout(resolve, 1));
+    }
+    const queued = queue.submitPromiseTask("key1", delay("queued"));
+    const coalesced = queue.submitPromiseTask("key1", delay("coalesced"), undefined, 1, true);
+    expect(queue.queueSize()).toEqual(2);
+
+    await Promise.all([running, queued, coalesced]);
+    expect(runOrder).toEqual(["running", "queued", "coalesced"]);
+  });
+
+});
+
+describe("Tests waiting for the queue to be idle.", () => {
+
+  let queue: AsyncOpQueue
+
+  beforeEach(() => {
+    queue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: undefined, catchErrors: true});
+  });
+
+  afterEach(() => {
+    queue.stop(true);
+  });
+
+  test("Should resolve immediately when nothing was submitted.", async () => {
+    await queue.onIdle();
+    await queue.drain();
+  });
+
+  test("Should resolve once the queued and running tasks have completed.", async () => {
+    const completed: string[] = [];
+    const delay = (name: string, millis: number) => () => new Promise<void>((resolve, reject) => {
+      setTimeout(() => {
+        completed.push(name);
+        name === "failed" ? reject(new Error(name)) : resolve();
+      }, millis);
+    });
+
+    queue.submitPromiseTask("key1", delay("key1-1", 10));
+    queue.submitPromiseTask("key1", delay("key1-2", 10));
+    queue.submitPromiseTask("key2", delay("failed", 5)).catch(() => {/* expected */});
+    const idle = queue.onIdle();
+    // submitted while waiting
+    queue.submit("key3", onComplete => {
+      setTimeout(() => {
+        completed.push("key3");
+        onComplete();
+      }, 30);
+    });
+
+    await idle;
+    expect(completed.sort()).toEqual(["failed", "key1-1", "key1-2", "key3"]);
+    expect(queue.queueSize()).toEqual(0);
+    expect(queue.runningCount()).toEqual(0);
+  });
+
+  test("Should drain without waiting for the expiration of a failed task.", async () => {
+    // neither catches errors nor expires the tasks before the test times out (like the sync program's queue)
+    const expiringQueue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: 60_000});
+    try {
+      expiringQueue.submitPromiseTask("key1", () => Promise.reject(new Error("failed"))).catch(() => {/* expected */});
+      expiringQueue.submitPromiseTask("key2", () => Promise.resolve());
+      await expiringQueue.drain();
+      expect(expiringQueue.runningCount()).toEqual(0);
+    } finally {
+      expiringQueue.stop(true);
+    }
+  });
+
+});
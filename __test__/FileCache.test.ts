@@ -0,0 +1,108 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import FileCache from "../src/cache/FileCache";
+import { getDirectoryEntries } from "../src/filesystemOps";
+
+const stats = {size: 3, mtime: new Date(2020, 1, 1)};
+
+test("Ensure the least recently used entry is evicted.", () => {
+  const cache = new FileCache({maxSize: 2});
+  cache.addFile("1", "etag1", stats);
+  cache.addFile("2", "etag2", stats);
+  // 1 is now the most recently used
+  expect(cache.getCacheEntry("1")).toBeTruthy();
+  cache.addFile("3", "etag3", stats);
+  expect(cache.size).toEqual(2);
+  expect(cache.getCacheEntry("2")).toBeUndefined();
+  expect(cache.getCacheEntry("1")).toEqual({etag: "etag1", size: 3, lastModified: stats.mtime.getTime()});
+  expect(cache.getCacheEntry("3")).toBeTruthy();
+});
+
+test("Ensure overwriting an entry does not change the size or evict entries.", () => {
+  const cache = new FileCache({maxSize: 2});
+  cache.addFile("1", "etag1", stats);
+  cache.addFile("2", "etag2", stats);
+  cache.addFile("2", "etag22", stats);
+  expect(cache.size).toEqual(2);
+  expect(cache.getCacheEntry("1")).toBeTruthy();
+  expect(cache.getCacheEntry("2")!.etag).toEqual("etag22");
+  expect(cache.removeFromCache("2")).toBeTruthy();
+  expect(cache.removeFromCache("2")).toBeFalsy();
+  expect(cache.size).toEqual(1);
+});
+
+test("Ensure the entries within a directory are removed.", () => {
+  const cache = new FileCache({maxSize: 10});
+  cache.addFile(path.join("dir", "1"), "etag1", stats);
+  cache.addFile(path.join("dir", "sub", "2"), "etag2", stats);
+  cache.addFile("dir2", "etag3", stats);
+  cache.removeDirectory("dir" + path.sep);
+  expect(cache.size).toEqual(1);
+  expect(cache.getCacheEntry("dir2")).toBeTruthy();
+});
+
+describe("File system tests.", () => {
+
+  // the real file system is used, in a directory that is removed after each test
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "FileCache-"));
+  });
+
+  afterEach(() => {
+    fs.rmdirSync(testDir, {recursive: true});
+  });
+
+  test("Ensure a snapshot is loaded by a new cache, keeping the most recently used entries.", async () => {
+    const snapshotPath = path.resolve(testDir, "state", "cache.json");
+    const cache = new FileCache({maxSize: 3, snapshotPath});
+    cache.addFile("1", "etag1", stats);
+    cache.addFile("2", "etag2", stats);
+    cache.addFile("3", "etag3", stats);
+    cache.getCacheEntry("1");
+    await cache.stop();
+
+    const loaded = new FileCache({maxSize: 2, snapshotPath});
+    await loaded.stop();
+    expect(loaded.size).toEqual(2);
+    expect(loaded.getCacheEntry("2")).toBeUndefined();
+    expect(loaded.getCacheEntry("3")).toBeTruthy();
+    expect(loaded.getCacheEntry("1")).toBeTruthy();
+  });
+
+  test("Ensure a snapshot without entries is loaded as an empty cache.", async () => {
+    const snapshotPath = path.resolve(testDir, "cache.json");
+    fs.writeFileSync(snapshotPath, "{}");
+    const loaded = new FileCache({maxSize: 2, snapshotPath});
+    await loaded.stop();
+    expect(loaded.size).toEqual(0);
+  });
+
+  test("Ensure snapshots that are saved at the same time are written one after the other.", async () => {
+    const snapshotPath = path.resolve(testDir, "state", "cache.json");
+    const cache = new FileCache({maxSize: 3, snapshotPath});
+    cache.addFile("1", "etag1", stats);
+    const saved = cache.saveSnapshot();
+    cache.addFile("2", "etag2", stats);
+    await Promise.all([saved, cache.stop()]);
+    expect(JSON.parse(fs.readFileSync(snapshotPath, "utf8")).entries.map((e: any[]) => e[0])).toEqual(["1", "2"]);
+    expect(fs.existsSync(snapshotPath + ".tmp")).toBeFalsy();
+  });
+
+  test("Ensure directory entries use the cached stats.", async () => {
+    fs.mkdirSync(path.resolve(testDir, "dir"));
+    fs.writeFileSync(path.resolve(testDir, "dir", "1.txt"), "1");
+    fs.writeFileSync(path.resolve(testDir, "2.txt"), "22");
+    const cache = new FileCache({maxSize: 10});
+    cache.addFile(path.resolve(testDir, "dir", "1.txt"), "etag1", {size: 100, mtime: stats.mtime});
+    const entries = await getDirectoryEntries(testDir, testDir, cache);
+    expect(entries.map(entry => [entry.relativePath, entry.stats.size])).toEqual([
+      ["2.txt", 2],
+      ["dir" + path.sep, expect.any(Number)],
+      [path.join("dir", "1.txt"), 100]
+    ]);
+  });
+
+});
@@ -0,0 +1,35 @@
+import MessageDeduplicator from "../src/cache/MessageDeduplicator";
+
+test("Ensure redelivered messages are duplicates and counted.", () => {
+  const deduplicator = new MessageDeduplicator();
+  expect(deduplicator.isDuplicate("1")).toBeFalsy();
+  expect(deduplicator.isDuplicate("2")).toBeFalsy();
+  expect(deduplicator.isDuplicate("1")).toBeTruthy();
+  expect(deduplicator.isDuplicate("1")).toBeTruthy();
+  expect(deduplicator.suppressedCount).toEqual(2);
+  // e.g., failed to handle the message
+  deduplicator.forget("2");
+  expect(deduplicator.isDuplicate("2")).toBeFalsy();
+  expect(deduplicator.suppressedCount).toEqual(2);
+});
+
+test("Ensure the oldest message is forgotten when the maximum size is reached.", () => {
+  const deduplicator = new MessageDeduplicator({maxSize: 2});
+  deduplicator.isDuplicate("1");
+  deduplicator.isDuplicate("2");
+  deduplicator.isDuplicate("3");
+  expect(deduplicator.size).toEqual(2);
+  expect(deduplicator.isDuplicate("1")).toBeFalsy();
+  expect(deduplicator.isDuplicate("3")).toBeTruthy();
+});
+
+test("Ensure messages are forgotten once the window has elapsed.", async () => {
+  const deduplicator = new MessageDeduplicator({window: 20});
+  deduplicator.isDuplicate("1");
+  deduplicator.isDuplicate("2");
+  await new Promise(resolve => setTimeout(resolve, 30));
+  expect(deduplicator.isDuplicate("1")).toBeFalsy();
+  // expired messages are removed when another is received
+  expect(deduplicator.size).toEqual(1);
+  expect(deduplicator.isDuplicate("1")).toBeTruthy();
+});
@@ -0,0 +1,109 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import AsyncOpQueue from "../src/AsyncOpQueue";
+import AuditLog, { AuditEntry } from "../src/auditLog";
+import { rmdirRecursive, unlinkFile, writeS3Object } from "../src/filesystemOps";
+
+// the real file system is used, in a directory that is removed after each test
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "audit-"));
+});
+
+afterEach(() => {
+  fs.rmdirSync(tmpDir, {recursive: true});
+});
+
+function readEntries(filePath: string): AuditEntry[] {
+  return fs.readFileSync(filePath, "utf8")
+           .split("\n")
+           .filter(line => line.length > 0)
+           .map(line => JSON.parse(line));
+}
+
+test("Ensure the entries are appended and the file is rotated.", async () => {
+  const filePath = path.join(tmpDir, "logs", "audit.ndjson");
+  // each entry is 148 bytes, so 2 fit in a file
+  const auditLog = new AuditLog({filePath, maxFileSize: 300, maxFiles: 2});
+  const localPath = "/mirror/a.txt";
+  const recorded = [];
+  for (let i = 0; i < 8; i++) {
+    recorded.push(auditLog.record({source: "sns", MessageId: `message${i}`, operation: "create", localPath,
+                                    outcome: "success"}));
+  }
+  await Promise.all(recorded);
+  await auditLog.close();
+
+  const files = [filePath + ".2", filePath + ".1", filePath];
+  const entries = files.map(readEntries);
+  // only the 2 most recent rotated files are kept
+  expect(fs.existsSync(filePath + ".3")).toBeFalsy();
+  for (let i = 0; i < files.length; i++) {
+    expect(entries[i].length).toEqual(2);
+  }
+  const messageIds = ([] as AuditEntry[]).concat(...entries).map(entry => entry.MessageId);
+  expect(messageIds).toEqual(["message2", "message3", "message4", "message5", "message6", "message7"]);
+  expect(entries[2][1]).toMatchObject({source: "sns", operation: "create", localPath, outcome: "success"});
+  expect(new Date(entries[2][1].timestamp).getTime()).not.toBeNaN();
+
+  // a new log continues with the size of the existing file
+  const reopened = new AuditLog({filePath, maxFileSize: 300, maxFiles: 2});
+  await reopened.record({source: "resync", operation: "remove", localPath: "/mirror/b", outcome: "success"});
+  await reopened.close();
+  expect(readEntries(filePath).map(entry => entry.source)).toEqual(["resync"]);
+  expect(readEntries(filePath + ".1").map(entry => entry.MessageId)).toEqual(["message6", "message7"]);
+});
+
+test("Ensure the file system operations are recorded with their source and outcome.", async () => {
+  const rootDir = path.join(tmpDir, "mirror");
+  fs.mkdirSync(path.join(rootDir, "removed"), {recursive: true});
+  fs.writeFileSync(path.join(rootDir, "removed", "1.txt"), "1");
+  fs.writeFileSync(path.join(rootDir, "2.txt"), "2");
+  const filePath = path.join(tmpDir, "audit.ndjson");
+  const auditLog = new AuditLog({filePath});
+  const queue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: undefined});
+  try {
+    const common = {queue, rootDir, auditLog};
+    const writeDir = (Key: string) => writeS3Object({...common, s3Client: {} as any, Bucket: "bucket", Key,
+                                                      ETag: "\"etag\"", transformedKey: Key, tmpSuffix: ".tmp",
+                                                      auditSource: {type: "initialSync"}});
+    await writeDir("dir/");
+    await writeDir("dir/");
+    await unlinkFile({...common, Bucket: "bucket", Key: "2.txt", relativeFilePath: "2.txt", remove: false,
+                       auditSource: {type: "sns", MessageId: "message1"}});
+    await rmdirRecursive({...common, Bucket: "bucket", relativeDirPath: "removed", auditSource: {type: "resync"}});
+    await expect(unlinkFile({...common, relativeFilePath: "missing.txt", remove: false,
+                              auditSource: {type: "resync"}})).rejects.toBeTruthy();
+    // not recorded without a source
+    await unlinkFile({queue, rootDir, auditLog, relativeFilePath: "removed.txt", remove: false}).catch(() => {});
+  } finally {
+    queue.stop(true);
+  }
+  await auditLog.close();
+
+  const entries = readEntries(filePath);
+  expect(entries.map(({source, MessageId, operation, bucket, Key, ETag, localPath, outcome}) => ({
+    source, MessageId, operation, bucket, Key, ETag, localPath, outcome
+  }))).toEqual([
+                 {
+                   source: "initialSync", operation: "create", bucket: "bucket", Key: "dir/", ETag: "etag",
+                   localPath: path.join(rootDir, "dir"), outcome: "success"
+                 },
+                 {
+                   source: "initialSync", operation: "update", bucket: "bucket", Key: "dir/", ETag: "etag",
+                   localPath: path.join(rootDir, "dir"), outcome: "success"
+                 },
+                 {
+                   source: "sns", MessageId: "message1", operation: "remove", bucket: "bucket", Key: "2.txt",
+                   localPath: path.join(rootDir, "2.txt"), outcome: "success"
+                 },
+                 {
+                   source: "resync", operation: "remove", bucket: "bucket", localPath: path.join(rootDir, "removed"),
+                   outcome: "success"
+                 },
+                 {source: "resync", operation: "remove", localPath: path.join(rootDir, "missing.txt"), outcome: "failure"}
+               ]);
+  expect(entries[4].error).toContain("ENOENT");
+});
@@ -0,0 +1,296 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import AsyncOpQueue from "../src/AsyncOpQueue";
+import {
+  cleanUpStaleDownloads,
+  DownloadRecord,
+  readDownloadRecord,
+  removeDownloadRecord,
+  writeDownloadRecord
+} from "../src/downloadState";
+import { getDirectoryEntries, writeS3Object } from "../src/filesystemOps";
+import { getS3Object, headS3Object } from "../src/utils/s3Utils";
+
+jest.mock('../src/utils/s3Utils', () => ({
+  getS3Object: jest.fn(),
+  headS3Object: jest.fn()
+}));
+
+const Bucket = "TestBuck";
+
+// the real file system is used, in a directory that is removed after each test
+let testDir: string;
+let stateDir: string;
+let rootDir: string;
+let tmpDir: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  testDir = fs.mkdtempSync(path.join(os.tmpdir(), "downloadState-"));
+  stateDir = path.resolve(testDir, "state");
+  rootDir = path.resolve(testDir, "root");
+  tmpDir = path.resolve(testDir, "tmp");
+  fs.mkdirSync(rootDir);
+  fs.mkdirSync(tmpDir);
+});
+
+afterEach(() => {
+  fs.rmdirSync(testDir, {recursive: true});
+});
+
+function createDownload(Key: string, ETag: string, data: number[]): Promise<DownloadRecord> {
+  const record = {Bucket, Key, ETag, tmpFilePath: path.resolve(tmpDir, Key + ".abc.tmp")};
+  fs.mkdirSync(path.dirname(record.tmpFilePath), {recursive: true});
+  fs.writeFileSync(record.tmpFilePath, Buffer.from(data));
+  return writeDownloadRecord(stateDir, record).then(() => record);
+}
+
+test("Ensure download records can be written, read and removed.", async () => {
+  const record = await createDownload("dir/key1", "etag1", [1]);
+  expect(await readDownloadRecord(stateDir, Bucket, "dir/key1")).toEqual(record);
+  expect(await readDownloadRecord(stateDir, Bucket, "key2")).toBeUndefined();
+  expect(await readDownloadRecord(stateDir, "OtherBuck", "dir/key1")).toBeUndefined();
+
+  await removeDownloadRecord(stateDir, Bucket, "dir/key1");
+  expect(await readDownloadRecord(stateDir, Bucket, "dir/key1")).toBeUndefined();
+  // already removed
+  await removeDownloadRecord(stateDir, Bucket, "dir/key1");
+});
+
+test("Ensure stale downloads are removed on clean up and resumable downloads are kept.", async () => {
+  const unchanged = await createDownload("unchanged", "etag1", [1]);
+  const changed = await createDownload("changed", "etag1", [1]);
+  const removed = await createDownload("removed", "etag1", [1]);
+  const missingTmpFile = await createDownload("missingTmpFile", "etag1", [1]);
+  fs.unlinkSync(missingTmpFile.tmpFilePath);
+
+  (headS3Object as jest.Mock).mockImplementation((opts: any) => {
+    switch (opts.Key) {
+      case "unchanged":
+        return Promise.resolve({ETag: "\"etag1\""});
+      case "changed":
+        return Promise.resolve({ETag: "\"etag2\""});
+      default:
+        return Promise.resolve(undefined);
+    }
+  });
+
+  expect(await cleanUpStaleDownloads({stateDir, s3Client: null as any})).toEqual(3);
+
+  expect(await readDownloadRecord(stateDir, Bucket, "unchanged")).toEqual(unchanged);
+  expect(fs.existsSync(unchanged.tmpFilePath)).toBeTruthy();
+  for (const record of [changed, removed, missingTmpFile]) {
+    expect(await readDownloadRecord(stateDir, Bucket, record.Key)).toBeUndefined();
+    expect(fs.existsSync(record.tmpFilePath)).toBeFalsy();
+  }
+  // the temporary file does not need to be checked against the bucket
+  expect((headS3Object as jest.Mock).mock.calls.map(c => c[0].Key).sort()).toEqual(["changed", "removed", "unchanged"]);
+});
+
+test("Ensure the temporary files of the downloads are not listed.", async () => {
+  const fileNames = ["a.txt", "a.txt.s3-sns-sync-4fzyo82mvyk.tmp", "notes.tmp", "b.txt.tmp.bak", "x.v2.tmp",
+                     "archive.tar.tmp", ".s3-sns-sync-4fzyo82mvyk.tmp"];
+  for (const fileName of fileNames) {
+    fs.writeFileSync(path.resolve(rootDir, fileName), "");
+  }
+  const entries = await getDirectoryEntries(rootDir, rootDir, undefined, ".tmp");
+  // only the temporary files are excluded, not the mirrored files that have the suffix
+  expect(entries.map(entry => entry.relativePath)).toEqual([".s3-sns-sync-4fzyo82mvyk.tmp", "a.txt",
+                                                            "archive.tar.tmp", "b.txt.tmp.bak", "notes.tmp",
+                                                            "x.v2.tmp"]);
+});
+
+test("Ensure clean up succeeds when there is no state.", async () => {
+  expect(await cleanUpStaleDownloads({stateDir, s3Client: null as any})).toEqual(0);
+});
+
+describe("Resuming downloads with writeS3Object.", () => {
+
+  /*
+  * Runs the submitted task immediately so that the tests can wait for it (and
+  * failed tasks do not cause unhandled rejections).
+  * */
+  let runningTasks: Promise<any>[];
+  const queue = {
+    submitPromiseTask: (key: string, task: () => Promise<any>) => {
+      runningTasks.push(task().catch(err => err));
+    }
+  } as any as AsyncOpQueue;
+
+  beforeEach(() => {
+    runningTasks = [];
+  });
+
+  function waitForQueue(): Promise<any[]> {
+    return Promise.all(runningTasks);
+  }
+
+  function writeKey1(ETag: string) {
+    writeS3Object({
+                    rootDir,
+                    transformedKey: "key1",
+                    Key: "key1",
+                    ETag,
+                    Size: 6,
+                    stateDir,
+                    tmpSuffix: ".tmp",
+                    tmpDir,
+                    Bucket,
+                    queue,
+                    s3Client: null as any
+                  });
+  }
+
+  test("Ensure an interrupted download is resumed from its temporary file.", async () => {
+    const record = await createDownload("key1", "etag1", [1, 2, 3]);
+    (getS3Object as jest.Mock).mockImplementation(() => Promise.resolve({
+      $metadata: {httpStatusCode: 206},
+      Body: Readable.from([Buffer.of(4, 5, 6)]),
+      ContentRange: "bytes 3-5/6",
+      ETag: "\"etag1\""
+    }));
+
+    // the listing provides the ETag with quotes
+    writeKey1("\"etag1\"");
+    await waitForQueue();
+
+    expect(getS3Object).toHaveBeenCalledTimes(1);
+    expect((getS3Object as jest.Mock).mock.calls[0][0].Range).toEqual("bytes=3-");
+    expect(fs.readFileSync(path.resolve(rootDir, "key1"))).toEqual(Buffer.of(1, 2, 3, 4, 5, 6));
+    expect(fs.existsSync(record.tmpFilePath)).toBeFalsy();
+    expect(await readDownloadRecord(stateDir, Bucket, "key1")).toBeUndefined();
+  });
+
+  test("Ensure the download starts over when the requested range is not returned.", async () => {
+    const record = await createDownload("key1", "etag1", [1, 2, 3]);
+    // the range is ignored, so the whole object is returned
+    (getS3Object as jest.Mock).mockImplementation(() => Promise.resolve({
+      $metadata: {httpStatusCode: 200},
+      Body: Readable.from([Buffer.of(7, 8, 9, 10, 11, 12)]),
+      ETag: "\"etag1\""
+    }));
+
+    writeKey1("etag1");
+    await waitForQueue();
+
+    expect(getS3Object).toHaveBeenCalledTimes(2);
+    expect((getS3Object as jest.Mock).mock.calls[0][0].Range).toEqual("bytes=3-");
+    expect((getS3Object as jest.Mock).mock.calls[1][0]).toMatchObject({Range: undefined, IfMatch: "\"etag1\""});
+    expect(fs.readFileSync(path.resolve(rootDir, "key1"))).toEqual(Buffer.of(7, 8, 9, 10, 11, 12));
+    expect(fs.existsSync(record.tmpFilePath)).toBeFalsy();
+    expect(await readDownloadRecord(stateDir, Bucket, "key1")).toBeUndefined();
+  });
+
+  test("Ensure a download does not use the record of the key while another download has claimed it.", async () => {
+    // the download that is not tracked starts retrieving the object first, the tracked one waits
+    let releaseTracked: () => void = () => {};
+    const trackedBody = new Readable({read() {}});
+    (getS3Object as jest.Mock)
+      .mockImplementationOnce(() => Promise.resolve({
+        Body: Readable.from([Buffer.of(1, 2, 3, 4, 5, 6)]),
+        ETag: "\"etag1\""
+      }))
+      .mockImplementationOnce(() => {
+        releaseTracked = () => {
+          trackedBody.push(Buffer.of(1, 2, 3, 4, 5, 6));
+          trackedBody.push(null);
+        };
+        return Promise.resolve({Body: trackedBody, ETag: "\"etag1\""});
+      });
+
+    writeKey1("etag1");
+    writeKey1("etag1");
+    await Promise.race(runningTasks);
+
+    // the second download was written to its own temporary file
+    expect(fs.readFileSync(path.resolve(rootDir, "key1"))).toEqual(Buffer.of(1, 2, 3, 4, 5, 6));
+    const record = await readDownloadRecord(stateDir, Bucket, "key1");
+    expect(record).toBeTruthy();
+    expect(fs.readdirSync(tmpDir)).toEqual([path.basename(record!.tmpFilePath)]);
+
+    releaseTracked();
+    await waitForQueue();
+    expect(fs.readdirSync(tmpDir)).toEqual([]);
+    expect(await readDownloadRecord(stateDir, Bucket, "key1")).toBeUndefined();
+  });
+
+  test("Ensure only the parts that were not completed are retrieved when resuming a ranged download.", async () => {
+    const record = await createDownload("key1", "etag1", [0, 1, 2, 3]);
+    await writeDownloadRecord(stateDir, {...record, partSize: 4, completedParts: [0]});
+    (getS3Object as jest.Mock).mockImplementation((opts: any) => {
+      const start = parseInt(opts.Range.substr("bytes=".length).split("-")[0], 10);
+      const data = start === 4 ? Buffer.of(4, 5, 6, 7) : Buffer.of(8, 9);
+      return Promise.resolve({Body: Readable.from([data]), ContentLength: data.length, ETag: "\"etag1\""});
+    });
+
+    writeS3Object({
+                    rootDir,
+                    transformedKey: "key1",
+                    Key: "key1",
+                    ETag: "etag1",
+                    Size: 10,
+                    largeObjectThreshold: 5,
+                    partSize: 4,
+                    partConcurrency: 2,
+                    stateDir,
+                    tmpSuffix: ".tmp",
+                    tmpDir,
+                    Bucket,
+                    queue,
+                    s3Client: null as any
+                  });
+    await waitForQueue();
+
+    expect((getS3Object as jest.Mock).mock.calls.map(c => c[0].Range).sort()).toEqual(["bytes=4-7", "bytes=8-9"]);
+    expect(fs.readFileSync(path.resolve(rootDir, "key1"))).toEqual(Buffer.of(0, 1, 2, 3, 4, 5, 6, 7, 8, 9));
+    expect(await readDownloadRecord(stateDir, Bucket, "key1")).toBeUndefined();
+  });
+
+  test("Ensure the download starts over when the object has changed.", async () => {
+    const record = await createDownload("key1", "etag1", [1, 2, 3]);
+    (getS3Object as jest.Mock).mockImplementation(() => Promise.resolve({
+      Body: Readable.from([Buffer.of(7, 8, 9, 10, 11, 12)]),
+      ETag: "\"etag2\""
+    }));
+
+    writeKey1("etag2");
+    await waitForQueue();
+
+    expect(getS3Object).toHaveBeenCalledTimes(1);
+    expect((getS3Object as jest.Mock).mock.calls[0][0].Range).toBeUndefined();
+    expect(fs.readFileSync(path.resolve(rootDir, "key1"))).toEqual(Buffer.of(7, 8, 9, 10, 11, 12));
+    // the old temporary file was removed
+    expect(fs.existsSync(record.tmpFilePath)).toBeFalsy();
+    expect(fs.readdirSync(tmpDir)).toEqual([]);
+    expect(await readDownloadRecord(stateDir, Bucket, "key1")).toBeUndefined();
+  });
+
+  test("Ensure the temporary file of a failed download is kept so it can be resumed.", async () => {
+    let readCount = 0;
+    (getS3Object as jest.Mock).mockImplementation(() => Promise.resolve({
+      Body: new Readable({
+                           read() {
+                             if (readCount++ === 0) {
+                               this.push(Buffer.of(1, 2));
+                             } else {
+                               // give the first chunk time to be written
+                               setTimeout(() => this.destroy(new Error("Connection reset.")), 20);
+                             }
+                           }
+                         }),
+      ETag: "\"etag1\""
+    }));
+
+    writeKey1("etag1");
+    await waitForQueue();
+
+    const record = await readDownloadRecord(stateDir, Bucket, "key1");
+    expect(record).toBeTruthy();
+    expect(record!.ETag).toEqual("etag1");
+    expect(fs.readFileSync(record!.tmpFilePath)).toEqual(Buffer.of(1, 2));
+    expect(fs.existsSync(path.resolve(rootDir, "key1"))).toBeFalsy();
+  });
+
+});
@@ -1,4 +1,4 @@
-import { handleAcceptableError, isAcceptableError } from "../src/errors";
+import { handleAcceptableError, isAccessError, isAcceptableError, isRetryableError } from "../src/errors";
 import mock = jest.mock;
 
 mock('../src/shutdown')
@@ -92,3 +92,29 @@ test("Check unacceptable errors of handleAcceptableError().", async () => {
     });
 
 })
+
+test("Check retryable errors of isRetryableError().", () => {
+  expect(isRetryableError({name: "SlowDown", $metadata: {httpStatusCode: 503}})).toBeTruthy();
+  // only the status code
+  expect(isRetryableError({name: "Unknown", $metadata: {httpStatusCode: 503}})).toBeTruthy();
+  expect(isRetryableError({code: "ECONNRESET"})).toBeTruthy();
+  expect(isRetryableError({code: "EBUSY"})).toBeTruthy();
+  expect(isRetryableError({code: "EMFILE"})).toBeTruthy();
+
+  expect(isRetryableError({name: "AccessDenied", $metadata: {httpStatusCode: 403}})).toBeFalsy();
+  expect(isRetryableError({code: "ENOENT"})).toBeFalsy();
+  expect(isRetryableError({})).toBeFalsy();
+  expect(isRetryableError(undefined)).toBeFalsy();
+})
+
+test("Check access errors of isAccessError().", () => {
+  expect(isAccessError({name: "AccessDenied", $metadata: {httpStatusCode: 403}})).toBeTruthy();
+  expect(isAccessError({name: "NoSuchBucket", $metadata: {httpStatusCode: 404}})).toBeTruthy();
+  expect(isAccessError({name: "CredentialsProviderError"})).toBeTruthy();
+  // only the status code
+  expect(isAccessError({name: "Unknown", $metadata: {httpStatusCode: 403}})).toBeTruthy();
+
+  expect(isAccessError({name: "NoSuchKey", $metadata: {httpStatusCode: 404}})).toBeFalsy();
+  expect(isAccessError({name: "SlowDown", $metadata: {httpStatusCode: 503}})).toBeFalsy();
+  expect(isAccessError(undefined)).toBeFalsy();
+})
@@ -2,12 +2,15 @@ import * as fs from "fs";
 import AsyncOpQueue from "../src/AsyncOpQueue";
 import { getDirectoryEntries, writeS3Object } from "../src/filesystemOps";
 import * as path from "path";
+import { Readable } from "stream";
+import { getS3Object } from "../src/utils/s3Utils";
 
 jest.mock('fs');
 
 jest.mock('../src/utils/s3Utils', () => ({
   getS3Object: jest.fn((opts: any) => {
-    return Promise.resolve(Buffer.of(1, 2, 3));
+    const {Readable} = require("stream");
+    return Promise.resolve({Body: Readable.from([Buffer.of(1, 2, 3)])});
   })
 }));
 
@@ -73,7 +76,7 @@ describe("writeS3Object tests.", () => {
         // ensure that
         expect(fs.promises.mkdir).toHaveBeenCalledTimes(1);
         expect((fs.promises.mkdir as any).mock.calls[0][0]).toEqual(path.resolve(rootDir, transformedKey));
-        expect(fs.promises.writeFile).toHaveBeenCalledTimes(0);
+        expect(fs.createWriteStream).toHaveBeenCalledTimes(0);
         expect(fs.promises.rename).toHaveBeenCalledTimes(0);
         wasChecked = true;
         resolve(null)
@@ -111,8 +114,8 @@ describe("writeS3Object tests.", () => {
           .toEqual(path.parse(path.resolve(rootDir, transformedKey)).dir);
 
         // ensure tmp file is written
-        expect(fs.promises.writeFile).toHaveBeenCalledTimes(1);
-        let tmpWriteFile = (fs.promises.writeFile as any).mock.calls[0][0] as string;
+        expect(fs.createWriteStream).toHaveBeenCalledTimes(1);
+        let tmpWriteFile = (fs.createWriteStream as any).mock.calls[0][0] as string;
         expect(tmpWriteFile.indexOf(path.resolve(tmpDir, transformedKey))).toBeGreaterThanOrEqual(0)
         expect(tmpWriteFile.endsWith(tmpSuffix)).toBeTruthy();
 
@@ -159,8 +162,8 @@ describe("writeS3Object tests.", () => {
           .toEqual(path.parse(path.resolve(rootDir, transformedKey)).dir);
 
         // ensure tmp file is written, but in root directory, not temporary directory
-        expect(fs.promises.writeFile).toHaveBeenCalledTimes(1);
-        let tmpWriteFile = (fs.promises.writeFile as any).mock.calls[0][0] as string;
+        expect(fs.createWriteStream).toHaveBeenCalledTimes(1);
+        let tmpWriteFile = (fs.createWriteStream as any).mock.calls[0][0] as string;
         expect(tmpWriteFile.indexOf(path.resolve(rootDir, transformedKey))).toBeGreaterThanOrEqual(0)
         expect(tmpWriteFile.endsWith(tmpSuffix)).toBeTruthy();
 
@@ -206,8 +209,8 @@ describe("writeS3Object tests.", () => {
         expect(((fs.promises.mkdir as any).mock.calls[0][0] as string).endsWith("dir55")).toBeTruthy();
         // .toEqual(httpPath.parse(httpPath.resolve(rootDir, transformedKey)).dir);
         // ensure tmp file is written, but in root directory, not temporary directory
-        expect(fs.promises.writeFile).toHaveBeenCalledTimes(1);
-        let tmpWriteFile = (fs.promises.writeFile as any).mock.calls[0][0] as string;
+        expect(fs.createWriteStream).toHaveBeenCalledTimes(1);
+        let tmpWriteFile = (fs.createWriteStream as any).mock.calls[0][0] as string;
         expect(tmpWriteFile.indexOf(path.resolve(rootDir, transformedKey))).toBeGreaterThanOrEqual(0)
         expect(tmpWriteFile.endsWith(tmpSuffix)).toBeTruthy();
 
@@ -225,6 +228,203 @@ describe("writeS3Object tests.", () => {
     expect(wasChecked).toBeTruthy();
   });
 
-});
+  test("Ensure object is streamed to the temporary file and the file is removed when the stream fails.", async () => {
+    jest.doMock('@aws-sdk/client-s3');
+
+    const {S3Client} = require('@aws-sdk/client-s3');
 
+    const Key = "key1";
+    const transformedKey = "key1";
 
+    let readCount = 0;
+    (getS3Object as jest.Mock).mockImplementationOnce(() => Promise.resolve({
+      Body: new Readable({
+                           read() {
+                             if (readCount++ === 0) {
+                               this.push(Buffer.of(1, 2, 3));
+                             } else {
+                               this.destroy(new Error("Connection reset."));
+                             }
+                           }
+                         })
+    }));
+
+    // run the task directly so that the rejection can be checked
+    const submittingQueue = {submitPromiseTask: jest.fn()};
+    writeS3Object({
+                    rootDir,
+                    transformedKey,
+                    Key,
+                    tmpSuffix,
+                    tmpDir,
+                    Bucket,
+                    queue: submittingQueue as any,
+                    s3Client: new S3Client({})
+                  });
+    expect(submittingQueue.submitPromiseTask).toHaveBeenCalledTimes(1);
+    await expect(submittingQueue.submitPromiseTask.mock.calls[0][1]()).rejects.toThrow("Connection reset.");
+
+    expect(fs.createWriteStream).toHaveBeenCalledTimes(1);
+    let tmpWriteFile = (fs.createWriteStream as any).mock.calls[0][0] as string;
+    // the first chunk was written before the failure
+    expect((fs.createWriteStream as any).mock.results[0].value.__writtenChunks).toEqual([Buffer.of(1, 2, 3)]);
+    // never renamed, temporary file removed
+    expect(fs.promises.rename).toHaveBeenCalledTimes(0);
+    expect(fs.promises.unlink).toHaveBeenCalledTimes(1);
+    expect((fs.promises.unlink as any).mock.calls[0][0]).toEqual(tmpWriteFile);
+  });
+
+  /*
+  * Returns a getS3Object mock implementation that responds to ranged requests with
+  * the requested bytes of data (each byte is its position in the object).
+  * */
+  function mockRangedGetS3Object(eTagForRange: (start: number) => string) {
+    return (opts: any) => {
+      const [start, end] = (opts.Range as string).substr("bytes=".length).split("-").map(n => parseInt(n, 10));
+      const data = Buffer.alloc(end - start + 1);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = start + i;
+      }
+      return Promise.resolve({Body: Readable.from([data]), ContentLength: data.length, ETag: eTagForRange(start)});
+    };
+  }
+
+  test("Ensure the file's mtime is set to the object's LastModified before it is renamed.", async () => {
+    const LastModified = new Date(2020, 1, 1);
+    (getS3Object as jest.Mock).mockImplementationOnce(() => Promise.resolve({
+      Body: Readable.from([Buffer.of(1, 2, 3)]),
+      LastModified
+    }));
+    const submittingQueue = {submitPromiseTask: jest.fn()};
+    writeS3Object({
+                    rootDir,
+                    transformedKey: "key1",
+                    Key: "key1",
+                    tmpSuffix,
+                    Bucket,
+                    preserveLastModified: true,
+                    queue: submittingQueue as any,
+                    s3Client: null as any
+                  });
+    await submittingQueue.submitPromiseTask.mock.calls[0][1]();
+    const utimes = fs.promises.utimes as any as jest.Mock;
+    const rename = fs.promises.rename as any as jest.Mock;
+    expect(utimes).toHaveBeenCalledTimes(1);
+    expect(utimes.mock.calls[0][0]).toEqual(rename.mock.calls[0][0]);
+    expect(utimes.mock.calls[0][2]).toEqual(LastModified);
+    expect(utimes.mock.invocationCallOrder[0]).toBeLessThan(rename.mock.invocationCallOrder[0]);
+  });
+
+  test("Ensure large object is retrieved as byte ranges that are written at their positions in the temporary file.", async () => {
+    jest.doMock('@aws-sdk/client-s3');
+
+    const {S3Client} = require('@aws-sdk/client-s3');
+
+    const Key = "key1";
+    const transformedKey = "key1";
+
+    const defaultGetS3Object = (getS3Object as jest.Mock).getMockImplementation();
+    (getS3Object as jest.Mock).mockImplementation(mockRangedGetS3Object(() => "\"etag1\""));
+    const submitSpy = jest.spyOn(queue, "submitPromiseTask");
+
+    try {
+      writeS3Object({
+                      rootDir,
+                      transformedKey,
+                      Key,
+                      tmpSuffix,
+                      tmpDir,
+                      Bucket,
+                      queue,
+                      s3Client: new S3Client({}),
+                      ETag: "\"etag1\"",
+                      Size: 10,
+                      largeObjectThreshold: 5,
+                      partSize: 4,
+                      partConcurrency: 2
+                    });
+
+      // takes up a slot for each concurrently retrieved part and never expires
+      expect(submitSpy.mock.calls[0][3]).toEqual(2);
+      expect(submitSpy.mock.calls[0][2]).toBeNull();
+
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect((getS3Object as jest.Mock).mock.calls.map(c => c[0].Range).sort())
+        .toEqual(["bytes=0-3", "bytes=4-7", "bytes=8-9"]);
+      // every range must be the listed version, even though the download is not tracked (no stateDir)
+      expect((getS3Object as jest.Mock).mock.calls.map(c => c[0].IfMatch)).toEqual(["\"etag1\"", "\"etag1\"", "\"etag1\""]);
+
+      // the file is created before the parts are written into it
+      expect(fs.promises.writeFile).toHaveBeenCalledTimes(1);
+      const tmpWriteFile = (fs.promises.writeFile as any).mock.calls[0][0] as string;
+      expect(tmpWriteFile.indexOf(path.resolve(tmpDir, transformedKey))).toBeGreaterThanOrEqual(0);
+
+      expect(fs.createWriteStream).toHaveBeenCalledTimes(3);
+      const writtenParts = (fs.createWriteStream as any).mock.calls.map((call: any[], i: number) => {
+        expect(call[0]).toEqual(tmpWriteFile);
+        expect(call[1].flags).toEqual("r+");
+        return {
+          start: call[1].start,
+          data: [...(fs.createWriteStream as any).mock.results[i].value.__writtenChunks[0]]
+        };
+      }).sort((a: any, b: any) => a.start - b.start);
+      expect(writtenParts).toEqual([
+                                     {start: 0, data: [0, 1, 2, 3]},
+                                     {start: 4, data: [4, 5, 6, 7]},
+                                     {start: 8, data: [8, 9]}
+                                   ]);
+
+      expect(fs.promises.rename).toHaveBeenCalledTimes(1);
+      expect((fs.promises.rename as any).mock.calls[0][0]).toEqual(tmpWriteFile);
+      expect((fs.promises.rename as any).mock.calls[0][1]).toEqual(path.resolve(rootDir, transformedKey));
+    } finally {
+      (getS3Object as jest.Mock).mockImplementation(defaultGetS3Object);
+    }
+  });
+
+  test("Ensure large object download fails when the object changes while its parts are retrieved.", async () => {
+    jest.doMock('@aws-sdk/client-s3');
+
+    const {S3Client} = require('@aws-sdk/client-s3');
+
+    const Key = "key1";
+    const transformedKey = "key1";
+
+    const defaultGetS3Object = (getS3Object as jest.Mock).getMockImplementation();
+    (getS3Object as jest.Mock).mockImplementation(mockRangedGetS3Object(start => start === 0 ? "\"etag1\"" : "\"etag2\""));
+
+    try {
+      // run the task directly so that the rejection can be checked
+      const submittingQueue = {submitPromiseTask: jest.fn()};
+      writeS3Object({
+                      rootDir,
+                      transformedKey,
+                      Key,
+                      tmpSuffix,
+                      tmpDir,
+                      Bucket,
+                      queue: submittingQueue as any,
+                      s3Client: new S3Client({}),
+                      Size: 10,
+                      largeObjectThreshold: 5,
+                      partSize: 4,
+                      partConcurrency: 1
+                    });
+      await expect(submittingQueue.submitPromiseTask.mock.calls[0][1]()).rejects.toThrow("changed");
+
+      /*
+      * The first part was written, the second had a different ETag and the third was never
+      * requested. The download is not retried, since it would be pinned to the same ETag.
+      * */
+      expect(getS3Object).toHaveBeenCalledTimes(2);
+      expect(fs.createWriteStream).toHaveBeenCalledTimes(1);
+      expect(fs.promises.rename).toHaveBeenCalledTimes(0);
+      expect((fs.promises.unlink as any).mock.calls.map((c: any[]) => c[0]))
+        .toEqual((fs.promises.writeFile as any).mock.calls.map((c: any[]) => c[0]));
+    } finally {
+      (getS3Object as jest.Mock).mockImplementation(defaultGetS3Object);
+    }
+  });
+
+});
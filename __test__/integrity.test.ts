@@ -0,0 +1,187 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { createHash } from "crypto";
+import { Readable } from "stream";
+import AsyncOpQueue from "../src/AsyncOpQueue";
+import { createChecksum } from "../src/utils/checksums";
+import { isMultipartETag, verifyDownloadedObject } from "../src/integrity";
+import { writeS3Object } from "../src/filesystemOps";
+import { getS3Object, headS3Object } from "../src/utils/s3Utils";
+
+jest.mock('../src/utils/s3Utils', () => ({
+  getS3Object: jest.fn(),
+  headS3Object: jest.fn()
+}));
+
+const Bucket = "TestBuck";
+const Key = "key1";
+const DATA = Buffer.from("123456789");
+const DATA_MD5 = createHash("md5").update(DATA).digest("hex");
+
+// the real file system is used, in a directory that is removed after each test
+let testDir: string;
+let filePath: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  testDir = fs.mkdtempSync(path.join(os.tmpdir(), "integrity-"));
+  filePath = path.resolve(testDir, "downloaded");
+  fs.writeFileSync(filePath, DATA);
+});
+
+afterEach(() => {
+  fs.rmdirSync(testDir, {recursive: true});
+});
+
+test("Ensure checksums match the known check values.", () => {
+  const expected: { [algorithm: string]: string } = {
+    CRC32: "cbf43926",
+    CRC32C: "e3069283",
+    MD5: DATA_MD5,
+    SHA1: createHash("sha1").update(DATA).digest("hex")
+  };
+  for (const algorithm in expected) {
+    const checksum = createChecksum(algorithm as any);
+    // in chunks to ensure the state is kept between updates
+    checksum.update(DATA.slice(0, 4));
+    checksum.update(DATA.slice(4));
+    expect(checksum.digest().toString("hex")).toEqual(expected[algorithm]);
+  }
+});
+
+test("Ensure multipart ETags are recognized.", () => {
+  expect(isMultipartETag("\"abc-12\"")).toBeTruthy();
+  expect(isMultipartETag("\"abc\"")).toBeFalsy();
+});
+
+describe("verifyDownloadedObject tests.", () => {
+
+  const commonOptions = {s3Client: null as any, Bucket, Key};
+
+  test("Ensure the MD5 computed while downloading is compared to a single part ETag without a request.", async () => {
+    const md5 = createChecksum("MD5");
+    md5.update(DATA);
+    await verifyDownloadedObject({
+                                   ...commonOptions,
+                                   filePath,
+                                   response: {ETag: `"${DATA_MD5}"`, ContentLength: DATA.length},
+                                   md5
+                                 });
+    expect(headS3Object).toHaveBeenCalledTimes(0);
+
+    const wrongMd5 = createChecksum("MD5");
+    wrongMd5.update(Buffer.from("12345678"));
+    await expect(verifyDownloadedObject({
+                                          ...commonOptions,
+                                          filePath,
+                                          response: {ETag: `"${DATA_MD5}"`, ContentLength: DATA.length},
+                                          md5: wrongMd5
+                                        })).rejects.toMatchObject({code: "IntegrityMismatch"});
+  });
+
+  test("Ensure a truncated file fails verification.", async () => {
+    fs.writeFileSync(filePath, DATA.slice(0, 5));
+    (headS3Object as jest.Mock).mockResolvedValue({ETag: `"${DATA_MD5}"`, ContentLength: DATA.length, Checksums: {}});
+    await expect(verifyDownloadedObject({...commonOptions, filePath}))
+      .rejects.toMatchObject({code: "IntegrityMismatch"});
+  });
+
+  test("Ensure the file is read to compare the MD5 when it was not computed while downloading.", async () => {
+    (headS3Object as jest.Mock).mockResolvedValue({ETag: `"${DATA_MD5}"`, ContentLength: DATA.length, Checksums: {}});
+    await verifyDownloadedObject({...commonOptions, filePath, ETag: DATA_MD5});
+    expect((headS3Object as jest.Mock).mock.calls[0][0].checksumMode).toBeTruthy();
+  });
+
+  test("Ensure multipart objects are compared against a full object checksum.", async () => {
+    (headS3Object as jest.Mock).mockResolvedValue({
+                                                    ETag: "\"abc-2\"",
+                                                    ContentLength: DATA.length,
+                                                    Checksums: {
+                                                      // composite checksums cannot be used
+                                                      SHA256: "c29tZQ==-2",
+                                                      CRC32: Buffer.from("cbf43926", "hex").toString("base64")
+                                                    }
+                                                  });
+    await verifyDownloadedObject({...commonOptions, filePath, ETag: "abc-2"});
+
+    (headS3Object as jest.Mock).mockResolvedValue({
+                                                    ETag: "\"abc-2\"",
+                                                    ContentLength: DATA.length,
+                                                    Checksums: {CRC32: Buffer.from("00000000", "hex").toString("base64")}
+                                                  });
+    await expect(verifyDownloadedObject({...commonOptions, filePath, ETag: "abc-2"}))
+      .rejects.toMatchObject({code: "IntegrityMismatch"});
+  });
+
+  test("Ensure only the size is verified for multipart objects without a full object checksum.", async () => {
+    (headS3Object as jest.Mock).mockResolvedValue({ETag: "\"abc-2\"", ContentLength: DATA.length, Checksums: {}});
+    await verifyDownloadedObject({...commonOptions, filePath, ETag: "abc-2"});
+  });
+
+  test("Ensure the ETag of SSE-KMS encrypted objects is not used as the MD5.", async () => {
+    (headS3Object as jest.Mock).mockResolvedValue({
+                                                    ETag: "\"notthemd5\"",
+                                                    ContentLength: DATA.length,
+                                                    ServerSideEncryption: "aws:kms",
+                                                    Checksums: {}
+                                                  });
+    await verifyDownloadedObject({...commonOptions, filePath, ETag: "notthemd5"});
+  });
+
+  test("Ensure a changed or removed object is reported as changed.", async () => {
+    (headS3Object as jest.Mock).mockResolvedValue({ETag: "\"other\"", ContentLength: DATA.length, Checksums: {}});
+    await expect(verifyDownloadedObject({...commonOptions, filePath, ETag: DATA_MD5}))
+      .rejects.toMatchObject({code: "ObjectChanged"});
+
+    (headS3Object as jest.Mock).mockResolvedValue(undefined);
+    await expect(verifyDownloadedObject({...commonOptions, filePath, ETag: DATA_MD5}))
+      .rejects.toMatchObject({code: "ObjectChanged"});
+  });
+
+});
+
+test("Ensure writeS3Object discards and retries a download that does not match the object.", async () => {
+  const rootDir = path.resolve(testDir, "root");
+  const tmpDir = path.resolve(testDir, "tmp");
+  fs.mkdirSync(tmpDir);
+  // first response is truncated
+  (getS3Object as jest.Mock)
+    .mockImplementationOnce(() => Promise.resolve({
+      Body: Readable.from([DATA.slice(0, 5)]),
+      ETag: `"${DATA_MD5}"`,
+      ContentLength: DATA.length
+    }))
+    .mockImplementationOnce(() => Promise.resolve({
+      Body: Readable.from([DATA]),
+      ETag: `"${DATA_MD5}"`,
+      ContentLength: DATA.length
+    }));
+
+  let task: Promise<any> = Promise.resolve();
+  const queue = {
+    submitPromiseTask: (key: string, promiseTask: () => Promise<any>) => {
+      task = promiseTask();
+    }
+  } as any as AsyncOpQueue;
+
+  writeS3Object({
+                  rootDir,
+                  transformedKey: Key,
+                  Key,
+                  ETag: DATA_MD5,
+                  Size: DATA.length,
+                  verifyIntegrity: true,
+                  tmpSuffix: ".tmp",
+                  tmpDir,
+                  Bucket,
+                  queue,
+                  s3Client: null as any
+                });
+  await task;
+
+  expect(getS3Object).toHaveBeenCalledTimes(2);
+  expect(fs.readFileSync(path.resolve(rootDir, Key))).toEqual(DATA);
+  // the discarded temporary file was removed
+  expect(fs.readdirSync(tmpDir)).toEqual([]);
+});
@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { EventEmitter } from "events";
+import EventJournal, { replayEventJournal } from "../src/journal";
+import { createDefaultRequestListener } from "../src/snsServer";
+
+const bucket = "TestBuck";
+
+// the real file system is used, in a directory that is removed after each test
+let stateDir: string;
+
+beforeEach(() => {
+  stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "journal-"));
+});
+
+afterEach(() => {
+  fs.rmdirSync(stateDir, {recursive: true});
+});
+
+function createRecord(key: string): any {
+  return {
+    eventVersion: "2.2",
+    eventSource: "aws:s3",
+    eventName: "ObjectCreated:Put",
+    s3: {bucket: {name: bucket}, object: {key, size: 1, eTag: "etag"}}
+  };
+}
+
+test("Ensure the pending entries are persisted and read by a new journal.", async () => {
+  const journal = new EventJournal({stateDir});
+  const entry1 = await journal.append("message1", [createRecord("1.txt")]);
+  const entry2 = await journal.append("message2", [createRecord("2.txt")]);
+  await journal.append("message3", [createRecord("3.txt")]);
+  await journal.markDone(entry2.id);
+  await journal.close();
+
+  const reread = new EventJournal({stateDir});
+  expect(reread.getPendingEntries().map(entry => entry.MessageId)).toEqual(["message1", "message3"]);
+  expect(reread.getPendingEntries()[0].Records[0].s3.object.key).toEqual("1.txt");
+  expect(reread.doneEntries).toEqual(1);
+  // ids are not reused
+  expect((await reread.append("message4", [])).id).toEqual(4);
+  await reread.markDone(entry1.id);
+  await reread.close();
+  expect(new EventJournal({stateDir}).getPendingEntries().map(entry => entry.MessageId))
+    .toEqual(["message3", "message4"]);
+});
+
+test("Ensure a partially written entry is skipped.", async () => {
+  const journal = new EventJournal({stateDir});
+  await journal.append("message1", [createRecord("1.txt")]);
+  await journal.close();
+  fs.appendFileSync(journal.filePath, "{\"id\":2,\"MessageId\":\"mess");
+  expect(new EventJournal({stateDir}).getPendingEntries().map(entry => entry.MessageId)).toEqual(["message1"]);
+});
+
+test("Ensure compaction removes the entries that are done.", async () => {
+  const journal = new EventJournal({stateDir, compactThreshold: 2});
+  const entry1 = await journal.append("message1", []);
+  const entry2 = await journal.append("message2", []);
+  await journal.append("message3", []);
+  await journal.markDone(entry1.id);
+  expect(fs.readFileSync(journal.filePath, "utf8").split("\n").length).toEqual(5);
+  // reaches the threshold
+  await journal.markDone(entry2.id);
+  expect(journal.doneEntries).toEqual(0);
+  const lines = fs.readFileSync(journal.filePath, "utf8").split("\n").filter(line => line.length > 0);
+  expect(lines.map(line => JSON.parse(line).MessageId)).toEqual(["message3"]);
+  // still appends once compacted
+  await journal.append("message4", []);
+  await journal.close();
+  expect(new EventJournal({stateDir}).getPendingEntries().map(entry => entry.MessageId))
+    .toEqual(["message3", "message4"]);
+});
+
+test("Ensure replayed notifications are marked done unless they fail.", async () => {
+  const journal = new EventJournal({stateDir});
+  await journal.append("message1", [createRecord("1.txt")]);
+  await journal.append("message2", [createRecord("2.txt")]);
+  const listener = jest.fn((notification: any) => (
+    notification.body.MessageId === "message2" ? Promise.reject(new Error("Failed to write.")) : Promise.resolve()
+  ));
+  expect(await replayEventJournal(journal, listener)).toEqual(1);
+  expect(listener).toHaveBeenCalledTimes(2);
+  expect(listener.mock.calls[0][0].body.Message.Records[0].s3.object.key).toEqual("1.txt");
+  expect(journal.getPendingEntries().map(entry => entry.MessageId)).toEqual(["message2"]);
+  await journal.close();
+});
+
+test("Ensure notifications are journaled before they are acknowledged.", async () => {
+  const journal = new EventJournal({stateDir});
+  let handled: () => void = () => undefined;
+  const listener = jest.fn(() => new Promise<void>(resolve => handled = resolve));
+  const requestListener = createDefaultRequestListener({} as any, listener, true, false, undefined, journal);
+
+  const req: any = new EventEmitter();
+  req.headers = {};
+  const resp: any = {end: jest.fn()};
+  requestListener(req, resp);
+  req.emit("data", Buffer.from(JSON.stringify({
+                                                 Type: "Notification",
+                                                 MessageId: "message1",
+                                                 Message: JSON.stringify({Records: [createRecord("1.txt")]})
+                                               })));
+  req.emit("end");
+  await new Promise(resolve => setTimeout(resolve, 50));
+
+  expect(resp.end).toHaveBeenCalledTimes(1);
+  expect(resp.statusCode).toEqual(200);
+  expect(listener).toHaveBeenCalledTimes(1);
+  await journal.close();
+  expect(new EventJournal({stateDir}).getPendingEntries().map(entry => entry.MessageId)).toEqual(["message1"]);
+
+  handled();
+  await new Promise(resolve => setTimeout(resolve, 50));
+  await journal.close();
+  expect(new EventJournal({stateDir}).getPendingEntries()).toEqual([]);
+});
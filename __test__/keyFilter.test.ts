@@ -0,0 +1,52 @@
+import { createKeyFilter, globToRegExp } from "../src/utils/keyFilter";
+
+describe("Test globToRegExp().", () => {
+  test("Single segment wildcards do not match the separator.", () => {
+    expect(globToRegExp("*.txt").test("a.txt")).toBeTruthy();
+    expect(globToRegExp("*.txt").test("dir/a.txt")).toBeFalsy();
+    expect(globToRegExp("dir/?.txt").test("dir/a.txt")).toBeTruthy();
+    expect(globToRegExp("dir/?.txt").test("dir/ab.txt")).toBeFalsy();
+    expect(globToRegExp("[ab].txt").test("b.txt")).toBeTruthy();
+    expect(globToRegExp("[!ab].txt").test("b.txt")).toBeFalsy();
+    expect(globToRegExp("a.(1)+.txt").test("a.(1)+.txt")).toBeTruthy();
+  });
+  test("Double wildcards match any number of directories.", () => {
+    expect(globToRegExp("**/*.parquet").test("a.parquet")).toBeTruthy();
+    expect(globToRegExp("**/*.parquet").test("1/2/a.parquet")).toBeTruthy();
+    expect(globToRegExp("**/*.parquet").test("1/2/a.csv")).toBeFalsy();
+    expect(globToRegExp("tmp/**").test("tmp/1/a.txt")).toBeTruthy();
+    expect(globToRegExp("tmp/**").test("tmp2/a.txt")).toBeFalsy();
+    expect(globToRegExp("a/**/b").test("a/b")).toBeTruthy();
+    expect(globToRegExp("a/**/b").test("a/1/2/b")).toBeTruthy();
+    expect(globToRegExp("a**").test("a/b")).toBeTruthy();
+  });
+});
+
+describe("Test createKeyFilter().", () => {
+  test("No patterns include everything.", () => {
+    expect(createKeyFilter({})).toBeUndefined();
+    expect(createKeyFilter({include: [], exclude: []})).toBeUndefined();
+  });
+  test("Keys must match an include and no exclude.", () => {
+    const keyFilter = createKeyFilter({include: ["**/*.parquet", "*.json"], exclude: ["tmp/**"]})!;
+    expect(keyFilter("1/a.parquet", "1/a.parquet")).toBeTruthy();
+    expect(keyFilter("a.json", "a.json")).toBeTruthy();
+    expect(keyFilter("1/a.json", "1/a.json")).toBeFalsy();
+    expect(keyFilter("tmp/a.parquet", "tmp/a.parquet")).toBeFalsy();
+  });
+  test("Negated patterns are moved to the opposite list.", () => {
+    const keyFilter = createKeyFilter({include: ["!*.tmp"]})!;
+    expect(keyFilter("a.txt", "a.txt")).toBeTruthy();
+    expect(keyFilter("a.tmp", "a.tmp")).toBeFalsy();
+    const excludeAllBut = createKeyFilter({exclude: ["!*.txt"]})!;
+    expect(excludeAllBut("a.txt", "a.txt")).toBeTruthy();
+    expect(excludeAllBut("a.tmp", "a.tmp")).toBeFalsy();
+  });
+  test("Transformed keys are matched when requested.", () => {
+    const original = createKeyFilter({include: ["data/**"]})!;
+    expect(original("data/a.txt", "a.txt")).toBeTruthy();
+    const transformed = createKeyFilter({include: ["data/**"], filterTransformedKey: true})!;
+    expect(transformed("data/a.txt", "a.txt")).toBeFalsy();
+    expect(transformed("a.txt", "data\\a.txt")).toBeTruthy();
+  });
+});
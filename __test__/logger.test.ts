@@ -0,0 +1,49 @@
+import { createComponentLog, log, LogLevel, LogRecord, setLogFormat, setLogLevel, setLogSink } from "../src/logger";
+
+afterEach(() => {
+  setLogSink();
+  setLogFormat("text");
+  setLogLevel(LogLevel.ERROR);
+  jest.restoreAllMocks();
+});
+
+test("Ensure the messages at or above the log level are provided to the sink.", () => {
+  const records: LogRecord[] = [];
+  setLogLevel(LogLevel.WARN);
+  setLogSink(record => records.push(record));
+  log("error", LogLevel.ERROR);
+  log("warn", LogLevel.WARN, {bucket: "bucket", key: "key"});
+  log("info", LogLevel.INFO);
+  log("debug", LogLevel.DEBUG);
+  expect(records.map(record => record.message)).toEqual(["error", "warn"]);
+  expect(records[1]).toMatchObject({level: "WARN", bucket: "bucket", key: "key"});
+  expect(new Date(records[1].timestamp).getTime()).not.toBeNaN();
+});
+
+test("Ensure the component log adds the component to the context.", () => {
+  const records: LogRecord[] = [];
+  setLogLevel(LogLevel.DEBUG);
+  setLogSink(record => records.push(record));
+  const fsLog = createComponentLog("fs");
+  fsLog(new Error("failed"), LogLevel.ERROR, {localPath: "/tmp/file", operation: "unlink", duration: 5});
+  fsLog({some: "object"}, LogLevel.DEBUG);
+  expect(records[0]).toMatchObject({component: "fs", level: "ERROR", localPath: "/tmp/file", operation: "unlink",
+                                    duration: 5});
+  expect(records[0].message).toContain("Error: failed");
+  expect(records[1]).toMatchObject({component: "fs", message: "{ some: 'object' }"});
+});
+
+test("Ensure the messages are written as text or JSON lines to the console.", () => {
+  const error = jest.spyOn(console, "error").mockImplementation(() => {});
+  const info = jest.spyOn(console, "log").mockImplementation(() => {});
+  setLogLevel(LogLevel.DEBUG);
+  const err = new Error("failed");
+  log(err, LogLevel.ERROR);
+  expect(error).toHaveBeenLastCalledWith(err);
+
+  setLogFormat("json");
+  log("Removing file.", LogLevel.DEBUG, {component: "fs", localPath: "/tmp/file"});
+  const record = JSON.parse(info.mock.calls[info.mock.calls.length - 1][0]);
+  expect(record).toMatchObject({level: "DEBUG", component: "fs", localPath: "/tmp/file", message: "Removing file."});
+  expect(() => setLogFormat("xml")).toThrow();
+});
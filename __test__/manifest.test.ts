@@ -0,0 +1,107 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Readable } from "stream";
+import AsyncOpQueue from "../src/AsyncOpQueue";
+import SyncManifest from "../src/manifest";
+import { rmdirRecursive, unlinkFile, writeS3Object } from "../src/filesystemOps";
+import { getS3Object } from "../src/utils/s3Utils";
+
+jest.mock('../src/utils/s3Utils', () => ({
+  getS3Object: jest.fn(),
+  headS3Object: jest.fn()
+}));
+
+const bucket = "TestBuck";
+
+// the real file system is used, in a directory that is removed after each test
+let testDir: string;
+let stateDir: string;
+let rootDir: string;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  testDir = fs.mkdtempSync(path.join(os.tmpdir(), "manifest-"));
+  stateDir = path.resolve(testDir, "state");
+  rootDir = path.resolve(testDir, "root");
+  fs.mkdirSync(rootDir);
+});
+
+afterEach(() => {
+  fs.rmdirSync(testDir, {recursive: true});
+});
+
+test("Ensure the manifest is persisted and read by a new manifest.", async () => {
+  const manifest = new SyncManifest({stateDir, bucket, rootDir});
+  manifest.set("dir/1.txt", {Key: "dir/1.txt", ETag: "\"etag1\"", Size: 1, LastModified: 1000});
+  manifest.set("dir/2.txt", {Key: "dir/2.txt", ETag: "etag2", Size: 2});
+  manifest.set("3.txt", {Key: "3.txt", ETag: "etag3", Size: 3});
+  await manifest.flush();
+
+  const reread = new SyncManifest({stateDir, bucket, rootDir});
+  // quotes are removed so that listing and event ETags can be compared
+  expect(reread.get("dir/1.txt")).toEqual({Key: "dir/1.txt", ETag: "etag1", Size: 1, LastModified: 1000});
+  reread.removeDirectory("dir/");
+  reread.remove("3.txt");
+  await reread.flush();
+
+  expect(new SyncManifest({stateDir, bucket, rootDir}).get("dir/2.txt")).toBeUndefined();
+  expect(new SyncManifest({stateDir, bucket, rootDir}).get("3.txt")).toBeUndefined();
+  // each bucket has its own manifest
+  expect(new SyncManifest({stateDir, bucket: "OtherBuck", rootDir}).get("dir/1.txt")).toBeUndefined();
+});
+
+test("Ensure changes are persisted after the flush delay.", async () => {
+  const manifest = new SyncManifest({stateDir, bucket, rootDir, flushDelay: 10});
+  manifest.set("1.txt", {Key: "1.txt", ETag: "etag1", Size: 1});
+  expect(fs.existsSync(manifest.filePath)).toBeFalsy();
+  await new Promise(resolve => setTimeout(resolve, 50));
+  expect(new SyncManifest({stateDir, bucket, rootDir}).get("1.txt")).toBeTruthy();
+});
+
+test("Ensure a corrupt manifest is replaced by an empty one.", () => {
+  const manifest = new SyncManifest({stateDir, bucket, rootDir});
+  fs.mkdirSync(path.dirname(manifest.filePath), {recursive: true});
+  fs.writeFileSync(manifest.filePath, "{\"entries\":");
+  expect(new SyncManifest({stateDir, bucket, rootDir}).get("1.txt")).toBeUndefined();
+});
+
+test("Ensure written and removed files update the manifest.", async () => {
+  const manifest = new SyncManifest({stateDir, bucket, rootDir});
+  (getS3Object as jest.Mock).mockImplementation(() => Promise.resolve({
+    Body: Readable.from([Buffer.of(1, 2, 3)]),
+    ETag: "\"etag1\""
+  }));
+  let runningTasks: Promise<any>[] = [];
+  const queue = {
+    submitPromiseTask: (key: string, task: () => Promise<any>) => {
+      runningTasks.push(task());
+    }
+  } as any as AsyncOpQueue;
+  const LastModified = new Date(2020, 1, 1);
+  for (const Key of ["1.txt", "dir/2.txt"]) {
+    writeS3Object({
+                    rootDir,
+                    transformedKey: Key,
+                    Key,
+                    ETag: "etag1",
+                    LastModified,
+                    tmpSuffix: ".tmp",
+                    Bucket: bucket,
+                    queue,
+                    manifest,
+                    s3Client: null as any
+                  });
+  }
+  await Promise.all(runningTasks);
+  expect(manifest.get("1.txt")).toEqual({Key: "1.txt", ETag: "etag1", Size: 3, LastModified: LastModified.getTime()});
+  expect(manifest.get("dir/2.txt")).toBeTruthy();
+
+  runningTasks = [];
+  unlinkFile({queue, rootDir, relativeFilePath: "1.txt", remove: false, manifest});
+  rmdirRecursive({queue, rootDir, relativeDirPath: "dir/", manifest});
+  await Promise.all(runningTasks);
+  expect(manifest.get("1.txt")).toBeUndefined();
+  expect(manifest.get("dir/2.txt")).toBeUndefined();
+  await manifest.flush();
+});
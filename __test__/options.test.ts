@@ -4,7 +4,8 @@
 * */
 
 import { S3Client } from "@aws-sdk/client-s3";
-import { checkAndCopyCommonOptionsWithDefaults } from "../src/options";
+import { checkAndCopyCommonOptionsWithDefaults, getMappingOptions } from "../src/options";
+import { applyTransformersToKey } from "../src/s3ObjectOps";
 import AsyncOpQueue from "../src/AsyncOpQueue";
 import * as path from "path";
 import * as fs from "fs";
@@ -83,6 +84,48 @@ describe("Common options tests with mocks.", () => {
     expect((fs.mkdirSync as any).mock.calls[0][0]).toEqual(path.resolve(rootDir));
   });
 
+  test("Should set large object download defaults and fail on invalid part options.", () => {
+    const opts = checkAndCopyCommonOptionsWithDefaults({
+                                                         bucket,
+                                                         rootDir
+                                                       });
+    expect(opts.largeObjectThreshold).toEqual(100 * 1024 * 1024);
+    expect(opts.partSize).toEqual(16 * 1024 * 1024);
+    expect(opts.partConcurrency).toEqual(4);
+
+    // 0 disables ranged downloads rather than being replaced with the default
+    expect(checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, largeObjectThreshold: 0}).largeObjectThreshold)
+      .toEqual(0);
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, partSize: -1})
+    }).toThrow("'partSize' must be a number greater than 0.");
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, partConcurrency: 0})
+    }).toThrow("'partConcurrency' must be a number greater than or equal to 1.");
+  });
+
+  test("Should set retry defaults and fail on invalid retry options.", () => {
+    const opts = checkAndCopyCommonOptionsWithDefaults({bucket, rootDir});
+    expect(opts.retryMaxAttempts).toEqual(3);
+    expect(opts.retryBaseDelay).toEqual(200);
+    expect(opts.retryJitter).toEqual(0.5);
+
+    // 0 is not replaced with the default
+    const noDelay = checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, retryBaseDelay: 0, retryJitter: 0});
+    expect(noDelay.retryBaseDelay).toEqual(0);
+    expect(noDelay.retryJitter).toEqual(0);
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, retryMaxAttempts: 0})
+    }).toThrow("'retryMaxAttempts' must be a number greater than or equal to 1.");
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, retryJitter: 2})
+    }).toThrow("'retryJitter' must be a number between 0 and 1.");
+  });
+
   test("Should fail when root directory and bucket are not supplied.", () => {
     expect(() => {
       checkAndCopyCommonOptionsWithDefaults({})
@@ -97,6 +140,81 @@ describe("Common options tests with mocks.", () => {
     }).toThrow();
   });
 
+  test("Should copy mappings with the common options as their defaults.", () => {
+    const opts = checkAndCopyCommonOptionsWithDefaults({
+                                                         bucket,
+                                                         tmpDir: "./tmp",
+                                                         remove: true,
+                                                         mappings: [
+                                                           {prefix: "reports/", rootDir: "./reports"},
+                                                           {prefix: "assets/img/", rootDir: "./img", remove: false}
+                                                         ]
+                                                       });
+    const mappingOptions = getMappingOptions(opts);
+    expect(mappingOptions.length).toEqual(2);
+    expect(mappingOptions[0].rootDir).toEqual(path.resolve("./reports"));
+    expect(mappingOptions[0].prefix).toEqual("reports/");
+    expect(mappingOptions[0].tmpDir).toEqual("./tmp");
+    expect(mappingOptions[0].tmpSuffix).toEqual(".tmp");
+    expect(mappingOptions[0].remove).toEqual(true);
+    expect(mappingOptions[0].mappings).toBeUndefined();
+    expect(mappingOptions[1].remove).toEqual(false);
+    // the prefix is removed before the default transformers are applied
+    expect(applyTransformersToKey("assets/img/1/a.png", mappingOptions[1].s3KeyTransformers))
+      .toEqual(path.join("1", "a.png"));
+    expect((fs.mkdirSync as any).mock.calls.map((call: any[]) => call[0]))
+      .toEqual(expect.arrayContaining([path.resolve("./reports"), path.resolve("./img")]));
+    expect(getMappingOptions({bucket, rootDir})).toEqual([{bucket, rootDir}]);
+  });
+
+  test("Should fail when mappings are provided with rootDir or overlap.", () => {
+    const mappings = [{prefix: "reports/", rootDir: "./reports"}];
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({bucket, rootDir, mappings})
+    }).toThrow("'rootDir' and 'prefix' cannot be provided with 'mappings'.");
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({bucket, mappings: [{prefix: "reports/"} as any]})
+    }).toThrow("'rootDir' must be provided in options.");
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({
+                                              bucket,
+                                              mappings: mappings.concat([{prefix: "img/", rootDir: "./reports/img"}])
+                                            })
+    }).toThrow("cannot be the same or within one another.");
+  });
+
+  test("Should mirror each of the buckets into its own subdirectory.", () => {
+    const opts = checkAndCopyCommonOptionsWithDefaults({buckets: ["a", "b"], rootDir, prefix: "reports/"});
+    // the options are checked again by sync and the SNS server
+    const mappingOptions = getMappingOptions(checkAndCopyCommonOptionsWithDefaults(opts));
+    expect(mappingOptions.map(mapping => [mapping.bucket, mapping.prefix, mapping.rootDir])).toEqual([
+      ["a", "reports/", path.resolve(rootDir, "a")],
+      ["b", "reports/", path.resolve(rootDir, "b")]
+    ]);
+    // the prefix is only removed once
+    expect(applyTransformersToKey("reports/reports/1.txt", mappingOptions[0].s3KeyTransformers))
+      .toEqual(path.join("reports", "1.txt"));
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({buckets: ["a"], mappings: [{bucket: "b", rootDir}]})
+    }).toThrow("'buckets' cannot be provided with 'mappings'.");
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({mappings: [{rootDir}]})
+    }).toThrow("'bucket' must be provided in options or in each mapping.");
+
+    expect(() => {
+      checkAndCopyCommonOptionsWithDefaults({
+                                              mappings: [
+                                                {bucket: "a", rootDir: path.join(rootDir, "a")},
+                                                {bucket: "b", rootDir}
+                                              ]
+                                            })
+    }).toThrow("The rootDir of the mappings for 's3://a/' ");
+  });
+
 });
 
 
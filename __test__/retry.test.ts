@@ -0,0 +1,52 @@
+import AsyncOpQueue from "../src/AsyncOpQueue";
+import { computeRetryDelay, retryWithBackoff, RetryPolicy } from "../src/retry";
+
+const policy: RetryPolicy = {maxAttempts: 3, baseDelay: 5, maxDelay: 15, jitter: 0};
+
+function createFailingTask(failures: any[]) {
+  let attempts = 0;
+  const task = () => {
+    const failure = failures[attempts++];
+    return failure ? Promise.reject(failure) : Promise.resolve(attempts);
+  };
+  return {task, getAttempts: () => attempts};
+}
+
+test("Ensure the delay is doubled for each attempt, capped and jittered.", () => {
+  expect(computeRetryDelay(policy, 1)).toEqual(5);
+  expect(computeRetryDelay(policy, 2)).toEqual(10);
+  expect(computeRetryDelay(policy, 3)).toEqual(15);
+  expect(computeRetryDelay(policy, 10)).toEqual(15);
+  // half of the delay is randomized
+  expect(computeRetryDelay({...policy, jitter: 0.5}, 2, 1)).toEqual(5);
+  expect(computeRetryDelay({...policy, jitter: 0.5}, 2, 0)).toEqual(10);
+});
+
+test("Ensure retryable errors are retried until the operation succeeds.", async () => {
+  const {task, getAttempts} = createFailingTask([{name: "SlowDown"}, {code: "ECONNRESET"}]);
+  expect(await retryWithBackoff(task, policy, "key")).toEqual(3);
+  expect(getAttempts()).toEqual(3);
+});
+
+test("Ensure the operation is not retried after the maximum attempts or a non-retryable error.", async () => {
+  const slowDown = {name: "SlowDown"};
+  const exhausted = createFailingTask([slowDown, slowDown, slowDown, slowDown]);
+  await expect(retryWithBackoff(exhausted.task, policy, "key")).rejects.toBe(slowDown);
+  expect(exhausted.getAttempts()).toEqual(3);
+
+  const accessDenied = {name: "AccessDenied"};
+  const notRetryable = createFailingTask([accessDenied]);
+  await expect(retryWithBackoff(notRetryable.task, policy, "key")).rejects.toBe(accessDenied);
+  expect(notRetryable.getAttempts()).toEqual(1);
+});
+
+test("Ensure the queue retries its promise based tasks with its retry policy.", async () => {
+  const queue = new AsyncOpQueue({defaultTaskRunTimeoutMillis: undefined, retryPolicy: policy});
+  try {
+    const {task, getAttempts} = createFailingTask([{code: "EBUSY"}]);
+    expect(await queue.submitPromiseTask("key1", task)).toEqual(2);
+    expect(getAttempts()).toEqual(2);
+  } finally {
+    queue.stop(true);
+  }
+});
@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { ListObjectsV2Command } from "@aws-sdk/client-s3";
+import { OnceExitCode, run, runOnce } from "../src/run";
+import { registerShutdownHook, removeShutdownHook } from "../src/shutdown";
+
+jest.mock("../src/shutdown");
+
+const bucket = "TestBuck";
+
+// the real file system is used, in a directory that is removed after each test
+let rootDir: string;
+
+beforeEach(() => {
+  rootDir = fs.mkdtempSync(path.join(os.tmpdir(), "run-"));
+});
+
+afterEach(() => {
+  fs.rmdirSync(rootDir, {recursive: true});
+});
+
+/**
+ * Lists the keys and fails the retrieval of each object with the error.
+ */
+function createS3Client(Keys: string[], getObjectError: any, listError?: any): any {
+  return {
+    send: (command: any) => {
+      if (command instanceof ListObjectsV2Command) {
+        return listError ? Promise.reject(listError) : Promise.resolve({Contents: Keys.map(Key => ({Key}))});
+      }
+      return Promise.reject(getObjectError);
+    }
+  };
+}
+
+describe("Test one-shot exit codes.", () => {
+
+  test("Ensure success when there is nothing to synchronize.", async () => {
+    const exitCode = await runOnce({rootDir, bucket, s3Client: createS3Client([], undefined)});
+    expect(exitCode).toEqual(OnceExitCode.SUCCESS);
+  });
+
+  test("Ensure a partial failure when some operations fail.", async () => {
+    const s3Client = createS3Client(["dir/", "a.txt"], {name: "InternalError", $metadata: {httpStatusCode: 500}});
+    const exitCode = await runOnce({rootDir, bucket, s3Client, retryMaxAttempts: 1});
+    expect(exitCode).toEqual(OnceExitCode.PARTIAL_FAILURE);
+    // the directory was still created
+    expect(fs.existsSync(path.join(rootDir, "dir"))).toBeTruthy();
+  });
+
+  test("Ensure access errors are distinguished.", async () => {
+    const accessDenied = {name: "AccessDenied", $metadata: {httpStatusCode: 403}};
+    expect(await runOnce({rootDir, bucket, s3Client: createS3Client([], undefined, accessDenied)}))
+      .toEqual(OnceExitCode.ACCESS_ERROR);
+    // every operation was denied
+    expect(await runOnce({rootDir, bucket, s3Client: createS3Client(["a.txt"], accessDenied)}))
+      .toEqual(OnceExitCode.ACCESS_ERROR);
+  });
+
+  test("Ensure invalid options are configuration errors.", async () => {
+    expect(await runOnce({bucket})).toEqual(OnceExitCode.CONFIGURATION_ERROR);
+    expect(await runOnce({rootDir, bucket, partSize: -1})).toEqual(OnceExitCode.CONFIGURATION_ERROR);
+    expect(await runOnce({rootDir, bucket, logFormat: "xml" as any})).toEqual(OnceExitCode.CONFIGURATION_ERROR);
+  });
+
+});
+
+describe("Test plan-only exit.", () => {
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test("Ensure a plan-only one-shot succeeds without downloading anything.", async () => {
+    const plans: any[] = [];
+    const exitCode = await runOnce({rootDir, bucket, s3Client: createS3Client(["a.txt"], new Error("Not expected.")),
+                                     dryRun: true, syncPlanListener: plan => plans.push(plan)});
+    expect(exitCode).toEqual(OnceExitCode.SUCCESS);
+    expect(plans.length).toEqual(1);
+    expect(fs.readdirSync(rootDir)).toEqual([]);
+    // the program exits with the exit code rather than through the shutdown hooks
+    expect(removeShutdownHook).toHaveBeenCalledWith((registerShutdownHook as jest.Mock).mock.calls[0][0]);
+  });
+
+  test("Ensure the mirrored files that have the temporary suffix are compared.", async () => {
+    fs.writeFileSync(path.join(rootDir, "x.v2.tmp"), "");
+    fs.writeFileSync(path.join(rootDir, "stray.v2.tmp"), "");
+    const plans: any[] = [];
+    const exitCode = await runOnce({rootDir, bucket, s3Client: createS3Client(["x.v2.tmp"], undefined),
+                                     remove: true, dryRun: true, syncPlanListener: plan => plans.push(plan)});
+    expect(exitCode).toEqual(OnceExitCode.SUCCESS);
+    const actions = plans[0].map((action: any) => [action.type, action.reason, action.relativePath]);
+    // compared with the local file rather than missing locally (the listing has no size to compare)
+    expect(actions).toContainEqual(["update", "sizeMismatch", "x.v2.tmp"]);
+    // the file that is not in the bucket is removed
+    expect(actions).toContainEqual(["unlink", "notInBucket", "stray.v2.tmp"]);
+    expect(actions.length).toEqual(2);
+  });
+
+  test("Ensure a plan-only run does not register a shutdown hook.", async () => {
+    const plans: any[] = [];
+    const stop = await run({rootDir, bucket, s3Client: createS3Client(["a.txt"], new Error("Not expected.")),
+                            dryRun: true, syncPlanListener: plan => plans.push(plan)});
+    await stop();
+    expect(plans.length).toEqual(1);
+    // otherwise the program would exit with 1 once it has nothing left to do
+    expect(registerShutdownHook).not.toHaveBeenCalled();
+  });
+
+});
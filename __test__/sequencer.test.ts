@@ -0,0 +1,86 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import SequencerTracker, { compareSequencers } from "../src/sequencer";
+
+const bucket = "TestBuck";
+
+// the real file system is used, in a directory that is removed after each test
+let stateDir: string;
+
+beforeEach(() => {
+  stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "sequencer-"));
+});
+
+afterEach(() => {
+  fs.rmdirSync(stateDir, {recursive: true});
+});
+
+test("Ensure sequencers are compared as padded hexadecimal strings.", () => {
+  expect(compareSequencers("0055AED6DCD90281E5", "0055AED6DCD90281E6")).toBeLessThan(0);
+  expect(compareSequencers("0055AED6DCD90281E6", "0055aed6dcd90281e5")).toBeGreaterThan(0);
+  expect(compareSequencers("0055AED6DCD90281E5", "0055aed6dcd90281e5")).toEqual(0);
+  // the shorter is right-padded with zeros
+  expect(compareSequencers("0055AED6DCD90281E5", "0055AED6DCD90281E500")).toEqual(0);
+  expect(compareSequencers("0055AED6DCD90281E6", "0055AED6DCD90281E501")).toBeGreaterThan(0);
+});
+
+test("Ensure stale events are detected.", () => {
+  const tracker = new SequencerTracker();
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E5")).toBeFalsy();
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E5");
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E4")).toBeTruthy();
+  // redelivered
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E5")).toBeFalsy();
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E6")).toBeFalsy();
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E6");
+  // an earlier event that completed after a later one is not recorded
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E5");
+  expect(tracker.get(bucket, "1.txt")).toEqual("0055AED6DCD90281E6");
+  // each bucket and key has its own sequencer
+  expect(tracker.isStale(bucket, "2.txt", "0055AED6DCD90281E4")).toBeFalsy();
+  expect(tracker.isStale("OtherBuck", "1.txt", "0055AED6DCD90281E4")).toBeFalsy();
+});
+
+test("Ensure events that occurred before an event that is being applied are stale.", () => {
+  const tracker = new SequencerTracker();
+  tracker.started(bucket, "1.txt", "0055AED6DCD90281E6");
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E5")).toBeTruthy();
+  // redelivered
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E6")).toBeFalsy();
+  // not applied, so no longer compared
+  tracker.failed(bucket, "1.txt", "0055AED6DCD90281E6");
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E5")).toBeFalsy();
+  expect(tracker.get(bucket, "1.txt")).toBeUndefined();
+
+  tracker.started(bucket, "1.txt", "0055AED6DCD90281E6");
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E6");
+  expect(tracker.get(bucket, "1.txt")).toEqual("0055AED6DCD90281E6");
+  expect(tracker.isStale(bucket, "1.txt", "0055AED6DCD90281E5")).toBeTruthy();
+});
+
+test("Ensure the sequencers of the least recently applied keys are forgotten.", () => {
+  const tracker = new SequencerTracker({maxSize: 2});
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E5");
+  tracker.applied(bucket, "2.txt", "0055AED6DCD90281E5");
+  // 1.txt becomes the most recently applied
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E6");
+  tracker.applied(bucket, "3.txt", "0055AED6DCD90281E5");
+  expect(tracker.get(bucket, "1.txt")).toEqual("0055AED6DCD90281E6");
+  expect(tracker.get(bucket, "2.txt")).toBeUndefined();
+  expect(tracker.get(bucket, "3.txt")).toEqual("0055AED6DCD90281E5");
+});
+
+test("Ensure the sequencers are persisted and read by a new tracker.", async () => {
+  const tracker = new SequencerTracker({stateDir});
+  tracker.applied(bucket, "1.txt", "0055AED6DCD90281E5");
+  tracker.applied(bucket, "2.txt", "0055AED6DCD90281E5");
+  await tracker.flush();
+  expect(new SequencerTracker({stateDir}).isStale(bucket, "1.txt", "0055AED6DCD90281E4")).toBeTruthy();
+  // only the most recently applied are read when the maxSize is lower
+  const smaller = new SequencerTracker({stateDir, maxSize: 1});
+  expect(smaller.get(bucket, "1.txt")).toBeUndefined();
+  expect(smaller.get(bucket, "2.txt")).toEqual("0055AED6DCD90281E5");
+  // not persisted without a state directory
+  expect(new SequencerTracker().get(bucket, "1.txt")).toBeUndefined();
+});
@@ -599,6 +599,456 @@ describe("SNS http server tests.", () => {
     await stopSnsServer();
   });
 
+  test("Ensure notifications are acknowledged after they are handled.", async () => {
+    const {startSnsServer} = require('../src/snsServer');
+    let handlers: { resolve: () => void, reject: (err: any) => void }[] = [];
+    stopSnsServer = startSnsServer({
+                                     rootDir,
+                                     bucket,
+                                     port: 8080,
+                                     ackAfterCompletion: true,
+                                     ackTimeout: 200,
+                                     snsNotificationListener: () => new Promise<void>((resolve, reject) => {
+                                       handlers.push({resolve, reject});
+                                     })
+                                   });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    const statusCodes: number[] = [];
+    let MessageId = 1234;
+    const sendNotification = () => {
+      const req = http.request({port: 8080, host: "0.0.0.0", method: "POST"}, res => {
+        statusCodes.push(res.statusCode as number);
+        res.resume();
+      });
+      req.write(JSON.stringify({
+                                 Type: "Notification",
+                                 MessageId: String(MessageId++),
+                                 TopicArn: "whatever",
+                                 Message: JSON.stringify({Records: []})
+                               }));
+      req.end();
+    };
+
+    sendNotification();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(handlers.length).toEqual(1);
+    // not responded to until handled
+    expect(statusCodes).toEqual([]);
+    handlers[0].resolve();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(statusCodes).toEqual([200]);
+
+    sendNotification();
+    await new Promise(resolve => setTimeout(resolve, 50));
+    handlers[1].reject(new Error("Failed to write."));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(statusCodes).toEqual([200, 500]);
+
+    // never handled, so responds with an error once the timeout elapses
+    sendNotification();
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(statusCodes).toEqual([200, 500]);
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(statusCodes).toEqual([200, 500, 500]);
+
+    await stopSnsServer();
+  });
+
+  test("Ensure redelivered notifications are not handled again.", async () => {
+    const {EventEmitter} = require("events");
+    const {createDefaultRequestListener} = require('../src/snsServer');
+    const MessageDeduplicator = require('../src/cache/MessageDeduplicator').default;
+    const deduplicator = new MessageDeduplicator();
+    const listener = jest.fn((notification: any) => (
+      notification.body.MessageId === "failing" ? Promise.reject(new Error("Failed to write.")) : Promise.resolve()
+    ));
+    const requestListener = createDefaultRequestListener({}, listener, true, true, 100, undefined, deduplicator);
+    const sendNotification = async (body: any, headers: any = {}) => {
+      const req: any = new EventEmitter();
+      req.headers = headers;
+      const resp: any = {end: jest.fn()};
+      requestListener(req, resp);
+      req.emit("data", Buffer.from(JSON.stringify({
+                                                    Type: "Notification",
+                                                    Message: JSON.stringify({Records: []}),
+                                                    ...body
+                                                  })));
+      req.emit("end");
+      await new Promise(resolve => setTimeout(resolve, 20));
+      return resp.statusCode;
+    };
+
+    expect(await sendNotification({MessageId: "1"})).toEqual(200);
+    expect(await sendNotification({MessageId: "1"})).toEqual(200);
+    // the header is used when the body does not have the MessageId
+    expect(await sendNotification({}, {"x-amz-sns-message-id": "1"})).toEqual(200);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(deduplicator.suppressedCount).toEqual(2);
+
+    // a failed notification is handled when it is redelivered
+    expect(await sendNotification({MessageId: "failing"})).toEqual(500);
+    expect(await sendNotification({MessageId: "failing"})).toEqual(500);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+
+  test("Ensure a notification redelivered while it is handled is responded to with its outcome.", async () => {
+    const {EventEmitter} = require("events");
+    const {createDefaultRequestListener} = require('../src/snsServer');
+    const MessageDeduplicator = require('../src/cache/MessageDeduplicator').default;
+    const deduplicator = new MessageDeduplicator();
+    let rejectHandling: (err: any) => void = () => {};
+    const listener = jest.fn(() => new Promise<void>((resolve, reject) => {
+      rejectHandling = reject;
+    }));
+    const requestListener = createDefaultRequestListener({}, listener, true, true, 1000, undefined, deduplicator);
+    const sendNotification = () => {
+      const req: any = new EventEmitter();
+      req.headers = {};
+      const resp: any = {end: jest.fn()};
+      requestListener(req, resp);
+      req.emit("data", Buffer.from(JSON.stringify({
+                                                    Type: "Notification",
+                                                    MessageId: "1",
+                                                    Message: JSON.stringify({Records: []})
+                                                  })));
+      req.emit("end");
+      return resp;
+    };
+
+    const original = sendNotification();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const duplicate = sendNotification();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    // neither is responded to until the notification is handled
+    expect(original.end).not.toHaveBeenCalled();
+    expect(duplicate.end).not.toHaveBeenCalled();
+
+    rejectHandling(new Error("Failed to write."));
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect([original.statusCode, duplicate.statusCode]).toEqual([500, 500]);
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    // handled again when redelivered
+    sendNotification();
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(listener).toHaveBeenCalledTimes(2);
+    rejectHandling(new Error("Failed to write."));
+  });
+
+  test("Ensure events for versions that were already written are skipped.", () => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        writeS3Object: jest.fn(),
+        unlinkFile: jest.fn()
+      }
+    ));
+    const {writeS3Object} = require('../src/filesystemOps') as any;
+    const {createDefaultSnsNotificationListener} = require("../src/snsServer");
+    const FileCache = require("../src/cache/FileCache").default;
+    const path = require("path");
+    const fileCache = new FileCache({maxSize: 10});
+    fileCache.addFile(path.resolve(rootDir, "1.txt"), "etag1", {size: 3, mtime: new Date()});
+    const listener = createDefaultSnsNotificationListener({bucket, rootDir, fileCache} as any);
+    const createRecord = (eTag: string) => ({
+      "eventVersion": "2.2",
+      "eventSource": "aws:s3",
+      "awsRegion": "us-east-1",
+      "eventTime": new Date().toString(),
+      "eventName": "ObjectCreated:Put",
+      "s3": {
+        "s3SchemaVersion": "1.0",
+        "configurationId": "whatever",
+        "bucket": {
+          "name": bucket,
+          "ownerIdentity": {
+            "principalId": "a1234567890"
+          },
+          "arn": "bucket-arn"
+        },
+        "object": {
+          "key": "1.txt",
+          "size": 3,
+          "eTag": eTag
+        }
+      }
+    });
+    listener({body: {Type: "Notification", Message: {Records: [createRecord("etag1"), createRecord("etag2")]}}} as any);
+    expect(writeS3Object).toHaveBeenCalledTimes(1);
+    expect(writeS3Object.mock.calls[0][0].ETag).toEqual("etag2");
+  });
+
+  test("Ensure events for filtered keys are skipped.", () => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        writeS3Object: jest.fn(),
+        unlinkFile: jest.fn()
+      }
+    ));
+    const {writeS3Object, unlinkFile} = require('../src/filesystemOps') as any;
+    const {createDefaultSnsNotificationListener} = require("../src/snsServer");
+    const {createKeyFilter} = require("../src/utils/keyFilter");
+    const keyFilter = createKeyFilter({include: ["**/*.txt"], exclude: ["tmp/**"]});
+    const listener = createDefaultSnsNotificationListener({bucket, rootDir, keyFilter} as any);
+    const createRecord = (eventName: string, key: string) => ({
+      "eventVersion": "2.2",
+      "eventSource": "aws:s3",
+      "awsRegion": "us-east-1",
+      "eventTime": new Date().toString(),
+      "eventName": eventName,
+      "s3": {
+        "s3SchemaVersion": "1.0",
+        "configurationId": "whatever",
+        "bucket": {
+          "name": bucket,
+          "ownerIdentity": {
+            "principalId": "a1234567890"
+          },
+          "arn": "bucket-arn"
+        },
+        "object": {
+          "key": key,
+          "size": 3,
+          "eTag": "etag"
+        }
+      }
+    });
+    listener({
+               body: {
+                 Type: "Notification",
+                 Message: {
+                   Records: [
+                     createRecord("ObjectCreated:Put", "1.txt"),
+                     createRecord("ObjectCreated:Put", "1.csv"),
+                     createRecord("ObjectCreated:Put", "tmp/1.txt"),
+                     createRecord("ObjectRemoved:Delete", "2.txt"),
+                     createRecord("ObjectRemoved:Delete", "tmp/2.txt")
+                   ]
+                 }
+               }
+             } as any);
+    expect(writeS3Object).toHaveBeenCalledTimes(1);
+    expect(writeS3Object.mock.calls[0][0].Key).toEqual("1.txt");
+    expect(unlinkFile).toHaveBeenCalledTimes(1);
+    expect(unlinkFile.mock.calls[0][0].relativeFilePath).toEqual("2.txt");
+  });
+
+  test("Ensure events that are older than the applied event of the key are skipped.", async () => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        writeS3Object: jest.fn(() => Promise.resolve()),
+        unlinkFile: jest.fn(() => Promise.resolve())
+      }
+    ));
+    const {writeS3Object, unlinkFile} = require('../src/filesystemOps') as any;
+    const {createDefaultSnsNotificationListener} = require("../src/snsServer");
+    const SequencerTracker = require("../src/sequencer").default;
+    const listener = createDefaultSnsNotificationListener({
+                                                            bucket,
+                                                            rootDir,
+                                                            sequencerTracker: new SequencerTracker()
+                                                          } as any);
+    const createRecord = (eventName: string, key: string, sequencer: string) => ({
+      "eventVersion": "2.2",
+      "eventSource": "aws:s3",
+      "awsRegion": "us-east-1",
+      "eventTime": new Date().toString(),
+      "eventName": eventName,
+      "s3": {
+        "s3SchemaVersion": "1.0",
+        "configurationId": "whatever",
+        "bucket": {
+          "name": bucket,
+          "ownerIdentity": {
+            "principalId": "a1234567890"
+          },
+          "arn": "bucket-arn"
+        },
+        "object": {
+          "key": key,
+          "size": 3,
+          "eTag": "etag",
+          "sequencer": sequencer
+        }
+      }
+    });
+    const notify = (record: any) => listener({body: {Type: "Notification", Message: {Records: [record]}}} as any);
+    await notify(createRecord("ObjectCreated:Put", "1.txt", "0055AED6DCD90281E6"));
+    // removed before it was created again
+    await notify(createRecord("ObjectRemoved:Delete", "1.txt", "0055AED6DCD90281E5"));
+    // the sequencers of other keys are not compared
+    await notify(createRecord("ObjectRemoved:Delete", "2.txt", "0055AED6DCD90281E4"));
+    // redelivered
+    await notify(createRecord("ObjectCreated:Put", "1.txt", "0055AED6DCD90281E6"));
+    await notify(createRecord("ObjectRemoved:Delete", "1.txt", "0055AED6DCD90281E7"));
+    expect(writeS3Object).toHaveBeenCalledTimes(2);
+    expect(unlinkFile).toHaveBeenCalledTimes(2);
+    expect(unlinkFile.mock.calls[0][0].relativeFilePath).toEqual("2.txt");
+    expect(unlinkFile.mock.calls[1][0].relativeFilePath).toEqual("1.txt");
+
+    // a failed event is not applied, so the events that occurred before it are not stale
+    writeS3Object.mockImplementationOnce(() => Promise.reject(new Error("Failed to write.")));
+    await expect(notify(createRecord("ObjectCreated:Put", "3.txt", "0055AED6DCD90281E6"))).rejects.toBeTruthy();
+    await notify(createRecord("ObjectCreated:Put", "3.txt", "0055AED6DCD90281E5"));
+    expect(writeS3Object).toHaveBeenCalledTimes(4);
+
+    // an event that occurred before the one that is being applied is stale in the meantime
+    let completeWrite: () => void = () => {};
+    writeS3Object.mockImplementationOnce(() => new Promise<void>(resolve => {
+      completeWrite = resolve;
+    }));
+    const applying = notify(createRecord("ObjectCreated:Put", "4.txt", "0055AED6DCD90281E6"));
+    await notify(createRecord("ObjectRemoved:Delete", "4.txt", "0055AED6DCD90281E5"));
+    completeWrite();
+    await applying;
+    expect(writeS3Object).toHaveBeenCalledTimes(5);
+    expect(unlinkFile).toHaveBeenCalledTimes(2);
+  });
+
+  test("Ensure events are routed to the mappings whose prefix matches.", () => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        writeS3Object: jest.fn(),
+        unlinkFile: jest.fn()
+      }
+    ));
+    const {writeS3Object, unlinkFile} = require('../src/filesystemOps') as any;
+    const {createDefaultSnsNotificationListener} = require("../src/snsServer");
+    const {checkAndCopyCommonOptionsWithDefaults} = require("../src/options");
+    const path = require("path");
+    const options = checkAndCopyCommonOptionsWithDefaults({
+                                                            bucket,
+                                                            s3Client: {},
+                                                            queue: {},
+                                                            mappings: [
+                                                              {prefix: "reports/", rootDir: path.join(rootDir, "reports")},
+                                                              {
+                                                                prefix: "assets/img/",
+                                                                rootDir: path.join(rootDir, "img"),
+                                                                tmpDir: path.join(rootDir, "imgTmp"),
+                                                                remove: true
+                                                              }
+                                                            ]
+                                                          });
+    const listener = createDefaultSnsNotificationListener(options);
+    const createRecord = (eventName: string, key: string) => ({
+      "eventVersion": "2.2",
+      "eventSource": "aws:s3",
+      "awsRegion": "us-east-1",
+      "eventTime": new Date().toString(),
+      "eventName": eventName,
+      "s3": {
+        "s3SchemaVersion": "1.0",
+        "configurationId": "whatever",
+        "bucket": {
+          "name": bucket,
+          "ownerIdentity": {
+            "principalId": "a1234567890"
+          },
+          "arn": "bucket-arn"
+        },
+        "object": {
+          "key": key,
+          "size": 3,
+          "eTag": "etag"
+        }
+      }
+    });
+    listener({
+               body: {
+                 Type: "Notification",
+                 Message: {
+                   Records: [
+                     createRecord("ObjectCreated:Put", "reports/2020/a.pdf"),
+                     createRecord("ObjectCreated:Put", "assets/img/b.png"),
+                     createRecord("ObjectCreated:Put", "assets/css/c.css"),
+                     createRecord("ObjectCreated:Put", "reports/"),
+                     createRecord("ObjectRemoved:Delete", "assets/img/d.png")
+                   ]
+                 }
+               }
+             } as any);
+    expect(writeS3Object).toHaveBeenCalledTimes(2);
+    expect(writeS3Object.mock.calls[0][0]).toMatchObject({
+                                                           Key: "reports/2020/a.pdf",
+                                                           transformedKey: path.join("2020", "a.pdf"),
+                                                           rootDir: path.resolve(rootDir, "reports"),
+                                                           tmpDir: undefined
+                                                         });
+    expect(writeS3Object.mock.calls[1][0]).toMatchObject({
+                                                           Key: "assets/img/b.png",
+                                                           transformedKey: "b.png",
+                                                           rootDir: path.resolve(rootDir, "img"),
+                                                           tmpDir: path.join(rootDir, "imgTmp")
+                                                         });
+    expect(unlinkFile).toHaveBeenCalledTimes(1);
+    expect(unlinkFile.mock.calls[0][0]).toMatchObject({
+                                                        relativeFilePath: "d.png",
+                                                        rootDir: path.resolve(rootDir, "img"),
+                                                        remove: true
+                                                      });
+  });
+
+  test("Ensure events of multiple buckets are routed to their mappings.", () => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        writeS3Object: jest.fn(),
+        unlinkFile: jest.fn()
+      }
+    ));
+    const {writeS3Object} = require('../src/filesystemOps') as any;
+    const {createDefaultSnsNotificationListener} = require("../src/snsServer");
+    const {checkAndCopyCommonOptionsWithDefaults} = require("../src/options");
+    const path = require("path");
+    const options = checkAndCopyCommonOptionsWithDefaults({
+                                                            buckets: ["bucket-a", "bucket-b"],
+                                                            rootDir,
+                                                            s3Client: {},
+                                                            queue: {}
+                                                          });
+    const listener = createDefaultSnsNotificationListener(options);
+    const createRecord = (bucketName: string, key: string) => ({
+      "eventVersion": "2.2",
+      "eventSource": "aws:s3",
+      "awsRegion": "us-east-1",
+      "eventTime": new Date().toString(),
+      "eventName": "ObjectCreated:Put",
+      "s3": {
+        "s3SchemaVersion": "1.0",
+        "configurationId": "whatever",
+        "bucket": {
+          "name": bucketName,
+          "ownerIdentity": {
+            "principalId": "a1234567890"
+          },
+          "arn": "bucket-arn"
+        },
+        "object": {
+          "key": key,
+          "size": 3,
+          "eTag": "etag"
+        }
+      }
+    });
+    listener({
+               body: {
+                 Type: "Notification",
+                 Message: {
+                   Records: [
+                     createRecord("bucket-a", "1.txt"),
+                     createRecord("bucket-b", "1.txt"),
+                     createRecord("bucket-c", "1.txt")
+                   ]
+                 }
+               }
+             } as any);
+    expect(writeS3Object).toHaveBeenCalledTimes(2);
+    expect(writeS3Object.mock.calls.map((call: any[]) => [call[0].Bucket, call[0].rootDir])).toEqual([
+      ["bucket-a", path.resolve(rootDir, "bucket-a")],
+      ["bucket-b", path.resolve(rootDir, "bucket-b")]
+    ]);
+  });
+
   test("Check failure on unsupported event version.", async () => {
     const {
       createDefaultSnsNotificationListener
@@ -0,0 +1,183 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DeleteMessageCommand, ReceiveMessageCommand } from "@aws-sdk/client-sqs";
+import { parseSqsMessage, startSqsPoller } from "../src/sqsPoller";
+
+const bucket = "TestBuck";
+const sqsQueueUrl = "https://sqs.us-east-1.amazonaws.com/123456789012/test-queue";
+
+const s3Event = {
+  Records: [
+    {
+      eventVersion: "2.2",
+      eventSource: "aws:s3",
+      awsRegion: "us-east-1",
+      eventTime: "2021-01-01T00:00:00.000Z",
+      eventName: "ObjectCreated:Put",
+      s3: {
+        s3SchemaVersion: "1.0",
+        configurationId: "whatever",
+        bucket: {name: bucket, ownerIdentity: {principalId: "a1234567890"}, arn: "bucket-arn"},
+        object: {key: "1.txt", size: 3, eTag: "etag"}
+      }
+    }
+  ]
+};
+
+const snsEnvelopeMessage = {
+  MessageId: "sqs-1",
+  ReceiptHandle: "receipt-1",
+  Body: JSON.stringify({
+                         Type: "Notification",
+                         MessageId: "sns-1",
+                         TopicArn: "arn:aws:sns:us-east-1:123456789012:s3-topic",
+                         Message: JSON.stringify(s3Event)
+                       })
+};
+
+const rawEventMessage = {MessageId: "sqs-2", ReceiptHandle: "receipt-2", Body: JSON.stringify(s3Event)};
+
+const testEventMessage = {
+  MessageId: "sqs-3",
+  ReceiptHandle: "receipt-3",
+  Body: JSON.stringify({Service: "Amazon S3", Event: "s3:TestEvent", Bucket: bucket})
+};
+
+describe("Test parseSqsMessage().", () => {
+
+  test("Ensure the SNS envelope and raw S3 events are parsed.", () => {
+    const fromEnvelope = parseSqsMessage(snsEnvelopeMessage)!;
+    expect(fromEnvelope.body.MessageId).toEqual("sns-1");
+    expect(fromEnvelope.body.Message).toEqual(s3Event);
+    expect(fromEnvelope.headers["x-amz-sns-message-id"]).toEqual("sns-1");
+
+    const fromRawEvent = parseSqsMessage(rawEventMessage)!;
+    expect(fromRawEvent.body.MessageId).toEqual("sqs-2");
+    expect(fromRawEvent.body.Message).toEqual(s3Event);
+  });
+
+  test("Ensure other messages are not parsed.", () => {
+    expect(parseSqsMessage(testEventMessage)).toBeUndefined();
+    expect(parseSqsMessage({Body: JSON.stringify({Type: "Notification", Message: "not an S3 event"})}))
+      .toBeUndefined();
+    expect(() => parseSqsMessage({Body: "{"})).toThrow();
+  });
+
+});
+
+describe("Test startSqsPoller().", () => {
+
+  let testDir: string;
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "sqsPoller-"));
+  });
+
+  afterEach(() => {
+    fs.rmdirSync(testDir, {recursive: true});
+  });
+
+  /**
+   * A stand-in for SQS that returns the messages with the first receive request
+   * and no messages afterwards.
+   */
+  function createSqsClient(messages: any[]) {
+    let received = false;
+    return {
+      send: jest.fn((command: any) => {
+        if (command instanceof ReceiveMessageCommand) {
+          if (!received) {
+            received = true;
+            return Promise.resolve({Messages: messages});
+          }
+          return new Promise(resolve => setTimeout(() => resolve({}), 5));
+        }
+        return Promise.resolve({});
+      })
+    };
+  }
+
+  const getDeletedReceiptHandles = (sqsClient: any) => (
+    sqsClient.send.mock.calls
+             .filter((call: any[]) => call[0] instanceof DeleteMessageCommand)
+             .map((call: any[]) => call[0].input.ReceiptHandle)
+  );
+
+  test("Ensure messages are deleted only once they have been handled.", async () => {
+    const sqsClient = createSqsClient([snsEnvelopeMessage, rawEventMessage, testEventMessage]);
+    const handlers: (() => void)[] = [];
+    const snsNotificationListener = jest.fn(() => new Promise<void>(resolve => handlers.push(resolve)));
+    const stop = startSqsPoller({
+                                  bucket,
+                                  rootDir: testDir,
+                                  s3Client: {} as any,
+                                  queue: {} as any,
+                                  sqsClient: sqsClient as any,
+                                  sqsQueueUrl,
+                                  snsNotificationListener
+                                });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(sqsClient.send.mock.calls[0][0].input).toMatchObject({
+                                                                  QueueUrl: sqsQueueUrl,
+                                                                  WaitTimeSeconds: 20,
+                                                                  MaxNumberOfMessages: 10
+                                                                });
+    expect(snsNotificationListener).toHaveBeenCalledTimes(2);
+    // the test event is not an S3 event notification, so it is deleted without being handled
+    expect(getDeletedReceiptHandles(sqsClient)).toEqual(["receipt-3"]);
+
+    handlers[1]();
+    await new Promise(resolve => setTimeout(resolve, 1));
+    expect(getDeletedReceiptHandles(sqsClient)).toEqual(["receipt-3", "receipt-2"]);
+
+    handlers[0]();
+    await new Promise(resolve => setTimeout(resolve, 1));
+    expect(getDeletedReceiptHandles(sqsClient)).toEqual(["receipt-3", "receipt-2", "receipt-1"]);
+    await stop();
+  });
+
+  test("Ensure messages that fail are not deleted.", async () => {
+    const sqsClient = createSqsClient([snsEnvelopeMessage, {MessageId: "sqs-4", ReceiptHandle: "receipt-4", Body: "{"}]);
+    const snsNotificationListener = jest.fn(() => Promise.reject(new Error("Failed to write.")));
+    const stop = startSqsPoller({
+                                  bucket,
+                                  rootDir: testDir,
+                                  s3Client: {} as any,
+                                  queue: {} as any,
+                                  sqsClient: sqsClient as any,
+                                  sqsQueueUrl,
+                                  snsNotificationListener
+                                });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(snsNotificationListener).toHaveBeenCalledTimes(1);
+    expect(getDeletedReceiptHandles(sqsClient)).toEqual([]);
+    await stop();
+  });
+
+  test("Ensure no more messages are received than can be in flight.", async () => {
+    const sqsClient = createSqsClient([snsEnvelopeMessage, rawEventMessage]);
+    const handlers: (() => void)[] = [];
+    const snsNotificationListener = jest.fn(() => new Promise<void>(resolve => handlers.push(resolve)));
+    const stop = startSqsPoller({
+                                  bucket,
+                                  rootDir: testDir,
+                                  s3Client: {} as any,
+                                  queue: {} as any,
+                                  sqsClient: sqsClient as any,
+                                  sqsQueueUrl,
+                                  sqsMaxInFlightMessages: 2,
+                                  snsNotificationListener
+                                });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    // waiting for the messages to be handled
+    expect(sqsClient.send).toHaveBeenCalledTimes(1);
+    handlers[0]();
+    await new Promise(resolve => setTimeout(resolve, 1));
+    const receives = sqsClient.send.mock.calls.filter((call: any[]) => call[0] instanceof ReceiveMessageCommand);
+    expect(receives.length).toEqual(2);
+    expect(receives[1][0].input.MaxNumberOfMessages).toEqual(1);
+    await stop();
+  });
+
+});
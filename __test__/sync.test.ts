@@ -196,9 +196,9 @@ describe("Test sync behavior.", () => {
         // getDirectoryEntries: jest.fn(() => {
         //   return Promise.resolve([]);
         // }),
-        writeS3Object: jest.fn(),
-        rmdirRecursive: jest.fn(),
-        unlinkFile: jest.fn()
+        writeS3Object: jest.fn(() => Promise.resolve()),
+        rmdirRecursive: jest.fn(() => Promise.resolve()),
+        unlinkFile: jest.fn(() => Promise.resolve())
       }
     ));
     jest.doMock("../src/utils/s3Utils", () => (
@@ -586,3 +586,477 @@ describe("Test sync behavior.", () => {
   });
 
 });
+
+describe("Test sync plan (dry run).", () => {
+
+  beforeEach(() => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        ...(jest.requireActual('../src/filesystemOps') as any),
+        writeS3Object: jest.fn(() => Promise.resolve()),
+        rmdirRecursive: jest.fn(() => Promise.resolve()),
+        unlinkFile: jest.fn(() => Promise.resolve())
+      }
+    ));
+  });
+
+  test("Ensure dry run reports the planned actions and does not perform them.", async () => {
+    mockedS3Contents = [
+      {
+        Key: "0.txt",
+      },
+      {
+        Key: "1.txt",
+        Size: mockedDirStructure.filesAndDirs!["1.txt"].stats.size + 5,
+        LastModified: mockedDirStructure.filesAndDirs!["1.txt"].stats.mtime,
+      },
+      {
+        Key: "a.txt",
+        Size: mockedDirStructure.filesAndDirs!["a.txt"].stats.size,
+        LastModified: new Date(mockedDirStructure.filesAndDirs!["a.txt"].stats.mtime.getTime() + 1),
+      },
+      {
+        Key: "z.txt",
+        Size: mockedDirStructure.filesAndDirs!["z.txt"].stats.size,
+        LastModified: mockedDirStructure.filesAndDirs!["z.txt"].stats.mtime,
+      }
+    ];
+    const {writeS3Object, unlinkFile, rmdirRecursive} = require('../src/filesystemOps') as any;
+    const sync = require("../src/sync").default;
+    const syncPlanListener = jest.fn();
+    await sync({
+                 rootDir,
+                 bucket,
+                 remove: true,
+                 dryRun: true,
+                 syncPlanListener
+               });
+    expect(writeS3Object).toHaveBeenCalledTimes(0);
+    expect(unlinkFile).toHaveBeenCalledTimes(0);
+    expect(rmdirRecursive).toHaveBeenCalledTimes(0);
+    expect(syncPlanListener).toHaveBeenCalledTimes(1);
+    const plan = syncPlanListener.mock.calls[0][0].map((action: any) => (
+      {type: action.type, reason: action.reason, relativePath: action.relativePath}
+    ));
+    expect(plan).toEqual([
+                           {type: "download", reason: "missingLocally", relativePath: "0.txt"},
+                           {type: "update", reason: "sizeMismatch", relativePath: "1.txt"},
+                           {type: "update", reason: "newerLastModified", relativePath: "a.txt"},
+                           {type: "rmdir", reason: "notInBucket", relativePath: "dir1/"},
+                           {type: "rmdir", reason: "notInBucket", relativePath: "dir2/"},
+                           {type: "unlink", reason: "notInBucket", relativePath: "ñ.txt"},
+                         ]);
+  });
+
+  test("Ensure the manifest's ETag is compared rather than the local file's mtime.", () => {
+    const {createSyncPlan} = require("../src/sync");
+    const mtime = new Date(2020, 1, 1);
+    const stats = {size: 3, mtime};
+    const manifestEntries: any = {
+      "unchanged.txt": {Key: "unchanged.txt", ETag: "etag1", Size: 3},
+      "changed.txt": {Key: "changed.txt", ETag: "etag1", Size: 3}
+    };
+    const manifest = {get: (transformedKey: string) => manifestEntries[transformedKey]};
+    const newer = new Date(mtime.getTime() + 1);
+    const older = new Date(mtime.getTime() - 1);
+    const plan = createSyncPlan(
+      [
+        {Key: "changed.txt", transformedKey: "changed.txt", ETag: "\"etag2\"", Size: 3, LastModified: older},
+        {Key: "notInManifest.txt", transformedKey: "notInManifest.txt", ETag: "\"etag1\"", Size: 3, LastModified: newer},
+        {Key: "unchanged.txt", transformedKey: "unchanged.txt", ETag: "\"etag1\"", Size: 3, LastModified: newer}
+      ],
+      [
+        {relativePath: "changed.txt", stats},
+        {relativePath: "notInManifest.txt", stats},
+        {relativePath: "unchanged.txt", stats}
+      ],
+      {manifest}
+    );
+    expect(plan.map((action: any) => ({reason: action.reason, relativePath: action.relativePath}))).toEqual([
+      {reason: "etagChanged", relativePath: "changed.txt"},
+      {reason: "newerLastModified", relativePath: "notInManifest.txt"}
+    ]);
+  });
+
+  test("Ensure preserved mtimes are compared in whole seconds and any difference is an update.", () => {
+    const {createSyncPlan} = require("../src/sync");
+    const mtime = new Date(2020, 1, 1);
+    const stats = {size: 3, mtime};
+    const s3ListObj = (Key: string, LastModified: Date) => ({Key, transformedKey: Key, Size: 3, LastModified});
+    const plan = createSyncPlan(
+      [
+        s3ListObj("newer.txt", new Date(mtime.getTime() + 1000)),
+        s3ListObj("older.txt", new Date(mtime.getTime() - 1000)),
+        s3ListObj("same.txt", new Date(mtime.getTime() + 1))
+      ],
+      [
+        {relativePath: "newer.txt", stats},
+        {relativePath: "older.txt", stats},
+        {relativePath: "same.txt", stats}
+      ],
+      {preserveLastModified: true}
+    );
+    expect(plan.map((action: any) => action.relativePath)).toEqual(["newer.txt", "older.txt"]);
+  });
+
+  test("Ensure excluded local entries are never removed.", () => {
+    const {createSyncPlan} = require("../src/sync");
+    const {createKeyFilter} = require("../src/utils/keyFilter");
+    const stats = {size: 3, mtime: new Date(2020, 1, 1)};
+    const plan = createSyncPlan(
+      [],
+      [
+        {relativePath: "a.tmp", stats},
+        {relativePath: "b.txt", stats},
+        {relativePath: "dir1/", stats},
+        {relativePath: "dir1/a.tmp", stats},
+        {relativePath: "dir1/b.txt", stats},
+        {relativePath: "dir2/", stats},
+        {relativePath: "dir2/b.txt", stats}
+      ],
+      {remove: true, keyFilter: createKeyFilter({exclude: ["**/*.tmp"]})}
+    );
+    expect(plan.map((action: any) => ({type: action.type, relativePath: action.relativePath}))).toEqual([
+      {type: "unlink", relativePath: "b.txt"},
+      {type: "unlink", relativePath: "dir1/b.txt"},
+      {type: "rmdir", relativePath: "dir2/"}
+    ]);
+  });
+
+  test("Ensure plan is formatted as JSON.", () => {
+    const {formatSyncPlan} = require("../src/sync");
+    const formatted = JSON.parse(formatSyncPlan([
+                                                  {
+                                                    type: "download",
+                                                    reason: "missingLocally",
+                                                    relativePath: "0.txt",
+                                                    s3ListObj: {Key: "0.txt", transformedKey: "0.txt", Size: 3}
+                                                  },
+                                                  {type: "unlink", reason: "notInBucket", relativePath: "1.txt"}
+                                                ], "json"));
+    expect(formatted.actions).toEqual([
+                                        {type: "download", reason: "missingLocally", relativePath: "0.txt", key: "0.txt", size: 3},
+                                        {type: "unlink", reason: "notInBucket", relativePath: "1.txt"}
+                                      ]);
+    expect(formatted.summary).toEqual({download: 1, update: 0, unlink: 1, rmdir: 0});
+  });
+
+  test("Ensure unrecognized plan format fails.", () => {
+    const {checkAndCopySyncOptionsWithDefaults} = require("../src/sync");
+    expect(() => {
+      checkAndCopySyncOptionsWithDefaults({rootDir, bucket, planFormat: "xml"});
+    }).toThrow(new RegExp("^'planFormat'"));
+  });
+
+});
+
+describe("Test sync removal thresholds.", () => {
+
+  beforeEach(() => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        ...(jest.requireActual('../src/filesystemOps') as any),
+        writeS3Object: jest.fn(() => Promise.resolve()),
+        rmdirRecursive: jest.fn(() => Promise.resolve()),
+        unlinkFile: jest.fn(() => Promise.resolve())
+      }
+    ));
+    // everything in the mocked directory (10 entries) would be removed
+    mockedS3Contents = [
+      {
+        Key: "0.txt",
+      }
+    ];
+  });
+
+  test("Ensure removed directories count all of their entries.", async () => {
+    const {getSyncPlan, countPlannedRemovals} = require("../src/sync");
+    const plan = await getSyncPlan({rootDir, bucket, remove: true});
+    const dir1 = plan.find((action: any) => action.relativePath === "dir1/");
+    // dir1/, dir1/2.txt, dir1/22.txt, dir1/dir1_1/, dir1/dir1_1/aa.txt
+    expect(dir1.removedEntryCount).toEqual(5);
+    expect(countPlannedRemovals(plan)).toEqual(10);
+  });
+
+  test("Ensure removals are skipped when maxDeleteCount is exceeded.", async () => {
+    const {writeS3Object, unlinkFile, rmdirRecursive} = require('../src/filesystemOps') as any;
+    const sync = require("../src/sync").default;
+    await sync({
+                 rootDir,
+                 bucket,
+                 remove: true,
+                 maxDeleteCount: 9
+               });
+    // downloads still go ahead
+    expect(writeS3Object).toHaveBeenCalledTimes(1);
+    expect(unlinkFile).toHaveBeenCalledTimes(0);
+    expect(rmdirRecursive).toHaveBeenCalledTimes(0);
+  });
+
+  test("Ensure removals are skipped when maxDeletePercent is exceeded.", async () => {
+    const {writeS3Object, unlinkFile, rmdirRecursive} = require('../src/filesystemOps') as any;
+    const sync = require("../src/sync").default;
+    await sync({
+                 rootDir,
+                 bucket,
+                 remove: true,
+                 maxDeletePercent: 50,
+                 maxDeleteBlocksDownloads: true
+               });
+    expect(writeS3Object).toHaveBeenCalledTimes(0);
+    expect(unlinkFile).toHaveBeenCalledTimes(0);
+    expect(rmdirRecursive).toHaveBeenCalledTimes(0);
+  });
+
+  test("Ensure removals are performed when within thresholds.", async () => {
+    const {writeS3Object, unlinkFile, rmdirRecursive} = require('../src/filesystemOps') as any;
+    const sync = require("../src/sync").default;
+    await sync({
+                 rootDir,
+                 bucket,
+                 remove: true,
+                 maxDeleteCount: 10,
+                 maxDeletePercent: 100
+               });
+    expect(writeS3Object).toHaveBeenCalledTimes(1);
+    expect(unlinkFile).toHaveBeenCalledTimes(4);
+    expect(rmdirRecursive).toHaveBeenCalledTimes(2);
+  });
+
+  test("Ensure invalid maxDeletePercent fails.", () => {
+    const {checkAndCopySyncOptionsWithDefaults} = require("../src/sync");
+    expect(() => {
+      checkAndCopySyncOptionsWithDefaults({rootDir, bucket, maxDeletePercent: 101});
+    }).toThrow(new RegExp("^'maxDeletePercent'"));
+  });
+
+  test("Ensure invalid maxDeleteCount fails.", () => {
+    const {checkAndCopySyncOptionsWithDefaults} = require("../src/sync");
+    expect(() => {
+      checkAndCopySyncOptionsWithDefaults({rootDir, bucket, maxDeleteCount: -1});
+    }).toThrow(new RegExp("^'maxDeleteCount'"));
+  });
+
+});
+
+describe("Test verify.", () => {
+
+  beforeEach(() => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        ...(jest.requireActual('../src/filesystemOps') as any),
+        writeS3Object: jest.fn(() => Promise.resolve()),
+        rmdirRecursive: jest.fn(() => Promise.resolve()),
+        unlinkFile: jest.fn(() => Promise.resolve())
+      }
+    ));
+    jest.doMock("../src/integrity", () => ({
+      verifyDownloadedObject: jest.fn((opts: any) => {
+        if (opts.Key === "a.txt") {
+          const err = new Error(`Downloaded content of key='a.txt' does not match.`);
+          (err as any).code = "IntegrityMismatch";
+          return Promise.reject(err);
+        }
+        return Promise.resolve();
+      })
+    }));
+    mockedS3Contents = [
+      {
+        Key: "0.txt",
+        Size: 1
+      },
+      {
+        Key: "1.txt",
+        Size: mockedDirStructure.filesAndDirs!["1.txt"].stats.size + 5
+      },
+      {
+        Key: "a.txt",
+        Size: mockedDirStructure.filesAndDirs!["a.txt"].stats.size
+      },
+      {
+        Key: "dir1/22.txt",
+        Size: mockedDirStructure.filesAndDirs!["dir1"].filesAndDirs!["22.txt"].stats.size
+      },
+      {
+        Key: "z.txt",
+        Size: mockedDirStructure.filesAndDirs!["z.txt"].stats.size
+      }
+    ];
+  });
+
+  test("Ensure missing, extra and size mismatched entries are reported without modifying anything.", async () => {
+    const {writeS3Object, unlinkFile, rmdirRecursive} = require('../src/filesystemOps') as any;
+    const {verifyDownloadedObject} = require('../src/integrity') as any;
+    const {verify} = require("../src/sync");
+    const result = await verify({rootDir, bucket, remove: true});
+    expect(writeS3Object).toHaveBeenCalledTimes(0);
+    expect(unlinkFile).toHaveBeenCalledTimes(0);
+    expect(rmdirRecursive).toHaveBeenCalledTimes(0);
+    // content is only compared when requested
+    expect(verifyDownloadedObject).toHaveBeenCalledTimes(0);
+    expect(result.drift.map((drift: any) => ({type: drift.type, relativePath: drift.relativePath}))).toEqual([
+      {type: "missing", relativePath: "0.txt"},
+      {type: "sizeMismatch", relativePath: "1.txt"},
+      // dir1/ is not extra, because dir1/22.txt is in the bucket
+      {type: "extra", relativePath: "dir1/2.txt"},
+      {type: "extra", relativePath: "dir1/dir1_1/"},
+      {type: "extra", relativePath: "dir1/dir1_1/aa.txt"},
+      {type: "extra", relativePath: "dir2/"},
+      {type: "extra", relativePath: "ñ.txt"},
+    ]);
+    expect(result.keyCount).toEqual(5);
+    expect(result.localEntryCount).toEqual(10);
+  });
+
+  test("Ensure content mismatches are reported when hashes are verified.", async () => {
+    const {verifyDownloadedObject} = require('../src/integrity') as any;
+    const {verify, formatVerifyResult} = require("../src/sync");
+    const result = await verify({rootDir, bucket, verifyHashes: true});
+    // only the files with the same size are compared
+    expect(verifyDownloadedObject.mock.calls.map((c: any) => c[0].Key).sort()).toEqual(["a.txt", "dir1/22.txt", "z.txt"]);
+    const hashMismatch = result.drift.filter((drift: any) => drift.type === "hashMismatch");
+    expect(hashMismatch.map((drift: any) => drift.relativePath)).toEqual(["a.txt"]);
+    expect(hashMismatch[0].detail).toMatch(/does not match/);
+    const formatted = JSON.parse(formatVerifyResult(result, "json"));
+    expect(formatted.summary).toEqual({missing: 1, extra: 5, sizeMismatch: 1, hashMismatch: 1});
+  });
+
+  test("Ensure a matching mirror has no drift.", async () => {
+    mockedS3Contents = [];
+    const {findMirrorDrift} = require("../src/sync");
+    const stats = {size: 3};
+    const {drift, matchedFiles} = findMirrorDrift(
+      [{Key: "d/1.txt", transformedKey: "d/1.txt", Size: 3}],
+      [{relativePath: "d/", stats}, {relativePath: "d/1.txt", stats}]
+    );
+    expect(drift).toEqual([]);
+    expect(matchedFiles.map((file: any) => file.relativePath)).toEqual(["d/1.txt"]);
+  });
+
+});
+
+describe("Test sync pass results.", () => {
+
+  beforeEach(() => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        ...(jest.requireActual('../src/filesystemOps') as any),
+        // completes after the comparison, so the pass has to wait for it
+        writeS3Object: jest.fn((options: any) => new Promise<void>((resolve, reject) => {
+          setTimeout(() => options.Key === "a.txt" ? reject({name: "AccessDenied"}) : resolve(), 20);
+        })),
+        rmdirRecursive: jest.fn(() => Promise.resolve()),
+        unlinkFile: jest.fn(() => Promise.resolve())
+      }
+    ));
+    mockedS3Contents = [
+      {
+        Key: "0.txt",
+      },
+      {
+        Key: "1.txt",
+        Size: mockedDirStructure.filesAndDirs!["1.txt"].stats.size + 5,
+        LastModified: mockedDirStructure.filesAndDirs!["1.txt"].stats.mtime,
+      },
+      {
+        Key: "a.txt",
+        Size: mockedDirStructure.filesAndDirs!["a.txt"].stats.size,
+        LastModified: new Date(mockedDirStructure.filesAndDirs!["a.txt"].stats.mtime.getTime() + 1),
+      }
+    ];
+  });
+
+  test("Ensure the initial sync waits for its operations and provides the result.", async () => {
+    const sync = require("../src/sync").default;
+    const syncResultListener = jest.fn();
+    await sync({
+                 rootDir,
+                 bucket,
+                 syncResultListener
+               });
+    expect(syncResultListener).toHaveBeenCalledTimes(1);
+    const result = syncResultListener.mock.calls[0][0];
+    expect(result.downloaded).toEqual(1);
+    expect(result.updated).toEqual(1);
+    expect(result.removed).toEqual(0);
+    expect(result.failed).toEqual(1);
+    expect(result.failures.length).toEqual(1);
+    expect(result.failures[0].type).toEqual("update");
+    expect(result.failures[0].Key).toEqual("a.txt");
+    expect(result.failures[0].error.name).toEqual("AccessDenied");
+  });
+
+  test("Ensure superseded operations are not counted as performed.", async () => {
+    jest.doMock("../src/filesystemOps", () => (
+      {
+        ...(jest.requireActual('../src/filesystemOps') as any),
+        // 0.txt was replaced by a later write before it was run
+        writeS3Object: jest.fn((options: any) => Promise.resolve(
+          options.Key === "0.txt" ? require("../src/AsyncOpQueue").SUPERSEDED : undefined
+        ))
+      }
+    ));
+    const {syncOnce} = require("../src/sync");
+    const result = await syncOnce({
+                                    rootDir,
+                                    bucket
+                                  });
+    expect(result.downloaded).toEqual(0);
+    expect(result.updated).toEqual(2);
+    expect(result.superseded).toEqual(1);
+    expect(result.failed).toEqual(0);
+  });
+
+  test("Ensure the sync pass does not wait when waitForCompletion is false.", async () => {
+    const sync = require("../src/sync").default;
+    const syncResultListener = jest.fn();
+    await sync({
+                 rootDir,
+                 bucket,
+                 waitForCompletion: false,
+                 syncResultListener
+               });
+    expect(syncResultListener).toHaveBeenCalledTimes(0);
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(syncResultListener).toHaveBeenCalledTimes(1);
+  });
+
+  test("Ensure syncOnce returns the result of the pass.", async () => {
+    const {syncOnce} = require("../src/sync");
+    const result = await syncOnce({
+                                    rootDir,
+                                    bucket,
+                                    remove: true
+                                  });
+    expect(result.downloaded).toEqual(1);
+    expect(result.updated).toEqual(1);
+    expect(result.removed).toBeGreaterThan(0);
+    expect(result.failed).toEqual(1);
+  });
+
+  test("Ensure the result is formatted.", () => {
+    const {formatSyncResult} = require("../src/sync");
+    const result = {
+      downloaded: 1,
+      updated: 2,
+      removed: 3,
+      superseded: 0,
+      failed: 1,
+      failures: [{type: "download", bucket, Key: "a.txt", relativePath: "a.txt", error: {name: "AccessDenied"}}]
+    };
+    expect(formatSyncResult(result)).toEqual("failed download a.txt AccessDenied\n"
+                                               + "Sync completed with failures: 1 downloaded, 2 updated, 3 removed, "
+                                               + "1 failed.");
+    // only included when operations were superseded
+    expect(formatSyncResult({...result, superseded: 4})).toContain("3 removed, 4 superseded, 1 failed.");
+    expect(JSON.parse(formatSyncResult(result, "json")).superseded).toEqual(0);
+    expect(JSON.parse(formatSyncResult(result, "json")).failures[0]).toEqual({
+      type: "download",
+      bucket,
+      key: "a.txt",
+      relativePath: "a.txt",
+      error: "AccessDenied"
+    });
+  });
+
+});
@@ -1,3 +1,5 @@
+import { retryWithBackoff, RetryPolicy } from "./retry";
+
 export interface AsyncOpQueueOptions {
 
   /**
@@ -48,22 +50,49 @@ export interface AsyncOpQueueOptions {
    */
   catchErrors?: boolean
 
+  /**
+   * When provided, the promise based tasks that fail with a retryable error are
+   * retried (see {@link retryWithBackoff}) before their promise is rejected. The
+   * task keeps its key (and concurrency slots) while it waits to be retried, so
+   * other tasks of the key are not run in between.
+   */
+  retryPolicy?: RetryPolicy
+
 }
 
 type Task = (onComplete: () => void) => void
 
+/**
+ * The outcome of a promise based task that was replaced by a task submitted in
+ * coalescing mode before it was run (see {@link AsyncOpQueue.submit}).
+ */
+export const SUPERSEDED: unique symbol = Symbol("superseded");
+
+export type Superseded = typeof SUPERSEDED;
+
 export type PromiseTask<T> = () => Promise<T>
 
+interface PromiseSettler {
+  resolve: (res: any) => void
+  reject: (err: any) => void
+}
+
 interface QueueItem {
   next: QueueItem | undefined
   key: string
   task: Task
   runTimeout: number | undefined
+  weight: number
+  /**
+   * The promise of the promise based task, which settles with the item's task.
+   */
+  settler?: PromiseSettler
 }
 
 interface RunningTask {
   expiration: number | undefined
   id: number
+  weight: number
 }
 
 /**
@@ -79,8 +108,18 @@ export default class AsyncOpQueue {
    */
   runningTasks: {[key: string]: RunningTask} = {};
   runCount = 0;
+  /*
+  * The queued (not yet running) item of each key that can be replaced by a
+  * task submitted in coalescing mode.
+  * */
+  private coalescingItems: {[key: string]: QueueItem} = {};
+  /*
+  * Resolved once there are no queued or running tasks (see onIdle()).
+  * */
+  private idleWaiters: (() => void)[] = [];
 
   catchErrors: boolean
+  retryPolicy: RetryPolicy | undefined
 
   queueHead: QueueItem | undefined;
   queueTail: QueueItem | undefined;
@@ -106,6 +145,7 @@ export default class AsyncOpQueue {
     this.defaultTaskRunTimeoutMillis = options?.defaultTaskRunTimeoutMillis;
     this.reaperIntervalMillis = options?.taskReaperIntervalMillis || 10;
     this.catchErrors = options.catchErrors || false;
+    this.retryPolicy = options.retryPolicy;
     // start the queue
     this.run();
     // start the check for expiration
@@ -120,10 +160,75 @@ export default class AsyncOpQueue {
     return this.runCount;
   }
 
-  public submit(key: string, task: Task, runTimeout = this.defaultTaskRunTimeoutMillis) {
+  /**
+   * Submits the task to be run once no other task with the same key is running.
+   *
+   * The weight is the number of concurrency slots the task occupies while it is
+   * running (e.g., a task that performs several requests concurrently). It is
+   * capped at maxConcurrency so that a task can always be run. When there are
+   * not enough free slots for the task at the head of the queue, the queue waits
+   * for running tasks to complete rather than running the tasks behind it - this
+   * keeps heavier tasks from being starved by lighter ones.
+   *
+   * When coalesce is true and a task that was submitted for the key in coalescing
+   * mode is still queued (i.e., it has not started running), the task replaces it
+   * (keeping its place in the queue) rather than being appended. This keeps
+   * superseded operations (e.g., the downloads of an object that was overwritten
+   * again) from being run. A task submitted without coalescing is never replaced,
+   * nor are the tasks submitted for the key before it.
+   *
+   * @param key only one task is run for a key at a time
+   * @param task the task to run
+   * @param runTimeout see {@link AsyncOpQueueOptions.defaultTaskRunTimeoutMillis}. Defaults to the
+   *        defaultTaskRunTimeoutMillis, while null never expires the task (e.g., a long running download
+   *        that must keep its key and slots until it completes).
+   * @param weight number of concurrency slots the task uses. Defaults to 1.
+   * @param coalesce whether the task replaces the queued task of the key. Defaults to false.
+   */
+  public submit(key: string,
+                task: Task,
+                runTimeout: number | null | undefined = this.defaultTaskRunTimeoutMillis,
+                weight = 1,
+                coalesce = false) {
+    this.enqueue(key, task, runTimeout === null ? undefined : runTimeout, weight, coalesce);
+  }
+
+  private enqueue(key: string,
+                  task: Task,
+                  runTimeout: number | undefined,
+                  weight: number,
+                  coalesce: boolean,
+                  settler?: PromiseSettler) {
     // if queue not shutdown then can submit item to be run
     if (!this.shutdown) {
-      const queueItem = {next: undefined, key, task, runTimeout};
+      weight = Math.min(Math.max(weight, 1), this.maxConcurrency);
+      const coalescingItem = this.coalescingItems[key];
+      if (coalesce && coalescingItem) {
+        const replaced = coalescingItem.settler;
+        coalescingItem.task = task;
+        coalescingItem.runTimeout = runTimeout;
+        coalescingItem.weight = weight;
+        coalescingItem.settler = settler;
+        if (replaced) {
+          // will never be run
+          replaced.resolve(SUPERSEDED);
+        }
+        return;
+      }
+      const queueItem: QueueItem = {
+        next: undefined,
+        key,
+        task,
+        runTimeout,
+        weight,
+        settler
+      };
+      if (coalesce) {
+        this.coalescingItems[key] = queueItem;
+      } else {
+        // the tasks submitted afterwards must not replace one that is queued before this
+        delete this.coalescingItems[key];
+      }
       this.size++;
       if (this.queueHead === undefined) {
         this.queueHead = queueItem;
@@ -149,27 +254,49 @@ export default class AsyncOpQueue {
     }
   }
 
+  /**
+   * Submits the promise based task (see {@link submit}). The task is complete
+   * once its promise settles, whether it resolves or rejects (even without
+   * catchErrors).
+   *
+   * @return a promise that settles with the task's promise once the task has
+   *         been run. When coalescing, the promise of a task that is replaced
+   *         resolves with {@link SUPERSEDED} (as soon as it is replaced). It never
+   *         settles if the task is not run (e.g., the queue was stopped).
+   */
+  public submitPromiseTask<T>(key: string,
+                              promiseTask: PromiseTask<T>,
+                              runTimeout?: number | null,
+                              weight?: number,
+                              coalesce?: false): Promise<T>
   public submitPromiseTask<T>(key: string,
                               promiseTask: PromiseTask<T>,
-                              runTimeout = this.defaultTaskRunTimeoutMillis) {
-    if (this.catchErrors) {
-      this.submit(key, onComplete => {
-        promiseTask().then(res => {
+                              runTimeout: number | null | undefined,
+                              weight: number,
+                              coalesce: boolean): Promise<T | Superseded>
+  public submitPromiseTask<T>(key: string,
+                              promiseTask: PromiseTask<T>,
+                              runTimeout: number | null | undefined = this.defaultTaskRunTimeoutMillis,
+                              weight = 1,
+                              coalesce = false): Promise<T | Superseded> {
+    return new Promise<T | Superseded>((resolve, reject) => {
+      this.enqueue(key, onComplete => {
+        const promise = this.retryPolicy ? retryWithBackoff(promiseTask, this.retryPolicy, key) : promiseTask();
+        // the promise is settled first, so its callbacks run before those of onIdle()
+        promise.then(res => {
+          resolve(res);
           onComplete();
-          return res;
-        }).catch(err => {
-          onComplete()
-          return Promise.reject(err)
-        })
-      }, runTimeout)
-    } else {
-      this.submit(key, onComplete => {
-        promiseTask().then(res => {
+        }, err => {
+          reject(err);
+          /*
+          * The task has been retried (see retryPolicy) and its error is delivered
+          * through the returned promise, so it is complete (and frees its key and
+          * slots) regardless of catchErrors.
+          * */
           onComplete();
-          return res;
         })
-      }, runTimeout)
-    }
+      }, runTimeout === null ? undefined : runTimeout, weight, coalesce, {resolve, reject})
+    });
   }
 
   /**
@@ -184,10 +311,50 @@ export default class AsyncOpQueue {
     // only remove if the key and id are correct, otherwise ignore
     if (runningTask && runningTask.id === id) {
       delete this.runningTasks[key];
-      this.runCount--;
+      this.runCount -= runningTask.weight;
+      // the run loop may have already stopped (i.e., shutdown)
+      this.resolveIdleWaiters();
     }
   }
 
+  private resolveIdleWaiters() {
+    if (this.idleWaiters.length > 0 && this.size === 0 && this.runCount === 0) {
+      const idleWaiters = this.idleWaiters;
+      this.idleWaiters = [];
+      for (let i = 0; i < idleWaiters.length; i++) {
+        idleWaiters[i]();
+      }
+    }
+  }
+
+  /**
+   * Waits for the queue to be idle: there are no queued tasks and no running
+   * tasks (a task is no longer running once it calls onComplete, its promise
+   * settles or it expires). Tasks that are submitted while waiting are waited
+   * for as well.
+   *
+   * Note: without catchErrors, a (non-promise) task that throws is only removed
+   * once it expires. Promise based tasks are complete once their promise settles,
+   * so a failed operation does not delay the queue from being idle.
+   *
+   * @return a promise that resolves once the queue is idle (immediately if it
+   *         already is)
+   */
+  public onIdle(): Promise<void> {
+    return new Promise<void>(resolve => {
+      this.idleWaiters.push(resolve);
+      this.resolveIdleWaiters();
+    });
+  }
+
+  /**
+   * Waits for every queued and running task to complete (see {@link onIdle}).
+   * Unlike {@link stop}, new tasks are still accepted.
+   */
+  public drain(): Promise<void> {
+    return this.onIdle();
+  }
+
   /**
    * Removes the key from running tasks if the task for a key has timed out.
    */
@@ -232,7 +399,7 @@ export default class AsyncOpQueue {
       let taskToRun = this.queueHead;
       let previousUnrunTask: QueueItem | undefined;
       while (taskToRun && this.runCount < this.maxConcurrency && !this.shutdownImmediately) {
-        const {key} = taskToRun;
+        const {key, weight} = taskToRun;
         const runningTaskForKey = this.runningTasks[key];
         /*
         * If there is no currently running task for the given key OR the
@@ -252,10 +419,24 @@ export default class AsyncOpQueue {
             runningTaskForKey.expiration - Date.now() <= 0
           )
         ) {
+          /*
+          * Not enough free slots for the task's weight. Wait for running tasks
+          * to complete (taskToRun is relinked below like when maxConcurrency
+          * is reached).
+          * */
+          const freedWeight = runningTaskForKey !== undefined ? runningTaskForKey.weight : 0;
+          if (this.runCount - freedWeight + weight > this.maxConcurrency) {
+            break;
+          }
+          if (this.coalescingItems[key] === taskToRun) {
+            // running, so can no longer be replaced
+            delete this.coalescingItems[key];
+          }
           const id = this.runId++;
           this.runningTasks[key] = {
             expiration: taskToRun.runTimeout !== undefined ? taskToRun.runTimeout + Date.now() : undefined,
-            id
+            id,
+            weight
           };
           // run the task
           if (this.catchErrors) {
@@ -274,13 +455,11 @@ export default class AsyncOpQueue {
           }
           this.size--;
           /*
-          * Only increment runCount if there was NOT already a task running for
-          * the given key. The other case here would be that a task was already
-          * running for the given key, but it has expired.
+          * If a task was already running for the given key, but it has expired,
+          * it was replaced above (its onComplete will no longer remove it), so
+          * its weight is handed over to the new task.
           * */
-          if (runningTaskForKey === undefined) {
-            this.runCount++;
-          }
+          this.runCount += weight - freedWeight;
         } else {  // cannot run task right now add to previousUnrunTask
           if (previousUnrunTask !== undefined) {
             previousUnrunTask.next = taskToRun;
@@ -325,6 +504,7 @@ export default class AsyncOpQueue {
       * 1. Shutdown immediately - i.e., do not run any remaining tasks in the queue.
       * 2. Shutdown after all remaining tasks in the queue have completed.
       * */
+      this.resolveIdleWaiters();
       if (!this.shutdown) {
         this.run();
       } else {
@@ -1,3 +1,4 @@
 module.exports = {
   registerShutdownHook: jest.fn(),
-}
\ No newline at end of file
+  removeShutdownHook: jest.fn(),
+}
@@ -0,0 +1,216 @@
+import * as path from "path";
+import * as fs from "fs";
+import { createComponentLog, LogLevel } from "./logger";
+
+const log = createComponentLog("state");
+
+/**
+ * What triggered a change of the mirror.
+ *
+ * initialSync - the first sync pass after starting (or the pass of --once).
+ * resync      - a sync pass of the resyncInterval.
+ * sns         - an SNS notification (received by the SNS server or SQS poller,
+ *               or replayed from the event journal).
+ */
+export type AuditSourceType = "initialSync" | "resync" | "sns";
+
+export interface AuditSource {
+  type: AuditSourceType
+  /**
+   * The SNS MessageId of the notification. Only provided for 'sns'.
+   */
+  MessageId?: string
+}
+
+/**
+ * create - the file (or directory) did not exist and was written.
+ * update - the file existed and was overwritten.
+ * remove - the file (or directory) was removed.
+ */
+export type AuditOperation = "create" | "update" | "remove";
+
+/**
+ * A change that was applied (or failed to be applied) to the mirror. Each entry is
+ * a line of the audit log.
+ */
+export interface AuditEntry {
+  /**
+   * When the operation completed (ISO 8601).
+   */
+  timestamp: string
+  source: AuditSourceType
+  MessageId?: string
+  operation: AuditOperation
+  bucket?: string
+  Key?: string
+  ETag?: string
+  /**
+   * The absolute path of the file (or directory).
+   */
+  localPath: string
+  outcome: "success" | "failure"
+  /**
+   * The error's code (or name) and message. Only provided for failures.
+   */
+  error?: string
+}
+
+export interface AuditLogOptions {
+  /**
+   * The file the entries are appended to.
+   */
+  filePath: string
+  /**
+   * The file is rotated (renamed to '<filePath>.1', the previous '<filePath>.1' to
+   * '<filePath>.2' and so on) before an entry would make it larger than this
+   * many bytes.
+   *
+   * Defaults to 10 MiB.
+   */
+  maxFileSize?: number
+  /**
+   * The number of rotated files that are kept (the oldest are removed).
+   *
+   * Defaults to 5.
+   */
+  maxFiles?: number
+}
+
+/**
+ * Append-only log of every file (and directory) that was created, updated or
+ * removed in the mirror, so that it can be determined when (and why) a file
+ * appeared or disappeared.
+ *
+ * The entries are written as JSON lines. Entries recorded while a write is in
+ * progress are appended (and synced to disk) together with the next write. A
+ * failure to write the log is logged, but does not fail the operation that was
+ * recorded.
+ */
+export default class AuditLog {
+
+  private fileHandle?: fs.promises.FileHandle
+  private fileSize: number = 0
+  // lines recorded since the last write started
+  private buffered: string[] = []
+  // writes are chained so that lines are never interleaved
+  private writing: Promise<void> = Promise.resolve()
+  private flushPending: boolean = false
+
+  readonly filePath: string
+  readonly maxFileSize: number
+  readonly maxFiles: number
+
+  constructor(options: AuditLogOptions) {
+    this.filePath = path.resolve(options.filePath);
+    this.maxFileSize = options.maxFileSize !== undefined ? options.maxFileSize : 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles !== undefined ? options.maxFiles : 5;
+  }
+
+  /**
+   * Appends the entry (the timestamp is set to now). The returned promise resolves
+   * once the entry has been synced to disk (or could not be written).
+   */
+  record(entry: Omit<AuditEntry, "timestamp">): Promise<void> {
+    this.buffered.push(JSON.stringify({timestamp: new Date().toISOString(), ...entry}) + "\n");
+    if (!this.flushPending) {
+      this.flushPending = true;
+      this.writing = this.writing.then(() => this.flush());
+    }
+    return this.writing;
+  }
+
+  private flush(): Promise<void> {
+    this.flushPending = false;
+    const lines = this.buffered;
+    this.buffered = [];
+    let written = Promise.resolve();
+    // each chunk fits in a file, unless a single line is larger than maxFileSize
+    let chunk = "";
+    for (let i = 0; i < lines.length; i++) {
+      if (chunk.length > 0 && Buffer.byteLength(chunk + lines[i]) > this.maxFileSize) {
+        const data = chunk;
+        written = written.then(() => this.append(data));
+        chunk = "";
+      }
+      chunk += lines[i];
+    }
+    written = written.then(() => this.append(chunk));
+    return written.catch(err => {
+      log(`Could not write ${lines.length} entries to the audit log ('${this.filePath}'). ${err}`, LogLevel.ERROR);
+    });
+  }
+
+  private append(data: string): Promise<void> {
+    const size = Buffer.byteLength(data);
+    return this.getFileHandle()
+               .then(() => {
+                 if (this.fileSize > 0 && this.fileSize + size > this.maxFileSize) {
+                   return this.rotate().then(() => this.getFileHandle());
+                 }
+               })
+               .then(() => this.fileHandle!.appendFile(data))
+               .then(() => {
+                 this.fileSize += size;
+                 return this.fileHandle!.sync();
+               });
+  }
+
+  private getFileHandle(): Promise<fs.promises.FileHandle> {
+    if (this.fileHandle) {
+      return Promise.resolve(this.fileHandle);
+    }
+    return fs.promises.mkdir(path.dirname(this.filePath), {recursive: true})
+             .then(() => fs.promises.open(this.filePath, "a"))
+             .then(fileHandle => fileHandle.stat().then(stats => {
+               this.fileHandle = fileHandle;
+               this.fileSize = stats.size;
+               return fileHandle;
+             }));
+  }
+
+  /**
+   * Renames the current file to '<filePath>.1' (shifting the rotated files) and
+   * removes the rotated files beyond maxFiles.
+   */
+  private rotate(): Promise<void> {
+    const rotatedPath = (n: number) => `${this.filePath}.${n}`;
+    let rotated = this.closeFileHandle()
+                      .then(() => fs.promises.unlink(rotatedPath(this.maxFiles)))
+                      .catch(err => {
+                        if (err.code !== "ENOENT") {
+                          return Promise.reject(err);
+                        }
+                      });
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      rotated = rotated.then(() => fs.promises.rename(rotatedPath(n), rotatedPath(n + 1)))
+                       .catch(err => {
+                         if (err.code !== "ENOENT") {
+                           return Promise.reject(err);
+                         }
+                       });
+    }
+    return rotated
+      .then(() => this.maxFiles > 0
+        ? fs.promises.rename(this.filePath, rotatedPath(1))
+        : fs.promises.unlink(this.filePath))
+      .then(() => {
+        this.fileSize = 0;
+      });
+  }
+
+  private closeFileHandle(): Promise<void> {
+    const fileHandle = this.fileHandle;
+    this.fileHandle = undefined;
+    return fileHandle ? fileHandle.close() : Promise.resolve();
+  }
+
+  /**
+   * Waits for the recorded entries to be written and closes the file. Entries can
+   * still be recorded afterwards (the file is opened again).
+   */
+  close(): Promise<void> {
+    this.writing = this.writing.then(() => this.closeFileHandle());
+    return this.writing;
+  }
+
+}
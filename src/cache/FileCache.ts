@@ -1,15 +1,48 @@
-import { Stats } from "fs"
+import * as fs from "fs";
+import * as path from "path";
+import { createComponentLog, LogLevel } from "../logger";
+
+const log = createComponentLog("state");
 
 /**
  * Information kept when updating a file.
  */
 export interface CacheEntry {
+  /**
+   * The file's mtime (milliseconds since the epoch) once it was written.
+   */
   lastModified: number
+  /**
+   * The file's size once it was written.
+   */
+  size: number
+  /**
+   * ETag (without quotes) of the S3 object that was written to the file.
+   */
   etag: string
 }
 
+/**
+ * The stats of a file that are kept in the cache.
+ */
+export interface CachedStats {
+  size: number
+  mtime: Date
+}
+
 export interface FileCacheOptions {
   maxSize: number
+  /**
+   * When provided, the cache is loaded from this file when it is created and
+   * snapshots are written to it every {@link snapshotInterval} milliseconds (if
+   * the cache has changed) and when the cache is stopped, so that a warm cache
+   * survives restarts.
+   */
+  snapshotPath?: string
+  /**
+   * Defaults to 60 seconds.
+   */
+  snapshotInterval?: number
 }
 
 /**
@@ -20,53 +53,94 @@ export interface FileCacheOptions {
  * The cache will only hold a maximum of {@link FileCacheOptions#maxSize}
  * filesAndDirs, each 10k entries in the cache is about 4MB.
  *
- * Cache entries are removed based on the most-infrequently updated file
- * entries.
+ * When the cache is full, the least recently used (added or retrieved) entry is
+ * evicted.
  */
 export default class FileCache {
 
-  private cache: { [key: string]: CacheEntry } = {}
-  private size: number = 0
+  /*
+  * Maps keep their insertion order, so the first key is the least recently used
+  * as entries are re-inserted whenever they are used.
+  * */
+  private cache: Map<string, CacheEntry> = new Map()
+  private snapshotIntervalId?: ReturnType<typeof setInterval>
+  private changedSinceSnapshot: boolean = false
+  // snapshots are chained so that the file is never written concurrently
+  private flushing: Promise<void> = Promise.resolve()
 
   maxSize: number
+  snapshotPath?: string
 
   constructor(options: FileCacheOptions) {
     this.maxSize = options.maxSize;
+    this.snapshotPath = options.snapshotPath;
+    if (this.snapshotPath) {
+      this.loadSnapshot(this.snapshotPath);
+      this.snapshotIntervalId = setInterval(() => {
+        if (this.changedSinceSnapshot) {
+          this.saveSnapshot().catch(err => {
+            log(`Could not write the file cache snapshot ('${this.snapshotPath}'). ${err}`, LogLevel.ERROR);
+          });
+        }
+      }, options.snapshotInterval || 60_000);
+      // the snapshot is also written when the cache is stopped (Node.js timers can be unref'd)
+      const timer = this.snapshotIntervalId as { unref?: () => void };
+      if (timer.unref) {
+        timer.unref();
+      }
+    }
+  }
 
+  /**
+   * The number of entries in the cache.
+   */
+  get size(): number {
+    return this.cache.size;
   }
 
   /**
-   * Adds a file for the provided httpPath. If adding the file will cause the size
-   * of the cache to grow greater than maxSize then an entry will be evicted
-   * from the cache. The eviction file is randomly chosen - maybe in the future
-   * different eviction methods can be provided.
+   * Adds a file for the provided httpPath. If the path is not already cached and
+   * adding the file will cause the size of the cache to grow greater than maxSize,
+   * then the least recently used entry is evicted from the cache.
    *
    * @param key file's httpPath (key in cache)
    * @param etag
    * @param stats
    */
-  addFile(key: string, etag: string, stats: Stats) {
-    if (this.size === this.maxSize) {
-      // need to randomly remove an entry
-      let removePos = Math.floor(Math.random() * this.size);
-      const keys = Object.keys(this.cache);
-      for (let i = 0; i < keys.length; i++) {
-        if (i == removePos) {
-          this.removeFromCache(keys[i]);
-          break;
-        }
-      }
+  addFile(key: string, etag: string, stats: CachedStats) {
+    if (this.maxSize <= 0) {
+      return;
     }
-    this.cache[key] = {lastModified: stats.mtimeMs, etag};
-    this.size++;
+    // re-inserting moves the entry to the end (most recently used)
+    if (!this.cache.delete(key) && this.cache.size >= this.maxSize) {
+      this.cache.delete(this.cache.keys().next().value);
+    }
+    this.cache.set(key, {lastModified: stats.mtime.getTime(), size: stats.size, etag});
+    this.changedSinceSnapshot = true;
   }
 
   /**
    * Returns the cache entry or undefined if it does not exist in the cache.
-   * @param key S3 object key
+   * @param key file's httpPath (key in cache)
    */
   getCacheEntry(key: string): CacheEntry | undefined {
-    return this.cache[key];
+    const entry = this.cache.get(key);
+    if (entry) {
+      // most recently used
+      this.cache.delete(key);
+      this.cache.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Returns the cached stats of the file or undefined if it does not exist in
+   * the cache.
+   * @param key file's httpPath (key in cache)
+   */
+  getStats(key: string): CachedStats | undefined {
+    const entry = this.getCacheEntry(key);
+    return entry && {size: entry.size, mtime: new Date(entry.lastModified)};
   }
 
   /**
@@ -74,11 +148,77 @@ export default class FileCache {
    * @param key
    */
   removeFromCache(key: string): boolean {
-    const deleted = delete this.cache[key];
+    const deleted = this.cache.delete(key);
     if (deleted) {
-      this.size--;
+      this.changedSinceSnapshot = true;
     }
     return deleted;
   }
 
+  /**
+   * Removes the cache entries of every file within the directory.
+   * @param dirPath directory's httpPath, ending with the separator
+   */
+  removeDirectory(dirPath: string) {
+    const removedKeys: string[] = [];
+    this.cache.forEach((entry, key) => {
+      if (key.indexOf(dirPath) === 0) {
+        removedKeys.push(key);
+      }
+    });
+    for (let i = 0; i < removedKeys.length; i++) {
+      this.removeFromCache(removedKeys[i]);
+    }
+  }
+
+  private loadSnapshot(snapshotPath: string) {
+    let entries: [string, CacheEntry][];
+    try {
+      entries = JSON.parse(fs.readFileSync(snapshotPath, "utf8")).entries || [];
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        log(`Could not read the file cache snapshot ('${snapshotPath}'). Starting with an empty cache. ${err}`,
+            LogLevel.WARN);
+      }
+      return;
+    }
+    // least recently used first, so the most recently used entries are kept
+    for (let i = Math.max(0, entries.length - this.maxSize); i < entries.length; i++) {
+      this.cache.set(entries[i][0], entries[i][1]);
+    }
+    log(`Loaded ${this.cache.size} entries from the file cache snapshot ('${snapshotPath}').`, LogLevel.DEBUG);
+  }
+
+  /**
+   * Writes the cache's entries (least recently used first) to the snapshot file.
+   */
+  saveSnapshot(): Promise<void> {
+    if (!this.snapshotPath) {
+      return Promise.resolve();
+    }
+    const snapshotPath = this.snapshotPath;
+    const entries: [string, CacheEntry][] = [];
+    this.cache.forEach((entry, key) => entries.push([key, entry]));
+    this.changedSinceSnapshot = false;
+    const data = JSON.stringify({entries});
+    const tmpFilePath = snapshotPath + ".tmp";
+    this.flushing = this.flushing
+                        .catch(() => {/* previous failure was already reported */})
+                        .then(() => fs.promises.mkdir(path.dirname(snapshotPath), {recursive: true}))
+                        .then(() => fs.promises.writeFile(tmpFilePath, data))
+                        .then(() => fs.promises.rename(tmpFilePath, snapshotPath));
+    return this.flushing;
+  }
+
+  /**
+   * Stops writing snapshots periodically and writes a final snapshot.
+   */
+  stop(): Promise<void> {
+    if (this.snapshotIntervalId !== undefined) {
+      clearInterval(this.snapshotIntervalId);
+      this.snapshotIntervalId = undefined;
+    }
+    return this.saveSnapshot();
+  }
+
 }
@@ -0,0 +1,95 @@
+export interface MessageDeduplicatorOptions {
+  /**
+   * The maximum number of MessageIds that are remembered. When it is reached,
+   * the oldest MessageId is forgotten.
+   *
+   * Defaults to 10,000.
+   */
+  maxSize?: number
+  /**
+   * How long (in milliseconds) a MessageId is remembered after it was first
+   * received.
+   *
+   * Defaults to 5 minutes.
+   */
+  window?: number
+}
+
+/**
+ * Remembers the MessageIds of the notifications that were received recently, so
+ * that the notifications SNS redelivers (e.g., when the response was not received
+ * in time) are not handled again.
+ *
+ * The MessageIds are kept in the order they were received, so the oldest ones are
+ * forgotten first once the window has elapsed or the maximum size is reached.
+ */
+export default class MessageDeduplicator {
+
+  // MessageId -> when it was received (milliseconds since the epoch)
+  private received: Map<string, number> = new Map()
+  private suppressed: number = 0
+
+  maxSize: number
+  window: number
+
+  constructor(options: MessageDeduplicatorOptions = {}) {
+    this.maxSize = options.maxSize !== undefined ? options.maxSize : 10_000;
+    this.window = options.window !== undefined ? options.window : 5 * 60_000;
+  }
+
+  /**
+   * The number of MessageIds that are remembered.
+   */
+  get size(): number {
+    return this.received.size;
+  }
+
+  /**
+   * The number of duplicates that have been suppressed.
+   */
+  get suppressedCount(): number {
+    return this.suppressed;
+  }
+
+  private forgetExpired(now: number) {
+    // oldest first, so stops at the first that has not expired
+    const entries = this.received.entries();
+    for (let entry = entries.next(); !entry.done && now - entry.value[1] >= this.window; entry = entries.next()) {
+      this.received.delete(entry.value[0]);
+    }
+  }
+
+  /**
+   * Determines whether the message was received within the window. If it was not,
+   * it is remembered (so that its redeliveries are duplicates).
+   *
+   * @return true if the message is a duplicate (and should be suppressed)
+   */
+  isDuplicate(MessageId: string): boolean {
+    const now = Date.now();
+    const receivedAt = this.received.get(MessageId);
+    if (receivedAt !== undefined && now - receivedAt < this.window) {
+      this.suppressed++;
+      return true;
+    }
+    this.received.delete(MessageId);
+    this.forgetExpired(now);
+    if (this.maxSize <= 0) {
+      return false;
+    }
+    if (this.received.size >= this.maxSize) {
+      this.received.delete(this.received.keys().next().value);
+    }
+    this.received.set(MessageId, now);
+    return false;
+  }
+
+  /**
+   * Forgets the message (e.g., it could not be handled), so that its redelivery
+   * is not a duplicate.
+   */
+  forget(MessageId: string) {
+    this.received.delete(MessageId);
+  }
+
+}
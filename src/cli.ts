@@ -1,8 +1,16 @@
 import { createCommand } from 'commander';
-import { LogLevel, setLogLevelFromString } from "./logger";
-import { SnsServerOptions } from "./SnsServer";
-import { SyncOptions } from "./sync";
-import { CommonOptions } from "./options";
+import { LogLevel, setLogFormat, setLogLevelFromString } from "./logger";
+import { SnsServerOptions } from "./snsServer";
+import { SqsPollerOptions } from "./sqsPoller";
+import { VerifyOptions } from "./sync";
+import { CommonOptions, MirrorMapping } from "./options";
+import { JournalCommandOptions } from "./run";
+
+/**
+ * The subcommand that was provided via CLI. When no subcommand is provided the
+ * program is run (i.e., 'run').
+ */
+export type CliCommand = "run" | "verify" | "journal";
 
 /**
  * All options that can be provided via CLI.
@@ -13,12 +21,22 @@ import { CommonOptions } from "./options";
  */
 export type CliOptions =
   Omit<
-    CommonOptions & SyncOptions & SnsServerOptions,
-    "snsClient" | "s3Client" | "queue" | "s3KeyTransformers"
-    >
+    CommonOptions & VerifyOptions & SnsServerOptions & SqsPollerOptions & JournalCommandOptions,
+    "snsClient" | "sqsClient" | "s3Client" | "queue" | "manifest" | "fileCache" | "eventJournal" | "sequencerTracker"
+    | "s3KeyTransformers" | "keyFilter" | "syncPlanListener" | "syncResultListener" | "messageDeduplicator"
+    | "logSink" | "auditLog"
+    > & {
+    command: CliCommand
+    /**
+     * Performs a single sync pass and exits (see {@link runOnce}).
+     */
+    once?: boolean
+  }
 
-export default function cli() {
+export default function cli(): CliOptions {
   const program = createCommand();
+  let command: CliCommand = "run";
+  let commandOptions: Partial<CliOptions> = {};
 
   /*
   *
@@ -26,15 +44,49 @@ export default function cli() {
   *
   * */
 
-  program.requiredOption("--bucket <bucket>",
-                         "The S3 bucket to synchronize against.");
+  program.option("--bucket <bucket>",
+                 "The S3 bucket to synchronize against. Required unless 'buckets' is provided or every 'mapping' "
+                   + "provides its bucket.");
+
+  program.option("--buckets <buckets>",
+                 "Comma separated list of S3 buckets to synchronize against. Each bucket is mirrored into a "
+                   + "subdirectory of 'root-dir' that is named after the bucket. The buckets must be in the same region.",
+                 value => value.split(",").filter(bucket => bucket.length > 0));
 
   program.requiredOption("--region <region>",
                          "The region where the bucket resides. Defaults to us-east-1.",
                          "us-east-1");
 
-  program.requiredOption("--root-dir <dir>",
-                         "The local directory that will mirror the supplied S3 bucket's contents.");
+  program.option("--root-dir <dir>",
+                 "The local directory that will mirror the supplied S3 bucket's contents (or where each of the "
+                   + "'buckets' is mirrored to a subdirectory). Required unless 'mapping' is provided.");
+
+  program.option("--mapping <prefix=dir>",
+                 "Mirrors the keys beneath the prefix into the directory (e.g., 'reports/=/srv/reports'), with the "
+                   + "prefix removed from the keys. The prefix can be given as 's3://<bucket>/<prefix>' to mirror "
+                   + "another bucket than 'bucket' (e.g., 's3://bucket-b/img/=/var/www/img'). Can be provided "
+                   + "multiple times to mirror multiple prefixes and buckets in one process; cannot be used with "
+                   + "'root-dir', 'prefix' or 'buckets'. The other options apply to every mapping. The directories "
+                   + "cannot be the same or within one another.",
+                 (value: string, previous: MirrorMapping[]) => {
+                   const separatorIndex = value.indexOf("=");
+                   if (separatorIndex <= 0 || separatorIndex === value.length - 1) {
+                     throw new Error(`Mapping '${value}' must be of the form '<prefix>=<dir>' or `
+                                       + "'s3://<bucket>/<prefix>=<dir>'.");
+                   }
+                   const mapping: MirrorMapping = {
+                     prefix: value.substring(0, separatorIndex),
+                     rootDir: value.substring(separatorIndex + 1)
+                   };
+                   if (mapping.prefix!.indexOf("s3://") === 0) {
+                     const bucketAndPrefix = mapping.prefix!.substr("s3://".length);
+                     const slashIndex = bucketAndPrefix.indexOf("/");
+                     mapping.bucket = slashIndex < 0 ? bucketAndPrefix : bucketAndPrefix.substring(0, slashIndex);
+                     mapping.prefix = slashIndex < 0 ? "" : bucketAndPrefix.substring(slashIndex + 1);
+                   }
+                   return previous.concat([mapping]);
+                 },
+                 [] as MirrorMapping[]);
 
   program.option("--tmp-suffix <suf>",
                  "Suffix to use when writing filesAndDirs temporarily. Will be moved/renamed once they have completed writing.",
@@ -43,6 +95,47 @@ export default function cli() {
   program.option("--tmp-dir <dir>",
                  "Local directory to write filesAndDirs temporarily before moving them to their final destination. Helps when watching a directory for changes.");
 
+  program.option("--state-dir <dir>",
+                 "Local directory where in-progress downloads are recorded so that they are resumed (rather than "
+                   + "restarted) if the program is stopped mid-download. Should not be within 'root-dir'.");
+
+  program.option("--journal",
+                 "Keeps a write-ahead journal of the SNS notifications in 'state-dir'. Each notification is "
+                   + "journaled before it is acknowledged and the notifications that were not handled when the "
+                   + "program stopped are replayed on startup. Requires 'state-dir'.",
+                 false);
+
+  program.option("--audit-log-path <file>",
+                 "Appends every file (and directory) created, updated or removed in the local directory to the "
+                   + "file as a JSON line, with what triggered the change (the initial sync, a resync or the SNS "
+                   + "MessageId), the key, ETag, local path and outcome.");
+
+  program.option("--audit-log-max-size <bytes>",
+                 "The audit log is rotated (renamed to '<file>.1') once it would exceed this many bytes. Defaults "
+                   + "to 10 MiB.",
+                 (value) => {
+                   const auditLogMaxSize = Number.parseInt(value, 10);
+                   if (isNaN(auditLogMaxSize)) {
+                     throw new Error("'audit-log-max-size' is not a number (NaN).")
+                   }
+                   return auditLogMaxSize;
+                 });
+
+  program.option("--audit-log-max-files <count>",
+                 "The number of rotated audit log files that are kept. Defaults to 5.",
+                 (value) => {
+                   const auditLogMaxFiles = Number.parseInt(value, 10);
+                   if (isNaN(auditLogMaxFiles)) {
+                     throw new Error("'audit-log-max-files' is not a number (NaN).")
+                   }
+                   return auditLogMaxFiles;
+                 });
+
+  program.option("--persist-sequencers",
+                 "Persists the sequencer of the latest event applied for each key in 'state-dir', so that events "
+                   + "delivered out of order are also dropped after a restart. Requires 'state-dir'.",
+                 false);
+
   program.option("--remove",
                  "Whether or not to remove filesAndDirs from the local directory when they are removed from the S3 " +
                    "bucket. Defaults to false to ensure accidental deletion does not occur.",
@@ -54,6 +147,24 @@ export default function cli() {
                    "With SNS events the prefix will be checked against the event's key for a match. If there " +
                    "is no match then the key will be ignored.");
 
+  program.option("--include <glob>",
+                 "Glob pattern of the keys to mirror (e.g., '**/*.parquet'). Can be provided multiple times; a key "
+                   + "is mirrored if it matches any of them. A pattern beginning with '!' excludes the keys it matches. "
+                   + "'*' does not match '/', while '**' does.",
+                 (value: string, previous: string[]) => previous.concat([value]),
+                 [] as string[]);
+
+  program.option("--exclude <glob>",
+                 "Glob pattern of the keys that are never mirrored, even if they match an include pattern (e.g., "
+                   + "'tmp/**'). Can be provided multiple times. Excluded local files are never removed.",
+                 (value: string, previous: string[]) => previous.concat([value]),
+                 [] as string[]);
+
+  program.option("--filter-transformed-key",
+                 "Match the include and exclude patterns against the transformed key (i.e., the local path) rather "
+                   + "than the original key.",
+                 false);
+
   program.option("--suffix <suff>",
                  "The [filter] suffix to use when listing S3 objects or receiving notifications. " +
                    "With listing and SNS events this will filter the keys/events after they are retrieved, " +
@@ -136,6 +247,98 @@ export default function cli() {
                  },
                  300);
 
+  program.option("--retry-max-attempts <count>",
+                 "The maximum number of times an object's download (or a file operation) is attempted when it fails "
+                   + "with a transient error (e.g., throttling, a connection reset, EBUSY or EMFILE). Defaults to 3.",
+                 (value) => {
+                   const retryMaxAttempts = Number.parseInt(value, 10);
+                   if (isNaN(retryMaxAttempts)) {
+                     throw new Error("'retry-max-attempts' is not a number (NaN).")
+                   }
+                   return retryMaxAttempts;
+                 });
+
+  program.option("--retry-base-delay <millis>",
+                 "The delay (in milliseconds) before the first retry, which is doubled for each retry after that. "
+                   + "Defaults to 200.",
+                 (value) => {
+                   const retryBaseDelay = Number.parseInt(value, 10);
+                   if (isNaN(retryBaseDelay)) {
+                     throw new Error("'retry-base-delay' is not a number (NaN).")
+                   }
+                   return retryBaseDelay;
+                 });
+
+  program.option("--retry-jitter <fraction>",
+                 "The fraction (0-1) of each retry delay that is randomized. Defaults to 0.5.",
+                 (value) => {
+                   const retryJitter = Number.parseFloat(value);
+                   if (isNaN(retryJitter)) {
+                     throw new Error("'retry-jitter' is not a number (NaN).")
+                   }
+                   return retryJitter;
+                 });
+
+  program.option("--file-cache-size <count>",
+                 "The maximum number of files whose stats are cached so that synchronization does not need to stat "
+                   + "the files this program wrote. The least recently used entries are evicted. Defaults to 0 "
+                   + "(disabled).",
+                 (value) => {
+                   const fileCacheSize = Number.parseInt(value, 10);
+                   if (isNaN(fileCacheSize)) {
+                     throw new Error("'file-cache-size' is not a number (NaN).")
+                   }
+                   return fileCacheSize;
+                 });
+
+  program.option("--file-cache-snapshot-path <file>",
+                 "File the file cache is loaded from on startup and periodically written to, so that a warm cache "
+                   + "survives restarts. Only used with 'file-cache-size'.");
+
+  program.option("--large-object-threshold <bytes>",
+                 "Objects larger than this size (in bytes) are downloaded as concurrent byte ranges. A value of 0 "
+                   + "disables ranged downloads. Defaults to 104857600 (100 MiB).",
+                 (value) => {
+                   const largeObjectThreshold = Number.parseInt(value, 10);
+                   if (isNaN(largeObjectThreshold)) {
+                     throw new Error("'large-object-threshold' is not a number (NaN).")
+                   }
+                   return largeObjectThreshold;
+                 });
+
+  program.option("--part-size <bytes>",
+                 "The size (in bytes) of each byte range requested for objects larger than 'large-object-threshold'. "
+                   + "Defaults to 16777216 (16 MiB).",
+                 (value) => {
+                   const partSize = Number.parseInt(value, 10);
+                   if (isNaN(partSize)) {
+                     throw new Error("'part-size' is not a number (NaN).")
+                   }
+                   return partSize;
+                 });
+
+  program.option("--part-concurrency <count>",
+                 "The number of byte ranges of a large object that are downloaded concurrently. These count against "
+                   + "'max-concurrency'. Defaults to 4.",
+                 (value) => {
+                   const partConcurrency = Number.parseInt(value, 10);
+                   if (isNaN(partConcurrency)) {
+                     throw new Error("'part-concurrency' is not a number (NaN).")
+                   }
+                   return partConcurrency;
+                 });
+
+  program.option("--verify-integrity",
+                 "Verifies that each downloaded object matches what S3 stored (MD5 of single part ETags or the "
+                   + "object's full object checksum, and the size) before moving it to its final destination. "
+                   + "Downloads that do not match are discarded and retried.",
+                 false);
+
+  program.option("--preserve-last-modified",
+                 "Sets the mtime of each written file to the S3 object's LastModified rather than the time it was "
+                   + "written, so that other tools do not treat every write as a change.",
+                 false);
+
   /*
   *
   * SYNC OPTIONS
@@ -171,6 +374,61 @@ export default function cli() {
                  }),
                  0);
 
+  program.option("--max-delete-percent <percent>",
+                 "Aborts the removals of a synchronization if the entries that would be removed make up more than "
+                   + "this percentage (0-100) of the local directory's entries. Only used with 'remove'.",
+                 (value, previous) => {
+                   const maxDeletePercent = Number.parseFloat(value);
+                   if (isNaN(maxDeletePercent)) {
+                     throw new Error("'max-delete-percent' argument is not a number (NaN).");
+                   }
+                   return maxDeletePercent;
+                 });
+
+  program.option("--max-delete-count <count>",
+                 "Aborts the removals of a synchronization if more than this number of local entries would be "
+                   + "removed. Only used with 'remove'.",
+                 (value, previous) => {
+                   const maxDeleteCount = Number.parseInt(value, 10);
+                   if (isNaN(maxDeleteCount)) {
+                     throw new Error("'max-delete-count' argument is not a number (NaN).");
+                   }
+                   return maxDeleteCount;
+                 });
+
+  program.option("--max-delete-blocks-downloads",
+                 "When a removal threshold ('max-delete-percent' or 'max-delete-count') is exceeded, skip the "
+                   + "downloads of the synchronization as well. By default the downloads still go ahead.",
+                 false);
+
+  program.option("--dry-run",
+                 "Lists the bucket and the local directory and prints the actions that a synchronization would "
+                   + "perform (download, update, unlink, rmdir) without performing them. The SNS server is not "
+                   + "started and the program exits after the plan is printed.",
+                 false);
+
+  program.option("--once",
+                 "Performs a single synchronization, waits for every download and removal to complete and prints "
+                   + "a summary. The SNS server and SQS poller are not started. Exits with 0 on success, 1 if the "
+                   + "synchronization could not be completed, 2 if some operations failed, 3 if the bucket could not "
+                   + "be accessed and 4 if the options are invalid.",
+                 false);
+
+  program.option("--plan-format <format>",
+                 "The format the plan is printed in when 'dry-run' is provided (and the summary when 'once' is "
+                   + "provided). Can be 'text' or 'json'. "
+                   + "Defaults to 'text'.",
+                 (value, previous) => {
+                   switch (value.toLowerCase()) {
+                     case "text":
+                     case "json":
+                       return value.toLowerCase();
+                     default:
+                       throw new Error("Unrecognized plan format. Can only be 'text' or 'json'.");
+                   }
+                 },
+                 "text");
+
   /*
   *
   * SNS SERVER OPTIONS
@@ -217,6 +475,97 @@ export default function cli() {
                  "Specifies that SNS messages should NOT be validated (checking the signature). By default message validation is used, but specifying this option will override this behavior to avoid validation.",
                  false);
 
+  program.option("--ack-after-completion",
+                 "Responds to each SNS notification only once its objects have been written or removed. A "
+                   + "notification that fails (or is not handled within 'ack-timeout') is responded to with a 500, "
+                   + "so that SNS redelivers it. By default the notification is responded to as soon as it is received.",
+                 false);
+
+  program.option("--ack-timeout <milliseconds>",
+                 "How long to wait for a notification to be handled when 'ack-after-completion' is provided. "
+                   + "Defaults to 10000.",
+                 (value, previous) => {
+                   const ackTimeout = Number.parseInt(value, 10);
+                   if (isNaN(ackTimeout)) {
+                     throw new Error("'ack-timeout' argument is not a number (NaN).")
+                   }
+                   return ackTimeout;
+                 });
+
+  program.option("--message-dedupe-window <milliseconds>",
+                 "How long the MessageIds of the received SNS notifications are remembered, so that notifications "
+                   + "SNS redelivers within this time are not handled again. 0 disables this. Defaults to 300000.",
+                 (value, previous) => {
+                   const messageDedupeWindow = Number.parseInt(value, 10);
+                   if (isNaN(messageDedupeWindow)) {
+                     throw new Error("'message-dedupe-window' argument is not a number (NaN).")
+                   }
+                   return messageDedupeWindow;
+                 });
+
+  program.option("--message-dedupe-max-size <count>",
+                 "The maximum number of MessageIds that are remembered. Defaults to 10000.",
+                 (value, previous) => {
+                   const messageDedupeMaxSize = Number.parseInt(value, 10);
+                   if (isNaN(messageDedupeMaxSize)) {
+                     throw new Error("'message-dedupe-max-size' argument is not a number (NaN).")
+                   }
+                   return messageDedupeMaxSize;
+                 });
+
+  /*
+  *
+  * SQS POLLER OPTIONS
+  *
+  * */
+
+  program.option("--sqs-queue-url <url>",
+                 "The URL of an SQS queue to long poll for the bucket's events, as an alternative to the HTTP/S "
+                   + "SNS server (e.g., when the host cannot receive HTTP requests). The queue may be subscribed to "
+                   + "the bucket's SNS topic or receive the bucket's events directly. A message is deleted once its "
+                   + "objects have been written or removed.");
+
+  program.option("--sqs-wait-time-seconds <seconds>",
+                 "How long each receive request waits for messages (0 to 20). Defaults to 20.",
+                 (value, previous) => {
+                   const waitTimeSeconds = Number.parseInt(value, 10);
+                   if (isNaN(waitTimeSeconds)) {
+                     throw new Error("'sqs-wait-time-seconds' argument is not a number (NaN).")
+                   }
+                   return waitTimeSeconds;
+                 });
+
+  program.option("--sqs-max-messages <count>",
+                 "The maximum number of messages received by each request (1 to 10). Defaults to 10.",
+                 (value, previous) => {
+                   const maxMessages = Number.parseInt(value, 10);
+                   if (isNaN(maxMessages)) {
+                     throw new Error("'sqs-max-messages' argument is not a number (NaN).")
+                   }
+                   return maxMessages;
+                 });
+
+  program.option("--sqs-visibility-timeout <seconds>",
+                 "The visibility timeout of the received messages. Messages that have not been handled within this "
+                   + "time are received again. Defaults to the queue's visibility timeout.",
+                 (value, previous) => {
+                   const visibilityTimeout = Number.parseInt(value, 10);
+                   if (isNaN(visibilityTimeout)) {
+                     throw new Error("'sqs-visibility-timeout' argument is not a number (NaN).")
+                   }
+                   return visibilityTimeout;
+                 });
+
+  program.option("--sqs-max-in-flight-messages <count>",
+                 "The maximum number of received messages that are being handled at a time. Defaults to 100.",
+                 (value, previous) => {
+                   const maxInFlightMessages = Number.parseInt(value, 10);
+                   if (isNaN(maxInFlightMessages)) {
+                     throw new Error("'sqs-max-in-flight-messages' argument is not a number (NaN).")
+                   }
+                   return maxInFlightMessages;
+                 });
+
   // retrieves the different log levels for the CLI information.
   let logLevels = "";
   for (let key in LogLevel) {
@@ -228,12 +577,90 @@ export default function cli() {
 
   program.option("--log <loglevel>",
                  "Sets the amount of information that is logged when operations are performed. "
-                   + "Possible values: " + logLevels + ".", "WARN");
+                   + "Possible values: " + logLevels + ".", "INFO");
+
+  program.option("--log-format <format>",
+                 "Logs the messages as 'text' or as 'json' (one object per line with the timestamp, level, "
+                   + "component, bucket, key, local path, operation and duration of each message). "
+                   + "Defaults to 'text'.",
+                 (value, previous) => {
+                   switch (value.toLowerCase()) {
+                     case "text":
+                     case "json":
+                       return value.toLowerCase();
+                     default:
+                       throw new Error("Unrecognized log format. Can only be 'text' or 'json'.");
+                   }
+                 },
+                 "text");
+
+  /*
+  *
+  * COMMANDS
+  *
+  * */
+
+  program.action(() => {
+    command = "run";
+  });
+
+  program.command("verify")
+         .description("Compares the local directory with the S3 bucket without modifying anything and reports "
+                        + "missing files, extra files and size (and optionally content) mismatches. Exits with a "
+                        + "non-zero code if the local directory has drifted from the bucket.")
+         .option("--hashes",
+                 "Also compares the content of files that have the same size as their S3 object (MD5 of single "
+                   + "part ETags or the object's full object checksum). Reads every file, so it is much slower.",
+                 false)
+         .option("--format <format>",
+                 "The format the report is printed in. Can be 'text' or 'json'. Defaults to 'text'.",
+                 (value, previous) => {
+                   switch (value.toLowerCase()) {
+                     case "text":
+                     case "json":
+                       return value.toLowerCase();
+                     default:
+                       throw new Error("Unrecognized report format. Can only be 'text' or 'json'.");
+                   }
+                 },
+                 "text")
+         .action((opts) => {
+           command = "verify";
+           commandOptions = {verifyHashes: opts.hashes, reportFormat: opts.format};
+         });
+
+  program.command("journal")
+         .description("Prints the notifications in the event journal (in 'state-dir') that have not been handled. "
+                        + "Should not be run while the program is running with the same 'state-dir'.")
+         .option("--compact",
+                 "Rewrites the journal with only the notifications that have not been handled.",
+                 false)
+         .option("--format <format>",
+                 "The format the notifications are printed in. Can be 'text' or 'json'. Defaults to 'text'.",
+                 (value, previous) => {
+                   switch (value.toLowerCase()) {
+                     case "text":
+                     case "json":
+                       return value.toLowerCase();
+                     default:
+                       throw new Error("Unrecognized format. Can only be 'text' or 'json'.");
+                   }
+                 },
+                 "text")
+         .action((opts) => {
+           command = "journal";
+           commandOptions = {compactJournal: opts.compact, reportFormat: opts.format};
+         });
 
   program.parse(process.argv);
 
-  let cliOptions = program.opts() as CliOptions;
+  // each '--mapping' is one of the mappings
+  const {mapping, ...programOptions} = program.opts();
+  let cliOptions = {...programOptions, mappings: mapping, ...commandOptions, command} as CliOptions;
 
+  if (cliOptions.logFormat) {
+    setLogFormat(cliOptions.logFormat);
+  }
   setLogLevelFromString(cliOptions.log as string);
   // cliOptions.httpsCertPath = (cliOptions as any).cert;
   // cliOptions.httpsCertKeyPath = (cliOptions as any).certKey
@@ -0,0 +1,159 @@
+import { S3Client } from "@aws-sdk/client-s3";
+import * as path from "path";
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { createComponentLog, LogLevel } from "./logger";
+import { headS3Object } from "./utils/s3Utils";
+
+const log = createComponentLog("fs");
+
+/**
+ * Tracks a download that has not completed yet, so that it can be resumed from
+ * the data that has already been written to its temporary file (e.g., after the
+ * process was killed mid-download).
+ */
+export interface DownloadRecord {
+  Bucket: string
+  Key: string
+  /**
+   * ETag of the object being downloaded (without quotes). The temporary file's
+   * data is only used if the object still has this ETag.
+   */
+  ETag: string
+  /**
+   * The temporary file the object is being written to.
+   */
+  tmpFilePath: string
+  /**
+   * Set when the object is downloaded as byte ranges. The completed parts are
+   * only valid for the same part size.
+   */
+  partSize?: number
+  /**
+   * Indexes of the byte ranges (of partSize) that have been completely written.
+   */
+  completedParts?: number[]
+}
+
+interface CleanUpStaleDownloadsOptions {
+  /**
+   * The directory where the download records are kept.
+   */
+  stateDir: string
+  /**
+   * Used to check whether the object of a download record has changed or been removed.
+   */
+  s3Client: S3Client
+}
+
+/**
+ * S3 ETags are quoted when returned from the API (e.g., listing, GetObject), but
+ * are not quoted in event notifications. The quotes are removed so they can be
+ * compared.
+ */
+export function normalizeETag(eTag: string): string {
+  return eTag.replace(/"/g, "");
+}
+
+function getDownloadRecordsDir(stateDir: string): string {
+  return path.resolve(stateDir, "downloads");
+}
+
+/*
+* Keys may contain characters that cannot be used in file names (and may be too
+* long), so the record's file name is a hash of the bucket and key.
+* */
+function getDownloadRecordPath(stateDir: string, Bucket: string, Key: string): string {
+  const hash = createHash("sha1").update(Bucket + "\n" + Key).digest("hex");
+  return path.resolve(getDownloadRecordsDir(stateDir), hash + ".json");
+}
+
+/**
+ * Retrieves the record of the download in progress for the key. Resolves to
+ * undefined if there is no record (or it could not be read).
+ */
+export function readDownloadRecord(stateDir: string, Bucket: string, Key: string): Promise<DownloadRecord | undefined> {
+  return readDownloadRecordFile(getDownloadRecordPath(stateDir, Bucket, Key))
+    .then(record => record && record.Bucket === Bucket && record.Key === Key ? record : undefined);
+}
+
+function readDownloadRecordFile(recordPath: string): Promise<DownloadRecord | undefined> {
+  return fs.promises.readFile(recordPath, "utf8")
+           .then(data => JSON.parse(data) as DownloadRecord)
+           .catch(() => undefined);
+}
+
+/**
+ * Creates or replaces the record of the download in progress for the record's key.
+ */
+export function writeDownloadRecord(stateDir: string, record: DownloadRecord): Promise<void> {
+  const recordPath = getDownloadRecordPath(stateDir, record.Bucket, record.Key);
+  return fs.promises.mkdir(getDownloadRecordsDir(stateDir), {recursive: true})
+           .then(() => fs.promises.writeFile(recordPath, JSON.stringify(record)));
+}
+
+/**
+ * Removes the record of the download for the key (if it exists).
+ */
+export function removeDownloadRecord(stateDir: string, Bucket: string, Key: string): Promise<void> {
+  return fs.promises.unlink(getDownloadRecordPath(stateDir, Bucket, Key))
+           .catch(err => err.code === "ENOENT" ? undefined : Promise.reject(err));
+}
+
+/**
+ * Resolves to the size of the file or undefined if it does not exist.
+ */
+export function getFileSize(filePath: string): Promise<number | undefined> {
+  return fs.promises.stat(filePath)
+           .then(stats => stats.size)
+           .catch(() => undefined);
+}
+
+/**
+ * Removes the temporary files (and records) of the downloads that were in progress
+ * when the program stopped if they cannot be resumed, because their object has
+ * changed (different ETag) or has been removed from the bucket. Records whose
+ * temporary file no longer exists are removed as well.
+ *
+ * This should be run on startup, before any downloads are submitted.
+ *
+ * @return the number of downloads that were removed
+ */
+export function cleanUpStaleDownloads(options: CleanUpStaleDownloadsOptions): Promise<number> {
+  const {stateDir, s3Client} = options;
+  const recordsDir = getDownloadRecordsDir(stateDir);
+  return fs.promises.readdir(recordsDir)
+           .catch(err => err.code === "ENOENT" ? [] as string[] : Promise.reject(err))
+           .then(recordFileNames => Promise.all(
+             recordFileNames
+               .filter(name => name.endsWith(".json"))
+               .map(name => {
+                 const recordPath = path.resolve(recordsDir, name);
+                 return readDownloadRecordFile(recordPath).then(record => {
+                   if (!record) {
+                     // cannot be resumed
+                     return fs.promises.unlink(recordPath).then(() => true);
+                   }
+                   return getFileSize(record.tmpFilePath).then(size => {
+                     if (size === undefined) {
+                       return false;
+                     }
+                     return headS3Object({s3Client, Bucket: record.Bucket, Key: record.Key})
+                       .then(head => head !== undefined && !!head.ETag && normalizeETag(head.ETag) === record.ETag);
+                   }).then(canResume => {
+                     if (canResume) {
+                       return false;
+                     }
+                     log(`Removing stale download of key='${record.Key}' (tmpFilePath='${record.tmpFilePath}'), `
+                           + `because the object has changed or has been removed (or the temporary file is missing).`,
+                         LogLevel.DEBUG);
+                     return fs.promises.unlink(record.tmpFilePath)
+                              .catch(err => err.code === "ENOENT" ? undefined : Promise.reject(err))
+                              .then(() => fs.promises.unlink(recordPath))
+                              .then(() => true);
+                   });
+                 });
+               })
+           ))
+           .then(removed => removed.filter(r => r).length);
+}
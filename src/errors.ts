@@ -8,7 +8,30 @@ const placeholder = {}
  */
 const UNHANDLED_AWS_ERRORS: {[key: string]: any} = {
   "NoSuchBucket": placeholder,
-  "AccessDenied": placeholder
+  "AccessDenied": placeholder,
+  "AllAccessDisabled": placeholder,
+  "InvalidAccessKeyId": placeholder,
+  "SignatureDoesNotMatch": placeholder,
+  "ExpiredToken": placeholder,
+  "CredentialsProviderError": placeholder
+}
+
+/**
+ * Determines whether or not the provided error occurred because the bucket cannot
+ * be accessed with the credentials (e.g., it does not exist, access is denied or
+ * the credentials are invalid). These errors are non-recoverable.
+ * @param error the error that occurred
+ */
+export function isAccessError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+  const {name, code} = error;
+  if ((name && UNHANDLED_AWS_ERRORS[name] !== undefined) || (code && UNHANDLED_AWS_ERRORS[code] !== undefined)) {
+    return true;
+  }
+  const httpStatusCode = error.$metadata?.httpStatusCode;
+  return httpStatusCode === 401 || httpStatusCode === 403;
 }
 
 type AcceptableErrorNames =
@@ -66,6 +89,80 @@ export function isAcceptableError(error: any,
     (code && ACCEPTABLE_ERRORS[code as AcceptableErrorNames]);
 }
 
+type RetryableErrorNames =
+  // AWS (throttling and server errors)
+  "SlowDown" |
+  "ServiceUnavailable" |
+  "InternalError" |
+  "RequestTimeout" |
+  "ThrottlingException" |
+  "TooManyRequestsException" |
+  "TimeoutError" |
+  // NETWORK
+  "ECONNRESET" |
+  "ECONNREFUSED" |
+  "ETIMEDOUT" |
+  "EPIPE" |
+  "EAI_AGAIN" |
+  // FILE SYSTEM
+  "EBUSY" |
+  "EMFILE" |
+  "ENFILE" |
+  "EAGAIN";
+
+/**
+ * These are transient errors (e.g., S3 throttling the requests, the connection
+ * being reset or too many files being open) where the operation is likely to
+ * succeed if it is tried again after a delay.
+ */
+const RETRYABLE_ERRORS: { [key in RetryableErrorNames]: any } = {
+  // AWS
+  "SlowDown": placeholder,
+  "ServiceUnavailable": placeholder,
+  "InternalError": placeholder,
+  "RequestTimeout": placeholder,
+  "ThrottlingException": placeholder,
+  "TooManyRequestsException": placeholder,
+  "TimeoutError": placeholder,
+  // NETWORK
+  "ECONNRESET": placeholder,
+  "ECONNREFUSED": placeholder,
+  "ETIMEDOUT": placeholder,
+  "EPIPE": placeholder,
+  "EAI_AGAIN": placeholder,
+  // FILE SYSTEM
+  "EBUSY": placeholder,
+  "EMFILE": placeholder,
+  "ENFILE": placeholder,
+  "EAGAIN": placeholder,
+};
+
+/*
+* HTTP status codes of S3 responses that are retried regardless of the error's name
+* (e.g., 503 Slow Down).
+* */
+const RETRYABLE_HTTP_STATUS_CODES = [429, 500, 502, 503, 504];
+
+/**
+ * Determines whether or not the provided error is transient, so the operation
+ * that failed should be retried. Acceptable errors are never retryable.
+ * @param error the error that occurred to be checked against the retryable errors
+ */
+export function isRetryableError(error: any): boolean {
+  if (!error) {
+    return false;
+  }
+  const {name, code} = error;
+  if (
+    (name && RETRYABLE_ERRORS[name as RetryableErrorNames] !== undefined)
+    || (code && RETRYABLE_ERRORS[code as RetryableErrorNames] !== undefined)
+  ) {
+    return true;
+  }
+  const httpStatusCode = error.$metadata?.httpStatusCode;
+  return httpStatusCode !== undefined && RETRYABLE_HTTP_STATUS_CODES.indexOf(httpStatusCode) >= 0;
+}
+
 /**
  * Can be passed to catch errors in promise chains.
  */
@@ -81,3 +178,26 @@ export function handleAcceptableError(error: any,
   }
   return Promise.reject(error)
 }
+
+/**
+ * The object was changed (or removed) while it was being downloaded, so the
+ * downloaded data cannot be used.
+ */
+export const OBJECT_CHANGED_ERROR_CODE = "ObjectChanged";
+
+/**
+ * The downloaded data does not match what S3 stored for the object.
+ */
+export const INTEGRITY_MISMATCH_ERROR_CODE = "IntegrityMismatch";
+
+export function createObjectChangedError(Key: string, expectedETag: string | undefined, eTag: string | undefined): Error {
+  const err = new Error(`Key='${Key}' changed (ETag '${expectedETag}' to '${eTag}') while it was being retrieved.`);
+  (err as any).code = OBJECT_CHANGED_ERROR_CODE;
+  return err;
+}
+
+export function createIntegrityMismatchError(Key: string, reason: string): Error {
+  const err = new Error(`Downloaded data of key='${Key}' does not match the object: ${reason}.`);
+  (err as any).code = INTEGRITY_MISMATCH_ERROR_CODE;
+  return err;
+}
@@ -1,6 +1,6 @@
 import { S3Client } from "@aws-sdk/client-s3";
-import AsyncOpQueue, { PromiseTask } from "./AsyncOpQueue";
-import { log, LogLevel } from "./logger";
+import AsyncOpQueue, { PromiseTask, Superseded } from "./AsyncOpQueue";
+import { createComponentLog, LogContext, LogLevel } from "./logger";
 import * as path from "path";
 import * as fs from "fs";
 import { ensurePathEndsWithOsSeparator } from "./utils/utils";
@@ -8,7 +8,112 @@ import { keyIsDirectory } from "./s3ObjectOps";
 import { getRelativePathToRootDir } from "./utils/keyAndPathUtils";
 import { compareStringsUtf8BinaryOrder } from "./utils/stringUtils";
 import { Stats } from "fs";
-import { getS3Object } from "./utils/s3Utils";
+import { getS3Object, GetS3ObjectOptions, S3ObjectStreamOutput } from "./utils/s3Utils";
+import {
+  createObjectChangedError,
+  INTEGRITY_MISMATCH_ERROR_CODE,
+  OBJECT_CHANGED_ERROR_CODE
+} from "./errors";
+import { S3ObjectIntegrityInfo, verifyDownloadedObject } from "./integrity";
+import { Checksum, createChecksum } from "./utils/checksums";
+import {
+  DownloadRecord,
+  getFileSize,
+  normalizeETag,
+  readDownloadRecord,
+  removeDownloadRecord,
+  writeDownloadRecord
+} from "./downloadState";
+import { Readable, pipeline, Transform } from "stream";
+import SyncManifest from "./manifest";
+import FileCache, { CachedStats } from "./cache/FileCache";
+import AuditLog, { AuditEntry, AuditOperation, AuditSource } from "./auditLog";
+
+const log = createComponentLog("fs");
+
+/**
+ * Logs (at DEBUG) how long the operation took once it has completed.
+ */
+function withDurationLog<T>(task: PromiseTask<T>, context: LogContext): PromiseTask<T> {
+  return () => {
+    const start = Date.now();
+    return task().then(result => {
+      log(`Completed ${context.operation} of '${context.localPath}'.`, LogLevel.DEBUG,
+          {...context, duration: Date.now() - start});
+      return result;
+    });
+  };
+}
+
+/**
+ * Submits the operation to the queue and records its outcome in the audit log
+ * (when the auditLog and auditSource are provided). Nothing is recorded when the
+ * operation does not run, because it was superseded by a later operation of the
+ * same path. Unless the operation is provided, the path is stat'ed before the
+ * operation runs to tell the creation of the file from an update.
+ *
+ * The runTimeout is passed to the queue (null never expires the operation).
+ */
+function submitAuditedTask(options: CommonFsOptions,
+                           task: PromiseTask<void>,
+                           entry: Pick<AuditEntry, "bucket" | "Key" | "ETag" | "localPath">,
+                           operation: AuditOperation | undefined,
+                           runTimeout: number | null | undefined,
+                           weight: number,
+                           coalesce: false): Promise<void>
+function submitAuditedTask(options: CommonFsOptions,
+                           task: PromiseTask<void>,
+                           entry: Pick<AuditEntry, "bucket" | "Key" | "ETag" | "localPath">,
+                           operation: AuditOperation | undefined,
+                           runTimeout: number | null | undefined,
+                           weight: number,
+                           coalesce: true): Promise<void | Superseded>
+function submitAuditedTask(options: CommonFsOptions,
+                           task: PromiseTask<void>,
+                           entry: Pick<AuditEntry, "bucket" | "Key" | "ETag" | "localPath">,
+                           operation: AuditOperation | undefined,
+                           runTimeout: number | null | undefined,
+                           weight: number,
+                           coalesce: boolean): Promise<void | Superseded> {
+  const {queue, auditLog, auditSource} = options;
+  if (!auditLog || !auditSource) {
+    return queue.submitPromiseTask(entry.localPath, task, runTimeout, weight, coalesce);
+  }
+  let ran = false;
+  let existed: boolean | undefined;
+  const auditedTask = () => {
+    ran = true;
+    // stat'ed once, as an attempt that fails does not write the file
+    const checkExists = operation || existed !== undefined
+      ? Promise.resolve()
+      : fs.promises.stat(entry.localPath).then(() => {
+        existed = true;
+      }, () => {
+        existed = false;
+      });
+    return checkExists.then(task);
+  };
+  const record = (outcome: AuditEntry["outcome"], error?: string) => {
+    if (ran) {
+      auditLog.record({
+                        source: auditSource.type,
+                        MessageId: auditSource.MessageId,
+                        operation: operation || (existed ? "update" : "create"),
+                        ...entry,
+                        outcome,
+                        error
+                      });
+    }
+  };
+  return queue.submitPromiseTask(entry.localPath, auditedTask, runTimeout, weight, coalesce)
+              .then(outcome => {
+                record("success");
+                return outcome;
+              }, err => {
+                record("failure", `${err}`);
+                return Promise.reject(err);
+              });
+}
 
 /**
  * Options for file system operations (e.g., unlink, mkdir) .
@@ -23,6 +128,25 @@ interface CommonFsOptions {
    * the correct write httpPath from the transformed key.
    */
   rootDir: string
+  /**
+   * When provided, the version of each object that is written is recorded and
+   * the entries of removed files/directories are removed.
+   */
+  manifest?: SyncManifest
+  /**
+   * When provided, the stats of each file that is written are cached (by the
+   * file's path) and the entries of removed files/directories are removed.
+   */
+  fileCache?: FileCache
+  /**
+   * When provided (along with the {@link auditSource}), each file or directory
+   * that is written or removed is recorded.
+   */
+  auditLog?: AuditLog
+  /**
+   * What triggered the operation (recorded in the {@link auditLog}).
+   */
+  auditSource?: AuditSource
 }
 
 interface WriteS3ObjectOptions extends CommonFsOptions {
@@ -53,6 +177,445 @@ interface WriteS3ObjectOptions extends CommonFsOptions {
    * and will be used when actually writing the file name.
    */
   transformedKey: string
+  /**
+   * ETag of the S3 object (from the listing or the event). Required, along with
+   * stateDir, for the download to be resumable.
+   */
+  ETag?: string
+  /**
+   * LastModified of the S3 object (from the listing). When this is not provided
+   * the LastModified of the GetObject response is used. Recorded in the manifest.
+   */
+  LastModified?: Date
+  /**
+   * Whether or not to set the written file's mtime to the object's LastModified
+   * (before it is moved to its final location). Otherwise the file's mtime is
+   * when it was written.
+   */
+  preserveLastModified?: boolean
+  /**
+   * Directory where in-progress downloads are recorded so that they can be
+   * resumed. Downloads are not resumable when this is not provided.
+   */
+  stateDir?: string
+  /**
+   * Whether or not to verify that the downloaded data matches the object (see
+   * {@link verifyDownloadedObject}) before it is moved to its final location.
+   * Downloads that do not match are discarded and retried.
+   */
+  verifyIntegrity?: boolean
+  /**
+   * Size of the S3 object (from the listing or the event). When this is not
+   * provided the object is always retrieved with a single request.
+   */
+  Size?: number
+  /**
+   * Objects larger than this (in bytes) are retrieved as concurrent byte ranges.
+   * A value of 0 (or undefined) always retrieves the object with a single request.
+   */
+  largeObjectThreshold?: number
+  /**
+   * The size (in bytes) of each byte range requested for large objects.
+   */
+  partSize?: number
+  /**
+   * The number of byte ranges of a large object that are retrieved concurrently.
+   * The write task takes up this many slots in the queue while it is running.
+   */
+  partConcurrency?: number
+}
+
+/**
+ * The version of the object that was written, from the GetObject response(s)
+ * (or the options when the object was not retrieved).
+ */
+interface WrittenObjectInfo {
+  ETag?: string
+  LastModified?: Date
+}
+
+interface DownloadS3ObjectPartsOptions extends GetS3ObjectOptions {
+  Size: number
+  partSize: number
+  partConcurrency: number
+  /**
+   * Expected ETag of the object. If not provided, the ETag of the first retrieved
+   * part is expected for the remaining parts.
+   */
+  ETag?: string
+  /**
+   * Parts (indexes of partSize) that have already been written to the file and
+   * will not be retrieved.
+   */
+  completedParts?: number[]
+  /**
+   * Called once each part has been written to the file.
+   */
+  onPartComplete?: (part: number) => Promise<void> | void
+}
+
+/**
+ * Pipes the readable into the file. The write stream handles backpressure, so only
+ * a few chunks are held in memory at any time. The returned promise resolves once
+ * the file has been completely written (and closed), or rejects if either stream
+ * errors - in which case both streams are destroyed.
+ *
+ * @param readable the data to write
+ * @param filePath the file to write the data to
+ * @param start position in the (already existing) file to start writing at
+ * @param checksum updated with the data as it is written
+ */
+export function pipeToFile(readable: Readable, filePath: string, start?: number, checksum?: Checksum): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // when writing at a position the file must exist and must not be truncated
+    const writeStreamOptions = start !== undefined ? {flags: "r+", start} : undefined;
+    const onComplete = (err: any) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    };
+    if (checksum) {
+      const checksumTransform = new Transform({
+                                                transform(chunk: Buffer, encoding, callback) {
+                                                  checksum.update(chunk);
+                                                  callback(undefined, chunk);
+                                                }
+                                              });
+      pipeline(readable, checksumTransform, fs.createWriteStream(filePath, writeStreamOptions), onComplete);
+    } else {
+      pipeline(readable, fs.createWriteStream(filePath, writeStreamOptions), onComplete);
+    }
+  });
+}
+
+/**
+ * Random chunk is added to the file name to ensure that concurrent updates
+ * of a file do not conflict - it's possible that multiple SNS events are
+ * received for a single file OR sync and SNS happen at the same time. This
+ * case should be handled by the AsyncOpQueue, but this is just an extra
+ * insurance policy.
+ *
+ * The random chunk is preceded by a marker, so that the temporary files can be
+ * told apart from the mirrored files (see {@link isTmpFileName}).
+ */
+function createTmpFilePath(options: WriteS3ObjectOptions): string {
+  const {rootDir, tmpSuffix, tmpDir, transformedKey} = options;
+  const tmpFileName = transformedKey + TMP_FILE_MARKER + Math.random().toString(36).substr(2) + tmpSuffix;
+  return tmpDir ? path.resolve(tmpDir, tmpFileName) : path.resolve(rootDir, tmpFileName);
+}
+
+const TMP_FILE_MARKER = ".s3-sns-sync-";
+
+/**
+ * Whether the file name is one of a temporary file created by {@link createTmpFilePath}
+ * (i.e., '<name>.s3-sns-sync-<random chunk><tmpSuffix>').
+ */
+export function isTmpFileName(fileName: string, tmpSuffix: string): boolean {
+  if (!fileName.endsWith(tmpSuffix)) {
+    return false;
+  }
+  const name = fileName.substring(0, fileName.length - tmpSuffix.length);
+  const markerIndex = name.lastIndexOf(TMP_FILE_MARKER);
+  return markerIndex > 0 && /^[0-9a-z]+$/.test(name.substring(markerIndex + TMP_FILE_MARKER.length));
+}
+
+/**
+ * Retrieves the S3 object (or the requested range of it) if it is the expected
+ * version (when provided). S3 rejects the request if the object is no longer the
+ * expected version, which is rejected with the object changed error.
+ */
+function getS3ObjectVersion(options: GetS3ObjectOptions, expectedETag?: string): Promise<S3ObjectStreamOutput> {
+  const IfMatch = expectedETag !== undefined ? `"${expectedETag}"` : undefined;
+  return getS3Object({...options, IfMatch})
+    .catch(err => {
+      if (err && (err.name === "PreconditionFailed" || err.$metadata?.httpStatusCode === 412)) {
+        return Promise.reject(createObjectChangedError(options.Key, expectedETag, undefined));
+      }
+      return Promise.reject(err);
+    });
+}
+
+/**
+ * Retrieves the S3 object as byte ranges of partSize, with up to partConcurrency
+ * ranges being retrieved at a time, and writes each range at its position in the
+ * file. Every range must come from the same version of the object (ETag), otherwise
+ * the object was changed while being retrieved and this fails.
+ *
+ * If any range fails the remaining ranges are not requested, the ranges currently
+ * being retrieved are destroyed and the returned promise rejects once they have
+ * all stopped (the file is left for the caller to remove).
+ *
+ * @param options the object to retrieve and how to retrieve it
+ * @param filePath the file to write the object to (will be created/truncated unless
+ *        parts have already been completed)
+ * @return the ETag and LastModified of the parts that were retrieved
+ */
+export function downloadS3ObjectParts(options: DownloadS3ObjectPartsOptions,
+                                      filePath: string): Promise<WrittenObjectInfo> {
+  const {Size, partSize, partConcurrency, completedParts, onPartComplete} = options;
+  const partCount = Math.ceil(Size / partSize);
+  const inProgressBodies: Readable[] = [];
+  const remainingParts: number[] = [];
+  for (let i = 0; i < partCount; i++) {
+    if (!completedParts || completedParts.indexOf(i) < 0) {
+      remainingParts.push(i);
+    }
+  }
+  let expectedETag = options.ETag !== undefined ? normalizeETag(options.ETag) : undefined;
+  let lastModified: Date | undefined;
+  let error: any;
+
+  const downloadRemainingParts = (): Promise<void> => {
+    if (error !== undefined || remainingParts.length === 0) {
+      return Promise.resolve();
+    }
+    const part = remainingParts.shift()!;
+    const start = part * partSize;
+    const end = Math.min(start + partSize, Size) - 1;
+    return getS3ObjectVersion({...options, Range: `bytes=${start}-${end}`}, expectedETag)
+      .then(s3Object => {
+        const body = s3Object.Body;
+        if (error !== undefined) {
+          body.destroy();
+          return;
+        }
+        if (s3Object.ContentLength !== undefined && s3Object.ContentLength !== end - start + 1) {
+          body.destroy();
+          return Promise.reject(new Error(`Received ${s3Object.ContentLength} bytes for range 'bytes=${start}-${end}' `
+                                            + `of key='${options.Key}', but expected ${end - start + 1}.`));
+        }
+        const eTag = s3Object.ETag !== undefined ? normalizeETag(s3Object.ETag) : undefined;
+        if (expectedETag === undefined) {
+          expectedETag = eTag;
+        } else if (eTag !== expectedETag) {
+          body.destroy();
+          return Promise.reject(createObjectChangedError(options.Key, expectedETag, eTag));
+        }
+        lastModified = s3Object.LastModified || lastModified;
+        inProgressBodies.push(body);
+        return pipeToFile(body, filePath, start)
+          .then(() => {
+            inProgressBodies.splice(inProgressBodies.indexOf(body), 1);
+            if (onPartComplete) {
+              return onPartComplete(part);
+            }
+          });
+      })
+      .then(downloadRemainingParts);
+  };
+
+  // the file must exist before the parts can be written at their positions
+  const createFile = completedParts && completedParts.length > 0
+    ? Promise.resolve()
+    : fs.promises.writeFile(filePath, "");
+  return createFile.then(() => {
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(partConcurrency, remainingParts.length); i++) {
+      workers.push(downloadRemainingParts().catch(err => {
+        if (error === undefined) {
+          error = err;
+          // stop the other parts, their workers will then complete with their own errors
+          inProgressBodies.forEach(body => body.destroy());
+        }
+      }));
+    }
+    return Promise.all(workers).then(() => {
+      if (error !== undefined) {
+        return Promise.reject(error);
+      }
+      return {ETag: expectedETag, LastModified: lastModified};
+    });
+  });
+}
+
+/*
+* Number of times a download is retried when it was discarded, because the downloaded
+* data did not match the object. A download that failed because the object changed is
+* not retried: it is pinned to the ETag it started with, which no longer matches.
+* */
+const DISCARDED_DOWNLOAD_RETRIES = 2;
+
+function retryDiscardedDownload(Key: string, download: () => Promise<void>, retries: number): Promise<void> {
+  return download().catch(err => {
+    if (retries > 0 && err.code === INTEGRITY_MISMATCH_ERROR_CODE) {
+      log(`Retrying the download of key='${Key}'. ${err.message}`, LogLevel.WARN);
+      return retryDiscardedDownload(Key, download, retries - 1);
+    }
+    return Promise.reject(err);
+  });
+}
+
+/*
+* The bucket and key ('<Bucket>\n<Key>') of the tracked downloads that are running.
+* Only one download at a time may use (and update) the record and temporary file of
+* a key, e.g., when multiple mappings mirror the same bucket and key.
+* */
+const claimedDownloads = new Set<string>();
+
+function getDownloadClaim(Bucket: string, Key: string): string {
+  return Bucket + "\n" + Key;
+}
+
+/**
+ * The temporary file that an object is written to and, when the download is
+ * tracked, where it resumes from.
+ */
+interface TrackedDownload {
+  tmpFilePath: string
+  // number of bytes already written to the temporary file (single request downloads)
+  offset: number
+  // the byte ranges already written to the temporary file (ranged downloads)
+  completedParts: number[]
+  // undefined when the download is not tracked (no stateDir or ETag, or the key is claimed)
+  record?: DownloadRecord
+}
+
+/**
+ * Whether the response is the part of the object from the offset to its end, i.e.,
+ * a partial content (206) response of the range 'bytes=<offset>-'.
+ */
+function isRangeFromOffset(s3Object: S3ObjectStreamOutput, offset: number): boolean {
+  const {ContentRange} = s3Object;
+  const match = ContentRange && /^bytes (\d+)-(\d+)\/(\d+)$/.exec(ContentRange);
+  return s3Object.$metadata.httpStatusCode === 206
+         && !!match
+         && Number(match[1]) === offset
+         && Number(match[2]) === Number(match[3]) - 1;
+}
+
+/**
+ * When the stateDir and ETag are provided, the download is tracked so that it can
+ * be resumed if it does not complete (e.g., the process is killed). If a download
+ * of the same version (ETag) of the object was already started (and for ranged
+ * downloads, with the same part size) it is resumed from its temporary file.
+ * Otherwise, any previous temporary file for the key is removed and the download
+ * starts over.
+ *
+ * A tracked download claims its key until it is completed (see {@link completeDownload}).
+ * While the key is claimed, other downloads of it are not tracked and are written to
+ * their own temporary file.
+ */
+function startTrackedDownload(options: WriteS3ObjectOptions, partSize?: number): Promise<TrackedDownload> {
+  const {stateDir, Bucket, Key} = options;
+  const claim = getDownloadClaim(Bucket, Key);
+  if (!stateDir || !options.ETag || claimedDownloads.has(claim)) {
+    return Promise.resolve({tmpFilePath: createTmpFilePath(options), offset: 0, completedParts: []});
+  }
+  claimedDownloads.add(claim);
+  const ETag = normalizeETag(options.ETag);
+  return readDownloadRecord(stateDir, Bucket, Key).then(record => {
+    if (record && record.ETag === ETag && record.partSize === partSize) {
+      return getFileSize(record.tmpFilePath).then(size => {
+        if (size !== undefined) {
+          log(`Resuming download of key='${Key}' from tmpFilePath='${record.tmpFilePath}'.`, LogLevel.DEBUG);
+          return {
+            tmpFilePath: record.tmpFilePath,
+            offset: size,
+            completedParts: record.completedParts || [],
+            record
+          };
+        }
+        return undefined;
+      });
+    }
+    if (record) {
+      // object has changed since the download was started
+      return fs.promises.unlink(record.tmpFilePath)
+               .catch(() => {/* may not have been created */})
+               .then(() => undefined);
+    }
+  }).then(resumedDownload => {
+    if (resumedDownload) {
+      return resumedDownload;
+    }
+    const record: DownloadRecord = {Bucket, Key, ETag, tmpFilePath: createTmpFilePath(options)};
+    if (partSize !== undefined) {
+      record.partSize = partSize;
+      record.completedParts = [];
+    }
+    return writeDownloadRecord(stateDir, record)
+      .then(() => ({tmpFilePath: record.tmpFilePath, offset: 0, completedParts: [], record}));
+  }).catch(err => {
+    claimedDownloads.delete(claim);
+    return Promise.reject(err);
+  });
+}
+
+/**
+ * Moves the completely written temporary file to its final location (setting its
+ * mtime when preserveLastModified is true and recording the version that was
+ * written in the manifest), or when the download failed removes the temporary
+ * file. The temporary file of a tracked download is kept when it failed, so that
+ * it can be resumed, unless the object has changed, the data did not match the
+ * object (or the requested range was invalid) as the data cannot be used. The
+ * claim of a tracked download is released once it has completed.
+ */
+function completeDownload(options: WriteS3ObjectOptions,
+                          writeFilePath: string,
+                          download: TrackedDownload,
+                          downloadPromise: Promise<WrittenObjectInfo>): Promise<void> {
+  const {stateDir, Bucket, Key, manifest, fileCache, preserveLastModified} = options;
+  const {tmpFilePath, record} = download;
+  return downloadPromise
+    .then(written => {
+      const eTag = written.ETag || options.ETag;
+      const lastModified = options.LastModified || written.LastModified;
+      // the mtime is set before the rename, so the file never appears with a different mtime
+      const setMtime = preserveLastModified && lastModified
+        ? fs.promises.utimes(tmpFilePath, new Date(), lastModified)
+        : Promise.resolve();
+      return setMtime.then(() => fs.promises.rename(tmpFilePath, writeFilePath)).then(() => {
+        if ((manifest || fileCache) && eTag) {
+          return fs.promises.stat(writeFilePath).then(stats => {
+            if (manifest) {
+              manifest.set(options.transformedKey, {
+                Key,
+                ETag: eTag,
+                Size: stats.size,
+                LastModified: lastModified && lastModified.getTime()
+              });
+            }
+            if (fileCache) {
+              fileCache.addFile(writeFilePath, normalizeETag(eTag), stats);
+            }
+          });
+        }
+      });
+    })
+    .then(() => {
+      if (record) {
+        return removeDownloadRecord(stateDir!, Bucket, Key);
+      }
+    })
+    .catch(err => {
+      log(`Key='${Key}', filePath='${writeFilePath}', tmpFilePath='${tmpFilePath}'.\n${err}`, LogLevel.ERROR,
+          {bucket: Bucket, key: Key, localPath: writeFilePath, operation: "download"})
+      if (
+        record
+        && err.code !== OBJECT_CHANGED_ERROR_CODE
+        && err.code !== INTEGRITY_MISMATCH_ERROR_CODE
+        && err.$metadata?.httpStatusCode !== 416
+      ) {
+        return Promise.reject(err);
+      }
+      // do not leave a partially written temporary file behind
+      return fs.promises.unlink(tmpFilePath)
+               .catch(() => {/* may not have been created */})
+               .then(() => record ? removeDownloadRecord(stateDir!, Bucket, Key) : undefined)
+               .then(() => Promise.reject(err));
+    })
+    .then(() => {
+      if (record) {
+        claimedDownloads.delete(getDownloadClaim(Bucket, Key));
+      }
+    }, err => {
+      if (record) {
+        claimedDownloads.delete(getDownloadClaim(Bucket, Key));
+      }
+      return Promise.reject(err);
+    });
 }
 
 /**
@@ -64,10 +627,32 @@ interface WriteS3ObjectOptions extends CommonFsOptions {
  * the file appear atomic. This way if the user is watching the directory
  * or file for changes it will be more likely to only pick up once change
  * rather than multiple with the create/write operation on the file.
+ *
+ * When the stateDir and ETag are provided, downloads that do not complete are
+ * resumed from their temporary file by the next write of the same version of
+ * the object (see {@link cleanUpStaleDownloads} for removing the temporary files
+ * that cannot be resumed).
+ *
+ * @return a promise that settles once the object has been written (or the write
+ *         has failed). It resolves with {@link SUPERSEDED} when a later write of
+ *         the file replaced it before it was run.
  */
-export function writeS3Object(options: WriteS3ObjectOptions): void {
+export function writeS3Object(options: WriteS3ObjectOptions): Promise<void | Superseded> {
 
-  const { queue, Bucket, Key, rootDir, tmpSuffix, tmpDir, transformedKey } = options;
+  const {
+    queue,
+    Bucket,
+    Key,
+    rootDir,
+    tmpDir,
+    transformedKey,
+    stateDir,
+    Size,
+    largeObjectThreshold,
+    partSize,
+    partConcurrency,
+    verifyIntegrity
+  } = options;
 
   /*
   * writeFilePath is the full write httpPath of the s3Object. This is used
@@ -75,44 +660,132 @@ export function writeS3Object(options: WriteS3ObjectOptions): void {
   * same time as the AsyncOpQueue key.
   * */
   const writeFilePath = path.resolve(rootDir, transformedKey);
+  /*
+  * Ensure directory exists where file will be written. Do this first,
+  * because the tmpFilePath may be here as well if tmpDir is undefined.
+  * */
+  const mkdirParentDir = () => fs.promises.mkdir(path.parse(writeFilePath).dir, {recursive: true});
+  const verifyDownload = (tmpFilePath: string, response?: S3ObjectIntegrityInfo, md5?: Checksum) => (
+    verifyIntegrity
+      ? verifyDownloadedObject({...options, filePath: tmpFilePath, response, md5})
+      : Promise.resolve()
+  );
 
   let queueOp: PromiseTask<any>
+  // number of queue slots the operation takes up while running
+  let weight = 1;
+  const context: LogContext = {bucket: Bucket, key: Key, localPath: writeFilePath, operation: "download"};
 
   if (keyIsDirectory(transformedKey)) {
     // The Key is considered a directory. Make the directory.
+    context.operation = "mkdir";
     queueOp = () => {
-      log(`Creating directory '${writeFilePath}'.`, LogLevel.DEBUG);
+      log(`Creating directory '${writeFilePath}'.`, LogLevel.DEBUG, context);
       return fs.promises.mkdir(writeFilePath, {recursive: true});
     }
+  } else if (
+    Size !== undefined && largeObjectThreshold && Size > largeObjectThreshold && partSize && partConcurrency
+  ) {
+    weight = Math.min(partConcurrency, Math.ceil(Size / partSize));
+    queueOp = () => retryDiscardedDownload(Key, () => {
+      log(`Sending ranged requests (partSize=${partSize}, partConcurrency=${partConcurrency}) for key='${Key}' `
+            + `(size=${Size}) to bucket='${Bucket}'. final destination='${writeFilePath}'.`, LogLevel.DEBUG, context);
+      return mkdirParentDir()
+        .then(() => startTrackedDownload(options, partSize))
+        .then(download => {
+          const {record, completedParts} = download;
+          // the completed parts are recorded one at a time so that the writes do not overlap
+          let recordWrite = Promise.resolve();
+          const onPartComplete = record && ((part: number) => {
+            completedParts.push(part);
+            recordWrite = recordWrite.then(() => writeDownloadRecord(stateDir!, {...record, completedParts}));
+            return recordWrite;
+          });
+          const partsDownload = downloadS3ObjectParts({
+                                                        s3Client: options.s3Client,
+                                                        Bucket,
+                                                        Key,
+                                                        // the listed (or notified) version, tracked or not
+                                                        ETag: options.ETag,
+                                                        Size,
+                                                        partSize,
+                                                        partConcurrency,
+                                                        completedParts: completedParts.slice(),
+                                                        onPartComplete
+                                                      }, download.tmpFilePath)
+            .then(written => verifyDownload(download.tmpFilePath).then(() => written));
+          return completeDownload(options, writeFilePath, download, partsDownload);
+        });
+    }, DISCARDED_DOWNLOAD_RETRIES);
   } else {
-    queueOp = () => {
-      log(`Sending request for key='${Key}' to bucket='${Bucket}'. ${tmpDir ? `Writing to tmpDir='${tmpDir}'` : ""} final destination='${writeFilePath}'.`, LogLevel.DEBUG);
-      return getS3Object(options).then(s3Data => {
-        /*
-        * Random chunk is added to the file name to ensure that concurrent updates
-        * of a file do not conflict - it's possible that multiple SNS events are
-        * received for a single file OR sync and SNS happen at the same time. This
-        * case should be handled by the AsyncOpQueue, but this is just an extra
-        * insurance policy.
-        * */
-        const tmpFileName = transformedKey + "." + Math.random().toString(36).substr(2) + tmpSuffix;
-        const tmpFilePath = tmpDir ? path.resolve(tmpDir, tmpFileName) : path.resolve(rootDir, tmpFileName);
-        const parsedFilePath = path.parse(writeFilePath);
-        /*
-        * Ensure directory exists where file will be written. Do this first,
-        * because the tmpFilePath may be here as well if tmpDir is undefined.
-        * */
-        return fs.promises.mkdir(parsedFilePath.dir, {recursive: true})
-                 .then(() => fs.promises.writeFile(tmpFilePath, s3Data))
-                 .then(() => fs.promises.rename(tmpFilePath, writeFilePath))
-                 .catch(err => {
-                   log(`Key='${Key}', filePath='${writeFilePath}', tmpFilePath='${tmpFilePath}'.\n${err}`, LogLevel.ERROR)
-                   return Promise.reject(err);
-                 })
-      })
-    }
+    queueOp = () => retryDiscardedDownload(Key, () => {
+      log(`Sending request for key='${Key}' to bucket='${Bucket}'. ${tmpDir ? `Writing to tmpDir='${tmpDir}'` : ""} final destination='${writeFilePath}'.`, LogLevel.DEBUG, context);
+      return mkdirParentDir()
+        .then(() => startTrackedDownload(options))
+        .then(download => {
+          const {tmpFilePath, offset, record} = download;
+          if (offset > 0 && offset === Size) {
+            // was completely written, but was not moved
+            return completeDownload(options, writeFilePath, download,
+                                    verifyDownload(tmpFilePath).then(() => ({ETag: record!.ETag})));
+          }
+          const resume = offset > 0 && (Size === undefined || offset < Size);
+          /*
+          * The object's data is streamed into the temporary file and it is only
+          * renamed (moved) once the stream has finished, so the final file still
+          * appears atomically. When resuming, only the remaining data is requested
+          * and appended to the temporary file.
+          *
+          * The MD5 is computed while the whole object is retrieved, so that it does
+          * not need to be read again to be verified.
+          * */
+          const writeObject = (s3Object: S3ObjectStreamOutput, appendOffset?: number) => {
+            const md5 = verifyIntegrity && appendOffset === undefined ? createChecksum("MD5") : undefined;
+            return pipeToFile(s3Object.Body, tmpFilePath, appendOffset, md5)
+              .then(() => verifyDownload(tmpFilePath, appendOffset === undefined ? s3Object : undefined, md5))
+              .then(() => ({ETag: s3Object.ETag, LastModified: s3Object.LastModified}));
+          };
+          const objectDownload = getS3Object({...options, Range: resume ? `bytes=${offset}-` : undefined})
+            .then(s3Object => {
+              if (!resume) {
+                return writeObject(s3Object);
+              }
+              if (!s3Object.ETag || normalizeETag(s3Object.ETag) !== record!.ETag) {
+                s3Object.Body.destroy();
+                return Promise.reject(createObjectChangedError(Key, record!.ETag, s3Object.ETag));
+              }
+              if (isRangeFromOffset(s3Object, offset)) {
+                return writeObject(s3Object, offset);
+              }
+              // the range was not applied, so the data is not the remainder of the object
+              log(`Did not receive the requested range (httpStatusCode=${s3Object.$metadata.httpStatusCode}, `
+                    + `ContentRange='${s3Object.ContentRange}') for key='${Key}'. Restarting the download.`,
+                  LogLevel.WARN, context);
+              s3Object.Body.destroy();
+              return getS3ObjectVersion({...options, Range: undefined}, record!.ETag).then(s3Object => writeObject(s3Object));
+            });
+          return completeDownload(options, writeFilePath, download, objectDownload);
+        });
+    }, DISCARDED_DOWNLOAD_RETRIES);
   }
-  queue.submitPromiseTask(writeFilePath, queueOp);
+  /*
+  * Only the latest queued write (or unlink) of the file is run. The write never
+  * expires: an expired download would stop counting toward the maxConcurrency
+  * while it is still running and another write of the file could start before it
+  * completes.
+  * */
+  return submitAuditedTask(options,
+                           withDurationLog(queueOp, context),
+                           {
+                             bucket: Bucket,
+                             Key,
+                             ETag: options.ETag && normalizeETag(options.ETag),
+                             localPath: writeFilePath
+                           },
+                           undefined,
+                           null,
+                           weight,
+                           true);
 }
 
 
@@ -126,34 +799,50 @@ interface UnlinkFileOptions extends CommonFsOptions {
    * if it is empty.
    */
   remove: boolean | undefined
+  /**
+   * The bucket and key of the removed object, if known (recorded in the
+   * {@link auditLog}).
+   */
+  Bucket?: string
+  Key?: string
 }
 
 /**
  * Handles removing the provided file and the parent directory if the directory
  * becomes empty. This does not remove the root directory.
  * @param options
+ * @return a promise that settles once the file has been removed (or the removal
+ *         has failed). It resolves with {@link SUPERSEDED} when a later write of
+ *         the file replaced it before it was run.
  */
-export function unlinkFile(options: UnlinkFileOptions): void {
-  const {queue, rootDir, relativeFilePath, remove} = options;
+export function unlinkFile(options: UnlinkFileOptions): Promise<void | Superseded> {
+  const {rootDir, relativeFilePath, remove, manifest, fileCache, Bucket, Key} = options;
   const removeFilePath = path.resolve(rootDir, relativeFilePath);
-  queue.submitPromiseTask(removeFilePath, () => {
+  const context: LogContext = {bucket: Bucket, key: Key, localPath: removeFilePath, operation: "unlink"};
+  return submitAuditedTask(options, withDurationLog(() => {
     const parsedPath = path.parse(removeFilePath);
-    log(`Removing file '${removeFilePath}'.`, LogLevel.DEBUG);
+    log(`Removing file '${removeFilePath}'.`, LogLevel.DEBUG, context);
     return fs.promises.unlink(removeFilePath).then(() => {
+      if (manifest) {
+        manifest.remove(relativeFilePath);
+      }
+      if (fileCache) {
+        fileCache.removeFromCache(removeFilePath);
+      }
       if (remove && parsedPath.dir !== rootDir) {
         return fs.promises.readdir(parsedPath.dir).then(entries => {
           if (entries.length === 0) {
-            log(`Removing directory '${parsedPath.dir}' because it is empty.`, LogLevel.DEBUG);
+            log(`Removing directory '${parsedPath.dir}' because it is empty.`, LogLevel.DEBUG, context);
             return fs.promises.rmdir(parsedPath.dir);
           }
         })
       }
     }).catch(err => {
       // already unlinked?
-      log(err, LogLevel.ERROR)
+      log(err, LogLevel.ERROR, context)
       return Promise.reject(err);
     })
-  })
+  }, context), {bucket: Bucket, Key, localPath: removeFilePath}, "remove", undefined, 1, true)
 }
 
 interface MkdirOptions extends CommonFsOptions {
@@ -174,40 +863,58 @@ export function mkdirRecursive(options: MkdirOptions): void {
 }
 
 interface RmdirOptions extends MkdirOptions {
+  /**
+   * The bucket that is mirrored (recorded in the {@link auditLog}).
+   */
+  Bucket?: string
 }
 
 const windowsRootRegex = new RegExp("^[A-Za-z]:\\\\$")
 
 /**
  * This will remove the directory and all of its entries.
+ *
+ * @return a promise that settles once the directory has been removed (or the
+ *         removal has failed). It resolves immediately for the root directory,
+ *         which is never removed.
  */
-export function rmdirRecursive(options: RmdirOptions): void {
-  const {queue, rootDir, relativeDirPath} = options;
+export function rmdirRecursive(options: RmdirOptions): Promise<void> {
+  const {rootDir, relativeDirPath, manifest, fileCache, Bucket} = options;
   // make sure they both end with the OS separator so that they can be compared for equality
   if (ensurePathEndsWithOsSeparator(relativeDirPath) !== ensurePathEndsWithOsSeparator(rootDir)) {
     const rmDirPath = path.resolve(rootDir, relativeDirPath);
     if (rmDirPath === "/" || rmDirPath.match(windowsRootRegex) !== null) {
       throw new Error("The root directory should never be removed. Was = '" + rmDirPath + "'.");
     }
-    queue.submitPromiseTask(rmDirPath, () => {
-      log(`Recursively removing directory '${rmDirPath}'.`, LogLevel.DEBUG);
-      return fs.promises.rmdir(rmDirPath, {recursive: true});
-    });
+    const context: LogContext = {bucket: Bucket, localPath: rmDirPath, operation: "rmdir"};
+    return submitAuditedTask(options, withDurationLog(() => {
+      log(`Recursively removing directory '${rmDirPath}'.`, LogLevel.DEBUG, context);
+      return fs.promises.rmdir(rmDirPath, {recursive: true}).then(() => {
+        if (manifest) {
+          manifest.removeDirectory(relativeDirPath);
+        }
+        if (fileCache) {
+          fileCache.removeDirectory(rmDirPath + path.sep);
+        }
+      });
+    }, context), {bucket: Bucket, localPath: rmDirPath}, "remove", undefined, 1, false);
   } else {
     log(`Directory (${relativeDirPath}) will not be removed because it is the root mirror directory.`, LogLevel.DEBUG);
+    return Promise.resolve();
   }
 }
 
-interface DirEntry {
+export interface DirEntry {
   /**
    * Relative httpPath to the root mirror directory. This should match
    * the S3 key.
    */
   relativePath: string
   /**
-   * Stats for the object
+   * Stats for the object. These are the cached stats when the entry was
+   * retrieved from the file cache.
    */
-  stats: Stats
+  stats: CachedStats & Pick<Stats, "isDirectory">
 }
 
 /**
@@ -234,28 +941,54 @@ interface DirEntry {
  * Key    = 1/2/3/ (meaning it should be a directory)
  * Entry  = 1/2/3  (is a directory)
  *
+ * When the file cache is provided, the cached stats of the files that were
+ * written (and not removed) by this program are used rather than retrieving
+ * them from the file system. This means changes made to those files by other
+ * programs are not noticed while they are cached.
+ *
+ * When the tmpSuffix is provided, the temporary files of the downloads (which are
+ * written to the rootDir when there is no tmpDir) are not included, so that they
+ * are not removed or reported as extra files while they are written (or waiting to
+ * be resumed).
+ *
  * @param rootDir the root directory that is used to
  * @param dir the directory from which entries are obtained
+ * @param fileCache the cache of the stats of the files that were written
+ * @param tmpSuffix the suffix of the temporary files to exclude
  */
-export async function getDirectoryEntries(rootDir: string, dir: string): Promise<DirEntry[]> {
+export async function getDirectoryEntries(rootDir: string,
+                                          dir: string,
+                                          fileCache?: FileCache,
+                                          tmpSuffix?: string): Promise<DirEntry[]> {
   return fs.promises.readdir(dir, {encoding: "utf-8"}).then(entries => {
     let innerPromises: Promise<DirEntry | DirEntry[] | undefined>[] = [];
     for (let i = 0; i < entries.length; i++) {
       let entryPath = path.resolve(dir, entries[i]);
+      const cachedStats = fileCache && fileCache.getStats(entryPath);
+      if (cachedStats) {
+        innerPromises.push(Promise.resolve({
+                                             relativePath: getRelativePathToRootDir(rootDir, entryPath),
+                                             stats: {...cachedStats, isDirectory: () => false}
+                                           }));
+        continue;
+      }
       innerPromises.push(
-        fs.promises.stat(entryPath).then<DirEntry | DirEntry[]>(stats => {
+        fs.promises.stat(entryPath).then<DirEntry | DirEntry[] | undefined>(stats => {
           if (stats.isDirectory()) {
             let dirStats = {
               // directories end with a forward or back slash (system dependent)
               relativePath: getRelativePathToRootDir(rootDir, entryPath) + path.sep,
               stats
             }
-            return getDirectoryEntries(rootDir, entryPath).then(entries => {
+            return getDirectoryEntries(rootDir, entryPath, fileCache, tmpSuffix).then(entries => {
               // add in the directory itself, before all of its entries (will be alphabetical order)
               entries.splice(0, 0, dirStats)
               return entries;
             })
           }
+          if (tmpSuffix && isTmpFileName(entries[i], tmpSuffix)) {
+            return undefined;
+          }
           return {relativePath: getRelativePathToRootDir(rootDir, entryPath), stats}
         }).catch(err => {
           log(err, LogLevel.ERROR)
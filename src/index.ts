@@ -5,10 +5,34 @@
  * but it
  */
 
-import { run } from "./run";
-import cli from "./cli";
+import { OnceExitCode, run, runJournal, runOnce, runVerify } from "./run";
+import cli, { CliOptions } from "./cli";
+import { createComponentLog, LogLevel } from "./logger";
+
+const log = createComponentLog("run");
 
 if (require.main === module) {
-  const cliOptions = cli();
-  run(cli());
+  let cliOptions: CliOptions;
+  try {
+    cliOptions = cli();
+  } catch (err) {
+    /*
+    * An option's value could not be parsed. The exit code is set here, because
+    * the error would otherwise be handled as an uncaught exception (which exits
+    * with 0 when no shutdown hooks have been registered yet).
+    * */
+    log(`Invalid options. ${err}`, LogLevel.ERROR);
+    const oneShot = process.argv.indexOf("--once") >= 0 || process.argv.indexOf("--dry-run") >= 0;
+    process.exit(oneShot ? OnceExitCode.CONFIGURATION_ERROR : 1);
+  }
+  if (cliOptions.command === "verify") {
+    runVerify(cliOptions).then(exitCode => process.exit(exitCode));
+  } else if (cliOptions.command === "journal") {
+    runJournal(cliOptions).then(exitCode => process.exit(exitCode));
+  } else if (cliOptions.once || cliOptions.dryRun) {
+    // a plan is a single pass as well, which exits with 0 once it has been printed
+    runOnce(cliOptions).then(exitCode => process.exit(exitCode));
+  } else {
+    run(cliOptions);
+  }
 }
@@ -0,0 +1,123 @@
+import { createComponentLog, LogLevel } from "./logger";
+import { getFileSize, normalizeETag } from "./downloadState";
+import { headS3Object, GetS3ObjectOptions, S3ObjectChecksums } from "./utils/s3Utils";
+import { Checksum, ChecksumAlgorithm, checksumFile } from "./utils/checksums";
+import { createIntegrityMismatchError, createObjectChangedError } from "./errors";
+
+const log = createComponentLog("fs");
+
+/**
+ * The parts of the GetObject/HeadObject response that determine how the object's
+ * content can be verified.
+ */
+export interface S3ObjectIntegrityInfo {
+  ETag?: string
+  ContentLength?: number
+  ServerSideEncryption?: string
+  SSECustomerAlgorithm?: string
+  Checksums?: S3ObjectChecksums
+}
+
+interface VerifyDownloadedObjectOptions extends GetS3ObjectOptions {
+  /**
+   * The (temporary) file the object was written to.
+   */
+  filePath: string
+  /**
+   * The version of the object that was expected to be downloaded. If the object
+   * now has a different ETag it has changed since it was downloaded.
+   */
+  ETag?: string
+  /**
+   * The response when the whole object was retrieved with a single request. When
+   * this is not provided (e.g., ranged or resumed downloads) the object's metadata
+   * is requested.
+   */
+  response?: S3ObjectIntegrityInfo
+  /**
+   * MD5 computed while the whole object was retrieved with a single request (with
+   * the response). If not provided, the file is read to compute it when needed.
+   */
+  md5?: Checksum
+}
+
+// strongest first
+const CHECKSUM_PREFERENCE: (keyof S3ObjectChecksums & ChecksumAlgorithm)[] = ["SHA256", "SHA1", "CRC32C", "CRC32"];
+
+/**
+ * Multipart uploads have an ETag (and possibly checksums) that is computed from
+ * the parts and ends with '-<part count>', so it cannot be computed from the data.
+ */
+export function isMultipartETag(eTag: string): boolean {
+  return normalizeETag(eTag).indexOf("-") >= 0;
+}
+
+/*
+* The ETag is only the MD5 of the data for single part uploads that are not
+* encrypted with SSE-KMS or SSE-C.
+* */
+function etagIsMd5(info: S3ObjectIntegrityInfo): boolean {
+  return !!info.ETag
+    && !isMultipartETag(info.ETag)
+    && !(info.ServerSideEncryption && info.ServerSideEncryption.indexOf("aws:kms") === 0)
+    && !info.SSECustomerAlgorithm;
+}
+
+/**
+ * Verifies that the downloaded file matches what S3 stored for the object. The
+ * size is always checked and the content is checked against the MD5 of the ETag
+ * for single part uploads or, otherwise, against one of the object's full object
+ * checksums (x-amz-checksum-*, requested with the checksum mode). If the object
+ * has neither, only the size is verified and a warning is logged.
+ *
+ * Rejects with an error with the code 'IntegrityMismatch' when the file does not
+ * match, or 'ObjectChanged' when the object has been changed (or removed) since
+ * it was downloaded.
+ */
+export function verifyDownloadedObject(options: VerifyDownloadedObjectOptions): Promise<void> {
+  const {filePath, Key, response, md5} = options;
+  const integrityInfo: Promise<S3ObjectIntegrityInfo> = response && md5 && etagIsMd5(response)
+    ? Promise.resolve(response)
+    : headS3Object({...options, checksumMode: true}).then(head => {
+      if (!head) {
+        return Promise.reject(createObjectChangedError(Key, options.ETag, undefined));
+      }
+      const expectedETag = response?.ETag || options.ETag;
+      if (expectedETag && head.ETag && normalizeETag(expectedETag) !== normalizeETag(head.ETag)) {
+        return Promise.reject(createObjectChangedError(Key, expectedETag, head.ETag));
+      }
+      return head;
+    });
+
+  return integrityInfo.then(info => getFileSize(filePath).then(size => {
+    if (info.ContentLength !== undefined && size !== info.ContentLength) {
+      return Promise.reject(createIntegrityMismatchError(Key, `size is ${size}, but expected ${info.ContentLength}`));
+    }
+    if (etagIsMd5(info)) {
+      const digest = md5 && response ? Promise.resolve(md5.digest()) : checksumFile(filePath, "MD5");
+      return digest.then(digest => {
+        const expected = normalizeETag(info.ETag!).toLowerCase();
+        if (digest.toString("hex") !== expected) {
+          return Promise.reject(createIntegrityMismatchError(Key, `MD5 is '${digest.toString("hex")}', but the `
+            + `ETag is '${expected}'`));
+        }
+      });
+    }
+    const checksums = info.Checksums || {};
+    const algorithm = CHECKSUM_PREFERENCE.find(algorithm => {
+      const checksum = checksums[algorithm];
+      return checksum !== undefined && checksum.indexOf("-") < 0;
+    });
+    if (!algorithm) {
+      log(`Could not verify the content of key='${Key}', because it has neither an MD5 ETag nor a full object `
+            + `checksum. Only its size was verified.`, LogLevel.WARN);
+      return;
+    }
+    return checksumFile(filePath, algorithm).then(digest => {
+      if (digest.toString("base64") !== checksums[algorithm]) {
+        return Promise.reject(createIntegrityMismatchError(Key, `${algorithm} is '${digest.toString("base64")}', `
+          + `but expected '${checksums[algorithm]}'`));
+      }
+    });
+  }));
+}
@@ -0,0 +1,259 @@
+import * as path from "path";
+import * as fs from "fs";
+import { createComponentLog, LogLevel } from "./logger";
+import {
+  AwsSnsHttpEndpointHeaders,
+  AwsSnsHttpS3NotificationBody,
+  AwsSnsS3Record,
+  SnsNotificationListener
+} from "./snsServer";
+
+const log = createComponentLog("state");
+
+/**
+ * A notification that was accepted by the SNS server.
+ */
+export interface JournalEntry {
+  /**
+   * Increases with each entry appended to the journal.
+   */
+  id: number
+  /**
+   * The SNS MessageId of the notification.
+   */
+  MessageId: string
+  /**
+   * When the notification was received (milliseconds since the epoch).
+   */
+  receivedAt: number
+  Records: AwsSnsS3Record[]
+}
+
+/**
+ * Each line of the journal's file is either an entry or the mark that an entry
+ * is done.
+ */
+interface JournalDoneLine {
+  id: number
+  done: true
+}
+
+export interface EventJournalOptions {
+  /**
+   * The directory where the journal is persisted.
+   */
+  stateDir: string
+  /**
+   * The journal is compacted (rewritten with only the entries that are not done)
+   * once this many entries have been marked done since it was last compacted.
+   *
+   * Defaults to 1000.
+   */
+  compactThreshold?: number
+}
+
+/**
+ * Write-ahead journal of the notifications received by the SNS server. Each
+ * notification is appended (and synced to disk) before it is acknowledged and is
+ * marked done once the writes and unlinks of its records have completed, so that
+ * the notifications that were not handled when the program stopped (or crashed)
+ * can be replayed on startup (see {@link replayEventJournal}).
+ *
+ * The journal is an append-only file of JSON lines in the state directory. It is
+ * read when it is created and is compacted periodically (or with {@link compact}).
+ */
+export default class EventJournal {
+
+  // entries that have not been marked done, in the order they were appended
+  private pending: Map<number, JournalEntry> = new Map()
+  private nextId: number = 1
+  private doneSinceCompaction: number = 0
+  private fileHandle?: fs.promises.FileHandle
+  // writes are chained so that lines are never interleaved
+  private writing: Promise<void> = Promise.resolve()
+
+  readonly filePath: string
+  compactThreshold: number
+
+  constructor(options: EventJournalOptions) {
+    this.filePath = path.resolve(options.stateDir, "journal.ndjson");
+    this.compactThreshold = options.compactThreshold !== undefined ? options.compactThreshold : 1000;
+    this.readEntries();
+  }
+
+  private readEntries() {
+    let data: string;
+    try {
+      data = fs.readFileSync(this.filePath, "utf8");
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        log(`Could not read the event journal ('${this.filePath}'). Starting with an empty journal. ${err}`,
+            LogLevel.WARN);
+      }
+      return;
+    }
+    const lines = data.split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (lines[i].length === 0) {
+        continue;
+      }
+      let line: JournalEntry | JournalDoneLine;
+      try {
+        line = JSON.parse(lines[i]);
+      } catch (err) {
+        // e.g., the program crashed while the line was being written (so it was never acknowledged)
+        log(`Skipping corrupt line ${i + 1} of the event journal ('${this.filePath}'). ${err}`, LogLevel.WARN);
+        continue;
+      }
+      if ((line as JournalDoneLine).done) {
+        this.pending.delete(line.id);
+        this.doneSinceCompaction++;
+      } else {
+        this.pending.set(line.id, line as JournalEntry);
+      }
+      this.nextId = Math.max(this.nextId, line.id + 1);
+    }
+  }
+
+  /**
+   * The entries that have not been marked done, in the order they were appended.
+   */
+  getPendingEntries(): JournalEntry[] {
+    const entries: JournalEntry[] = [];
+    this.pending.forEach(entry => entries.push(entry));
+    return entries;
+  }
+
+  /**
+   * The number of entries that have been marked done, but are still in the
+   * journal's file (i.e., would be removed by {@link compact}).
+   */
+  get doneEntries(): number {
+    return this.doneSinceCompaction;
+  }
+
+  private writeLine(line: JournalEntry | JournalDoneLine, sync: boolean): Promise<void> {
+    const data = JSON.stringify(line) + "\n";
+    this.writing = this.writing
+                       .catch(() => {/* previous failure was already reported */})
+                       .then(() => this.getFileHandle())
+                       .then(fileHandle => fileHandle.appendFile(data)
+                                                     .then(() => sync ? fileHandle.sync() : undefined));
+    return this.writing;
+  }
+
+  private getFileHandle(): Promise<fs.promises.FileHandle> {
+    if (this.fileHandle) {
+      return Promise.resolve(this.fileHandle);
+    }
+    return fs.promises.mkdir(path.dirname(this.filePath), {recursive: true})
+             .then(() => fs.promises.open(this.filePath, "a"))
+             .then(fileHandle => this.fileHandle = fileHandle);
+  }
+
+  /**
+   * Appends the notification to the journal. The returned promise resolves (with
+   * the entry) once the entry has been synced to disk.
+   */
+  append(MessageId: string, Records: AwsSnsS3Record[]): Promise<JournalEntry> {
+    const entry: JournalEntry = {id: this.nextId++, MessageId, receivedAt: Date.now(), Records};
+    this.pending.set(entry.id, entry);
+    return this.writeLine(entry, true).then(() => entry);
+  }
+
+  /**
+   * Marks the entry done (i.e., its records have been handled), so that it is not
+   * replayed. The mark is not synced to disk, as the worst case is that the entry
+   * is replayed again.
+   */
+  markDone(id: number): Promise<void> {
+    if (!this.pending.delete(id)) {
+      return Promise.resolve();
+    }
+    this.doneSinceCompaction++;
+    return this.writeLine({id, done: true}, false).then(() => {
+      if (this.doneSinceCompaction >= this.compactThreshold) {
+        return this.compact();
+      }
+    });
+  }
+
+  /**
+   * Rewrites the journal with only the entries that have not been marked done.
+   * The entries are written to a temporary file first and then renamed, so a
+   * partially written journal is never read.
+   */
+  compact(): Promise<void> {
+    this.writing = this.writing
+                       .catch(() => {/* previous failure was already reported */})
+                       .then(() => this.closeFileHandle())
+                       .then(() => {
+                         const entries = this.getPendingEntries();
+                         let data = "";
+                         for (let i = 0; i < entries.length; i++) {
+                           data += JSON.stringify(entries[i]) + "\n";
+                         }
+                         this.doneSinceCompaction = 0;
+                         const tmpFilePath = this.filePath + ".tmp";
+                         return fs.promises.mkdir(path.dirname(this.filePath), {recursive: true})
+                                  .then(() => fs.promises.writeFile(tmpFilePath, data))
+                                  .then(() => fs.promises.rename(tmpFilePath, this.filePath));
+                       });
+    return this.writing;
+  }
+
+  private closeFileHandle(): Promise<void> {
+    const fileHandle = this.fileHandle;
+    this.fileHandle = undefined;
+    return fileHandle ? fileHandle.close() : Promise.resolve();
+  }
+
+  /**
+   * Waits for the pending writes and closes the journal's file. The journal can
+   * still be written to afterwards (the file is opened again).
+   */
+  close(): Promise<void> {
+    this.writing = this.writing
+                       .catch(() => {/* previous failure was already reported */})
+                       .then(() => this.closeFileHandle());
+    return this.writing;
+  }
+
+}
+
+/**
+ * Replays the notifications that were not marked done in the journal (e.g., the
+ * program was stopped before they were handled). Each is provided to the listener
+ * and marked done once the listener resolves; those that fail are left in the
+ * journal (and logged).
+ *
+ * @return the number of notifications that were replayed successfully
+ */
+export function replayEventJournal(journal: EventJournal, listener: SnsNotificationListener): Promise<number> {
+  const entries = journal.getPendingEntries();
+  if (entries.length > 0) {
+    log(`Replaying ${entries.length} notification(s) from the event journal ('${journal.filePath}').`,
+        LogLevel.INFO);
+  }
+  return Promise.all(entries.map(entry => {
+    const notification = {
+      headers: {
+        "x-amz-sns-message-type": "Notification",
+        "x-amz-sns-message-id": entry.MessageId
+      } as AwsSnsHttpEndpointHeaders,
+      body: {
+        Type: "Notification",
+        MessageId: entry.MessageId,
+        Message: {Records: entry.Records}
+      } as AwsSnsHttpS3NotificationBody
+    };
+    return Promise.resolve(notification)
+                  .then(listener)
+                  .then(() => journal.markDone(entry.id))
+                  .then(() => true, err => {
+                    log(`Failed to replay notification (MessageId='${entry.MessageId}') from the event journal. `
+                          + `It will be replayed on the next startup. ${err}`, LogLevel.ERROR);
+                    return false;
+                  });
+  })).then(replayed => replayed.filter(success => success).length);
+}
@@ -1,7 +1,10 @@
+import { inspect } from "util";
+
 export enum LogLevel {
   NONE = 0,
   ERROR,
   WARN,
+  INFO,
   DEBUG,
 }
 
@@ -19,6 +22,9 @@ export function setLogLevelFromString(level: string) {
     case "WARN":
       setLogLevel(LogLevel.WARN)
       break;
+    case "INFO":
+      setLogLevel(LogLevel.INFO)
+      break;
     case "DEBUG":
       setLogLevel(LogLevel.DEBUG)
       break;
@@ -31,19 +37,113 @@ export function setLogLevel(level: LogLevel | string) {
   if (typeof level === "string") {
     setLogLevelFromString(level);
   } else {
-    console.log("Setting log level to " + LogLevel[level]+ ".")
     GLOBAL_LOG_LEVEL = level;
+    log("Setting log level to " + LogLevel[level] + ".", LogLevel.INFO);
+  }
+}
+
+/**
+ * The part of the program that logged the message.
+ */
+export type LogComponent = "sync" | "sns" | "sqs" | "queue" | "fs" | "s3" | "state" | "run";
+
+/**
+ * Fields that describe what the message is about. They are included in each line
+ * when logging JSON.
+ */
+export interface LogContext {
+  component?: LogComponent
+  bucket?: string
+  key?: string
+  localPath?: string
+  /**
+   * E.g., 'download', 'unlink' or 'rmdir'.
+   */
+  operation?: string
+  /**
+   * How long (in milliseconds) the operation took.
+   */
+  duration?: number
+}
+
+export interface LogRecord extends LogContext {
+  timestamp: string
+  level: string
+  message: string
+}
+
+/**
+ * Receives each message that is logged (i.e., at or above the log level). The
+ * record is what is written when logging JSON, while msg is what was logged (e.g.,
+ * an Error) and is what is written when logging text.
+ */
+export type LogSink = (record: LogRecord, msg: any) => void
+
+/**
+ * 'text' writes the messages as they were logged and 'json' writes one JSON
+ * object ({@link LogRecord}) per line.
+ */
+export type LogFormat = "text" | "json";
+
+let LOG_FORMAT: LogFormat = "text";
+
+export function setLogFormat(format: LogFormat | string) {
+  switch (format.toLowerCase()) {
+    case "text":
+    case "json":
+      LOG_FORMAT = format.toLowerCase() as LogFormat;
+      break;
+    default:
+      throw new Error("Unrecognized log format. Can only be 'text' or 'json'.");
+  }
+}
+
+function writeToConsole(record: LogRecord, msg: any) {
+  const line = LOG_FORMAT === "json" ? JSON.stringify(record) : msg;
+  if (record.level === LogLevel[LogLevel.ERROR]) {
+    console.error(line);
+  } else if (record.level === LogLevel[LogLevel.WARN]) {
+    console.warn(line);
+  } else {
+    console.log(line)
+  }
+}
+
+let LOG_SINK: LogSink = writeToConsole;
+
+/**
+ * Replaces where the messages are written (the console by default), e.g., so
+ * that a library user can forward them to their own logger. When no sink is
+ * provided the console is used again.
+ */
+export function setLogSink(sink?: LogSink) {
+  LOG_SINK = sink || writeToConsole;
+}
+
+function formatMessage(msg: any): string {
+  if (typeof msg === "string") {
+    return msg;
   }
+  if (msg instanceof Error) {
+    return msg.stack || String(msg);
+  }
+  return inspect(msg);
 }
 
-export function log(msg: any, level: LogLevel) {
+export function log(msg: any, level: LogLevel, context?: LogContext) {
   if (GLOBAL_LOG_LEVEL !== LogLevel.NONE && GLOBAL_LOG_LEVEL >= level) {
-    if (level === LogLevel.ERROR) {
-      console.error(msg);
-    } else if (level === LogLevel.WARN) {
-      console.warn(msg);
-    } else {
-      console.log(msg)
-    }
+    LOG_SINK({
+               timestamp: new Date().toISOString(),
+               level: LogLevel[level],
+               ...context,
+               message: formatMessage(msg)
+             }, msg);
   }
 }
+
+/**
+ * Creates a log function that adds the component to the context of each message.
+ */
+export function createComponentLog(component: LogComponent) {
+  return (msg: any, level: LogLevel, context?: LogContext) => log(msg, level, {component, ...context});
+}
@@ -0,0 +1,175 @@
+import * as path from "path";
+import * as fs from "fs";
+import { createHash } from "crypto";
+import { createComponentLog, LogLevel } from "./logger";
+import { normalizeETag } from "./downloadState";
+
+const log = createComponentLog("state");
+
+/**
+ * What was written to the local directory for a transformed key.
+ */
+export interface ManifestEntry {
+  /**
+   * The (untransformed) key of the S3 object that was written.
+   */
+  Key: string
+  /**
+   * ETag of the object that was written (without quotes).
+   */
+  ETag: string
+  Size: number
+  /**
+   * The object's LastModified (milliseconds since the epoch), if it was known
+   * when the object was written.
+   */
+  LastModified?: number
+}
+
+export interface SyncManifestOptions {
+  /**
+   * The directory where the manifest is persisted.
+   */
+  stateDir: string
+  bucket: string
+  /**
+   * The local directory the manifest's entries are written to. A separate
+   * manifest is kept for each bucket and root directory.
+   */
+  rootDir: string
+  /**
+   * Changes are persisted this many milliseconds after the first change that has
+   * not been persisted yet, so that many writes only result in a single write of
+   * the manifest.
+   *
+   * Defaults to 1000.
+   */
+  flushDelay?: number
+}
+
+/**
+ * Records, for each transformed key, the version of the S3 object that was
+ * written to the local directory. This is persisted to the state directory so
+ * that a sync pass can compare the ETags rather than relying on the local file's
+ * mtime (which may be changed by restoring from backups, other tools, etc.).
+ *
+ * The manifest is read when it is created and changes are persisted (replacing
+ * the file) shortly after they are made; call {@link flush} to persist them
+ * immediately.
+ */
+export default class SyncManifest {
+
+  private entries: { [transformedKey: string]: ManifestEntry }
+  private flushTimeout?: ReturnType<typeof setTimeout>
+  // flushes are chained so that the file is never written concurrently
+  private flushing: Promise<void> = Promise.resolve()
+
+  readonly filePath: string
+  flushDelay: number
+
+  constructor(options: SyncManifestOptions) {
+    const {stateDir, bucket, rootDir, flushDelay} = options;
+    /*
+    * Root directories cannot be used in file names, so the manifest's file name
+    * is a hash of the bucket and root directory.
+    * */
+    const hash = createHash("sha1").update(bucket + "\n" + path.resolve(rootDir)).digest("hex");
+    this.filePath = path.resolve(stateDir, "manifests", hash + ".json");
+    this.flushDelay = flushDelay !== undefined ? flushDelay : 1000;
+    this.entries = SyncManifest.readEntries(this.filePath);
+  }
+
+  private static readEntries(filePath: string): { [transformedKey: string]: ManifestEntry } {
+    let data: string;
+    try {
+      data = fs.readFileSync(filePath, "utf8");
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        log(`Could not read the sync manifest ('${filePath}'). Starting with an empty manifest. ${err}`,
+            LogLevel.WARN);
+      }
+      return {};
+    }
+    try {
+      return JSON.parse(data).entries || {};
+    } catch (err) {
+      log(`Sync manifest ('${filePath}') is corrupt. Starting with an empty manifest. ${err}`, LogLevel.WARN);
+      return {};
+    }
+  }
+
+  /**
+   * Returns the entry of what was written for the transformed key or undefined
+   * if nothing has been recorded.
+   */
+  get(transformedKey: string): ManifestEntry | undefined {
+    return this.entries[transformedKey];
+  }
+
+  /**
+   * Records the version of the object that was written for the transformed key.
+   */
+  set(transformedKey: string, entry: ManifestEntry) {
+    this.entries[transformedKey] = {...entry, ETag: normalizeETag(entry.ETag)};
+    this.scheduleFlush();
+  }
+
+  /**
+   * Removes the entry of the transformed key (i.e., the file was removed).
+   */
+  remove(transformedKey: string) {
+    if (this.entries[transformedKey]) {
+      delete this.entries[transformedKey];
+      this.scheduleFlush();
+    }
+  }
+
+  /**
+   * Removes the entries of every transformed key within the directory (i.e., the
+   * directory was removed).
+   *
+   * @param relativeDirPath directory relative to the root directory, ending with the separator
+   */
+  removeDirectory(relativeDirPath: string) {
+    let removed = false;
+    for (const transformedKey in this.entries) {
+      if (transformedKey.indexOf(relativeDirPath) === 0) {
+        delete this.entries[transformedKey];
+        removed = true;
+      }
+    }
+    if (removed) {
+      this.scheduleFlush();
+    }
+  }
+
+  private scheduleFlush() {
+    if (this.flushTimeout === undefined) {
+      this.flushTimeout = setTimeout(() => {
+        this.flush().catch(err => {
+          log(`Could not persist the sync manifest ('${this.filePath}'). ${err}`, LogLevel.ERROR);
+        });
+      }, this.flushDelay);
+    }
+  }
+
+  /**
+   * Persists the manifest. The file is written to a temporary file first and
+   * then renamed, so a partially written manifest is never read.
+   */
+  flush(): Promise<void> {
+    if (this.flushTimeout !== undefined) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+    const data = JSON.stringify({entries: this.entries});
+    const tmpFilePath = this.filePath + ".tmp";
+    this.flushing = this.flushing
+                        .catch(() => {/* previous failure was already reported */})
+                        .then(() => fs.promises.mkdir(path.dirname(this.filePath), {recursive: true}))
+                        .then(() => fs.promises.writeFile(tmpFilePath, data))
+                        .then(() => fs.promises.rename(tmpFilePath, this.filePath));
+    return this.flushing;
+  }
+
+}
@@ -1,19 +1,82 @@
 import { S3Client } from "@aws-sdk/client-s3";
 import AsyncOpQueue from "./AsyncOpQueue";
+import SyncManifest from "./manifest";
+import FileCache from "./cache/FileCache";
+import EventJournal from "./journal";
+import AuditLog from "./auditLog";
+import SequencerTracker from "./sequencer";
+import { DEFAULT_RETRY_POLICY } from "./retry";
 import * as path from "path";
-import { log, LogLevel } from "./logger";
+import { createComponentLog, LogFormat, LogLevel, LogSink } from "./logger";
 import * as fs from "fs";
 import {
+  createPrefixRemovalTransformer,
   getDefaultS3KeyTransformers,
   S3KeyTransformerOptions,
   StringTransformer
 } from "./utils/transformers";
+import { createKeyFilter, KeyFilter, KeyFilterOptions } from "./utils/keyFilter";
 
-export interface CommonOptions extends S3KeyTransformerOptions {
+const log = createComponentLog("run");
+
+/**
+ * Mirrors the keys of a bucket beneath a prefix into a local directory. The
+ * prefix is removed from the keys before they are written (e.g., with the prefix
+ * 'reports/' and rootDir '/srv/reports', the key 'reports/2020/a.pdf' is
+ * written to '/srv/reports/2020/a.pdf').
+ *
+ * The options that are not provided for the mapping are taken from the
+ * {@link CommonOptions} it was provided in.
+ */
+export interface MirrorMapping extends S3KeyTransformerOptions, KeyFilterOptions {
+  /**
+   * The bucket whose keys are mirrored. The buckets must be accessible with the
+   * shared S3 client (i.e., reside in the same region).
+   *
+   * Defaults to {@link CommonOptions.bucket}.
+   */
+  bucket?: string
+  /**
+   * The prefix of the keys that are mirrored to {@link rootDir}. Used when listing
+   * keys and to route SNS events to the mapping.
+   *
+   * Defaults to '' (i.e., every key of the bucket).
+   */
+  prefix?: string
+  /**
+   * The local directory where the keys beneath the prefix are mirrored.
+   */
+  rootDir: string
+  tmpSuffix?: string
+  tmpDir?: string
+  remove?: boolean
+  /**
+   * Applied to the keys after the prefix has been removed. See
+   * {@link CommonOptions.s3KeyTransformers}.
+   */
+  s3KeyTransformers?: StringTransformer[]
+  keyFilter?: KeyFilter
+  /**
+   * Defaults to a manifest for the mapping's rootDir persisted in
+   * {@link CommonOptions.stateDir} when it is provided.
+   */
+  manifest?: SyncManifest
+}
+
+export interface CommonOptions extends S3KeyTransformerOptions, KeyFilterOptions {
   /**
    * The S3 bucket that will be mirrored.
+   *
+   * Not required when every one of the {@link mappings} provides its bucket.
    */
   bucket: string
+  /**
+   * Mirrors each of the buckets into a subdirectory of {@link rootDir} that is
+   * named after the bucket (e.g., '/srv/mirror/bucket-a'), applying the same
+   * {@link prefix} to each. The buckets are converted to {@link mappings}, so
+   * this cannot be provided with them.
+   */
+  buckets?: string[]
   /**
    * The region where the bucket resides. Used to create the S3 and SNS clients.
    *
@@ -23,9 +86,20 @@ export interface CommonOptions extends S3KeyTransformerOptions {
   /**
    * The local directory where the bucket will be mirrored.
    *
-   * Used by SNS and SYNC.
+   * Used by SNS and SYNC. Must not be provided with {@link mappings}.
    */
   rootDir: string
+  /**
+   * Mirrors multiple prefixes (of one or more buckets), each into its own local
+   * directory, instead of mirroring {@link prefix} into {@link rootDir}. A single
+   * sync pass covers every mapping and each SNS event is handled by the mappings
+   * of the event's bucket whose prefix the key begins with, so several buckets
+   * can share an SNS server and topic. The mappings' root directories must not
+   * be the same or within one another.
+   *
+   * The queue, clients, and file cache are shared by the mappings.
+   */
+  mappings?: MirrorMapping[]
   /**
    * The S3 client to use to make requests to retrieve the notification's object.
    */
@@ -41,6 +115,72 @@ export interface CommonOptions extends S3KeyTransformerOptions {
    * Defaults to 300.
    */
   maxConcurrency?: number
+  /**
+   * The maximum number of times an object's download (or a file operation) is
+   * attempted when it fails with a transient error (e.g., S3 throttling the
+   * requests, a connection reset, EBUSY or EMFILE). The keys that still fail are
+   * reported at the end of the sync pass. A value of 1 never retries.
+   *
+   * (This is for the queue and if the queue is provided is ignored.)
+   *
+   * Defaults to 3.
+   */
+  retryMaxAttempts?: number
+  /**
+   * The delay (in milliseconds) before the first retry, which is doubled for
+   * each retry after that (up to 20 seconds).
+   *
+   * Defaults to 200.
+   */
+  retryBaseDelay?: number
+  /**
+   * The fraction (0-1) of each retry delay that is randomized.
+   *
+   * Defaults to 0.5.
+   */
+  retryJitter?: number
+  /**
+   * Objects larger than this size (in bytes) are downloaded as concurrent byte
+   * ranges (see {@link partSize} and {@link partConcurrency}), which are written
+   * to the temporary file before it is moved to its final location. A value of
+   * 0 (or less) disables ranged downloads.
+   *
+   * Defaults to 100 MiB.
+   */
+  largeObjectThreshold?: number
+  /**
+   * The size (in bytes) of each byte range requested when downloading an object
+   * larger than {@link largeObjectThreshold}.
+   *
+   * Defaults to 16 MiB.
+   */
+  partSize?: number
+  /**
+   * The number of byte ranges of a large object that are downloaded concurrently.
+   * Each concurrently downloaded range counts against {@link maxConcurrency}, so
+   * a large object download takes up this many of the queue's slots.
+   *
+   * Defaults to 4.
+   */
+  partConcurrency?: number
+  /**
+   * Verifies that each downloaded object's data matches what S3 stored before it
+   * is moved to its final location. Single part uploads are checked against the
+   * MD5 of their ETag (computed while downloading) and others against a full
+   * object checksum (x-amz-checksum-*) when the object has one. The size is
+   * always checked. Downloads that do not match are discarded and retried.
+   *
+   * Defaults to false.
+   */
+  verifyIntegrity?: boolean
+  /**
+   * Sets the mtime of each written file to the S3 object's LastModified, so that
+   * other tools (e.g., rsync, make) do not treat every write as a change. The
+   * LastModified is from the listing (sync) or from the GetObject response (SNS).
+   *
+   * Defaults to false.
+   */
+  preserveLastModified?: boolean
   /**
    * The queue to use when submitting tasks. This is shared between the sync function
    * and the SNS server so that concurrent operations do not occur for the same file.
@@ -59,7 +199,8 @@ export interface CommonOptions extends S3KeyTransformerOptions {
    *
    * This allows the user to filter changes on filesAndDirs with the given suffix if
    * they are watching the directory (if they are only watching the file then
-   * the change to it will appear atomically).
+   * the change to it will appear atomically). The temporary files in the rootDir
+   * are not removed by the sync or reported by verify.
    *
    * Defaults to '.tmp'. This cannot be the empty string - will be overridden with '.tmp'.
    */
@@ -78,15 +219,123 @@ export interface CommonOptions extends S3KeyTransformerOptions {
    * Used by SNS and sync.
    */
   tmpDir?: string
+  /**
+   * Local directory where the program keeps its state between runs. The downloads
+   * that are in progress are recorded here (by key and ETag), so that if the
+   * program is stopped mid-download the download is resumed from the temporary
+   * file when the program is started again. On startup, the temporary files of
+   * the recorded downloads whose object has changed or been removed are cleaned up.
+   *
+   * The manifest of what was written for each key is kept here as well (see
+   * {@link manifest}).
+   *
+   * This should not be within {@link rootDir}. Downloads are not resumable when
+   * this is not provided.
+   */
+  stateDir?: string
+  /**
+   * Records the version (ETag) of each object that was written to the local
+   * directory, so that sync passes compare ETags rather than the local files'
+   * mtimes. Shared between sync and the SNS server.
+   *
+   * Defaults to a manifest persisted in {@link stateDir} when it is provided.
+   * There is no manifest otherwise.
+   */
+  manifest?: SyncManifest
+  /**
+   * The maximum number of files whose stats (and written ETag) are cached, so
+   * that sync passes do not need to stat the files this program wrote and the
+   * SNS server can skip events for versions that were already written. The
+   * least recently used entries are evicted. 0 disables the cache.
+   *
+   * Defaults to 0.
+   */
+  fileCacheSize?: number
+  /**
+   * File the file cache is loaded from on startup and periodically written to,
+   * so that a warm cache survives restarts. Only used when {@link fileCacheSize}
+   * is greater than 0.
+   */
+  fileCacheSnapshotPath?: string
+  /**
+   * Shared between sync and the SNS server.
+   *
+   * Defaults to a cache created with {@link fileCacheSize} and
+   * {@link fileCacheSnapshotPath} when fileCacheSize is greater than 0.
+   */
+  fileCache?: FileCache
+  /**
+   * Whether to keep a write-ahead journal of the notifications received by the
+   * SNS server in {@link stateDir}. Each notification is journaled before it is
+   * acknowledged and the notifications that were not handled when the program
+   * stopped are replayed on startup. Requires {@link stateDir}.
+   *
+   * Defaults to false.
+   */
+  journal?: boolean
+  /**
+   * Defaults to a journal persisted in {@link stateDir} when {@link journal} is
+   * set.
+   */
+  eventJournal?: EventJournal
+  /**
+   * The file that every file (and directory) created, updated or removed in the
+   * local directory is recorded in, along with what triggered the change (the
+   * initial sync, a resync or the SNS MessageId), the key, ETag and outcome. The
+   * entries are appended as JSON lines.
+   */
+  auditLogPath?: string
+  /**
+   * The audit log is rotated once it would exceed this many bytes.
+   *
+   * Defaults to 10 MiB.
+   */
+  auditLogMaxSize?: number
+  /**
+   * The number of rotated audit log files that are kept.
+   *
+   * Defaults to 5.
+   */
+  auditLogMaxFiles?: number
+  /**
+   * Defaults to an audit log written to {@link auditLogPath} when it is provided.
+   */
+  auditLog?: AuditLog
+  /**
+   * Whether to persist the sequencer of the latest event applied for each key in
+   * {@link stateDir}, so that stale events (that are delivered out of order)
+   * are also dropped after a restart. Requires {@link stateDir}.
+   *
+   * Defaults to false.
+   */
+  persistSequencers?: boolean
+  /**
+   * Tracks the sequencer of the latest event applied for each key, so that the
+   * SNS (and SQS) events that occurred before it are dropped.
+   *
+   * Defaults to a tracker that is kept in memory (and persisted in
+   * {@link stateDir} when {@link persistSequencers} is set).
+   */
+  sequencerTracker?: SequencerTracker
   /**
    * Whether or not to remove filesAndDirs/directories when an object is
    * removed from the S3 bucket.
    */
   remove?: boolean
   /**
-   * The prefix used when listing keys and filtering SNS events.
+   * The prefix used when listing keys and filtering SNS events. Must not be
+   * provided with {@link mappings}.
    */
   prefix?: string
+  /**
+   * Determines which keys are mirrored, in addition to the prefix and suffix.
+   * Applied when listing, to SNS events and to the local entries that would be
+   * removed (excluded local entries are never removed).
+   *
+   * Defaults to a filter created from {@link include}, {@link exclude} and
+   * {@link filterTransformedKey} when any patterns are provided.
+   */
+  keyFilter?: KeyFilter
   /**
    * The suffix used when filtering keys from listing or SNS events.
    * If the key does not end with the provided string it will be ignored.
@@ -109,12 +358,25 @@ export interface CommonOptions extends S3KeyTransformerOptions {
   s3KeyTransformers?: StringTransformer[]
   /**
    * Sets the log level of the program.
-   * Possible values: 'NONE', 'ERROR', 'WARN', 'DEBUG'.
+   * Possible values: 'NONE', 'ERROR', 'WARN', 'INFO', 'DEBUG'.
    * If an unknown value
    *
    * Defaults to 'ERROR'.
    */
   log?: LogLevel | string
+  /**
+   * Whether the messages are logged as text or as one JSON object per line (with
+   * the timestamp, level, component, bucket, key, local path, operation and
+   * duration of the message).
+   *
+   * Defaults to 'text'.
+   */
+  logFormat?: LogFormat
+  /**
+   * Receives the logged messages instead of the console (e.g., to forward them to
+   * the application's logger when used as a library).
+   */
+  logSink?: LogSink
   /**
    * It is highly recommended that this option not be used and the credentials
    * be provided by other means. However, the user may want to test with these
@@ -137,7 +399,7 @@ export interface CommonOptions extends S3KeyTransformerOptions {
  */
 export function requireOption<T>(opts: T, key: keyof T) {
   if (!opts[key]) {
-    throw new Error(`'${key}' must be provided in options.`)
+    throw new Error(`'${String(key)}' must be provided in options.`)
   }
 }
 
@@ -153,6 +415,97 @@ export function setOptionDefaultIfNotProvided<T, K extends keyof T>(opts: T, key
   }
 }
 
+/**
+ * Checks whether the child path is the same as or within the parent path.
+ */
+function isSameOrWithin(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative);
+}
+
+/**
+ * Checks the mapping and copies it with the options that were not provided for
+ * it taken from the (already checked) common options.
+ */
+function checkAndCopyMappingWithDefaults(mapping: MirrorMapping,
+                                         options: Partial<CommonOptions> & { tmpSuffix: string }): MirrorMapping {
+  requireOption(mapping, "rootDir");
+  const bucket = mapping.bucket || options.bucket;
+  if (!bucket) {
+    throw new Error("'bucket' must be provided in options or in each mapping.");
+  }
+  const prefix = mapping.prefix || "";
+  const rootDir = path.resolve(mapping.rootDir);
+  log(`Creating rootDir ('${rootDir}') of the mapping for bucket '${bucket}' and prefix '${prefix}' if it does not `
+        + "already exist.", LogLevel.DEBUG);
+  fs.mkdirSync(rootDir, {recursive: true});
+
+  let tmpDir = mapping.tmpDir;
+  if (tmpDir) {
+    log(`Creating temporary directory ('${tmpDir}') for files if it doesn't already exist.`, LogLevel.DEBUG);
+    fs.mkdirSync(path.resolve(tmpDir), {recursive: true});
+  } else {
+    tmpDir = options.tmpDir;
+  }
+
+  let manifest = mapping.manifest;
+  if (!manifest && options.stateDir) {
+    manifest = new SyncManifest({stateDir: options.stateDir, bucket, rootDir});
+  }
+
+  let keyFilter = mapping.keyFilter;
+  if (!keyFilter) {
+    keyFilter = createKeyFilter(mapping) || options.keyFilter;
+  }
+
+  let s3KeyTransformers = mapping.s3KeyTransformers;
+  if (!s3KeyTransformers) {
+    if (mapping.normalizationForm !== undefined
+      || mapping.ignoreKeyPlatformDirCharReplacement !== undefined
+      || mapping.ignoreKeyRootCharReplacement !== undefined) {
+      s3KeyTransformers = getDefaultS3KeyTransformers({...options, ...mapping});
+    } else {
+      s3KeyTransformers = options.s3KeyTransformers;
+    }
+  }
+
+  return {
+    ...mapping,
+    bucket,
+    prefix,
+    rootDir,
+    tmpSuffix: mapping.tmpSuffix || options.tmpSuffix,
+    tmpDir,
+    remove: mapping.remove !== undefined ? mapping.remove : options.remove,
+    manifest,
+    keyFilter,
+    s3KeyTransformers
+  };
+}
+
+/**
+ * Returns a copy of the options for each of the mappings, with the mapping's
+ * options in place of the common options (i.e., the mapping's bucket, prefix,
+ * rootDir, transformers, etc.). The mapping's prefix is removed from the keys
+ * before its transformers are applied, so the keys are relative to its rootDir.
+ * When no mappings are provided, the options themselves are the only element.
+ *
+ * The options must have already been checked (see
+ * {@link checkAndCopyCommonOptionsWithDefaults}).
+ */
+export function getMappingOptions<T extends Partial<CommonOptions>>(options: T): T[] {
+  const {mappings} = options;
+  if (!mappings || mappings.length === 0) {
+    return [options];
+  }
+  return mappings.map(mapping => ({
+    ...options,
+    ...mapping,
+    mappings: undefined,
+    s3KeyTransformers: [createPrefixRemovalTransformer(mapping.prefix || "")].concat(mapping.s3KeyTransformers || [])
+  }));
+}
+
 /**
  * Ensures that the bare minimum of options are provided and sets defaults for
  * options that can be assumed (e.g. tmpDir) and are not provided.
@@ -162,20 +515,42 @@ export function setOptionDefaultIfNotProvided<T, K extends keyof T>(opts: T, key
  */
 export function checkAndCopyCommonOptionsWithDefaults<T extends Partial<CommonOptions>>(options: T): T & CommonOptions {
 
+  let mappings = options.mappings;
+  if (options.buckets && options.buckets.length > 0) {
+    if (mappings && mappings.length > 0) {
+      throw new Error("'buckets' cannot be provided with 'mappings'.");
+    }
+    requireOption(options, "rootDir");
+    // each bucket is mirrored into its own subdirectory (namespace) of the rootDir
+    mappings = options.buckets.map(bucket => ({
+      bucket,
+      prefix: options.prefix,
+      rootDir: path.join(options.rootDir!, bucket)
+    }));
+  } else if (mappings && mappings.length > 0 && (options.rootDir || options.prefix)) {
+    throw new Error("'rootDir' and 'prefix' cannot be provided with 'mappings'. Each mapping has its own.");
+  }
+  const hasMappings = mappings !== undefined && mappings.length > 0;
   // only requiring bucket and rootDir here as the others will be created if not provided
-  requireOptions(options, ["bucket", "rootDir"]);
+  if (!hasMappings) {
+    requireOptions(options, ["bucket", "rootDir"]);
+  }
 
   // pulling out here so that it can be included in merged return object and provide type safety
-  const bucket = options.bucket!; // exists
-  const rootDir = path.resolve(options.rootDir!);
-
-  /*
-  * No need to check for existence. Will be created if it does not exists,
-  * will be ignored if it does exists (as a directory), or will throw an
-  * error if it is a file that exists.
-  * */
-  log(`Creating rootDir ('${rootDir}') if it does not already exist.`, LogLevel.DEBUG);
-  fs.mkdirSync(rootDir, {recursive: true});
+  // (not provided when every mapping has its own)
+  const bucket = options.bucket;
+  // not provided when there are mappings (each mapping has its own)
+  const rootDir = hasMappings ? undefined : path.resolve(options.rootDir!);
+
+  if (rootDir) {
+    /*
+    * No need to check for existence. Will be created if it does not exists,
+    * will be ignored if it does exists (as a directory), or will throw an
+    * error if it is a file that exists.
+    * */
+    log(`Creating rootDir ('${rootDir}') if it does not already exist.`, LogLevel.DEBUG);
+    fs.mkdirSync(rootDir, {recursive: true});
+  }
 
   let tmpSuffix = options.tmpSuffix;
   if (!tmpSuffix) {
@@ -194,6 +569,17 @@ export function checkAndCopyCommonOptionsWithDefaults<T extends Partial<CommonOp
     fs.mkdirSync(path.resolve(tmpDir), {recursive: true});
   }
 
+  let stateDir = options.stateDir;
+  if (stateDir) {
+    stateDir = path.resolve(stateDir);
+    log(`Creating state directory ('${stateDir}') if it doesn't already exist.`, LogLevel.DEBUG);
+    fs.mkdirSync(stateDir, {recursive: true});
+  }
+
+  if (options.logFormat !== undefined && options.logFormat !== "text" && options.logFormat !== "json") {
+    throw new Error("'logFormat' must be 'text' or 'json'.");
+  }
+
   let region = options.region;
   if (!region) {
     log("Defaulting region to 'us-east-1'. If the clients have already been provided then this"
@@ -221,30 +607,154 @@ export function checkAndCopyCommonOptionsWithDefaults<T extends Partial<CommonOp
 
   setOptionDefaultIfNotProvided(options, "maxConcurrency", 300);
 
+  let largeObjectThreshold = options.largeObjectThreshold;
+  if (largeObjectThreshold === undefined) {
+    largeObjectThreshold = 100 * 1024 * 1024;
+  } else if (isNaN(largeObjectThreshold)) {
+    throw new Error("'largeObjectThreshold' must be a number.");
+  }
+
+  if (options.partSize !== undefined && !(options.partSize > 0)) {
+    throw new Error("'partSize' must be a number greater than 0.");
+  }
+  setOptionDefaultIfNotProvided(options, "partSize", 16 * 1024 * 1024);
+
+  if (options.partConcurrency !== undefined && !(options.partConcurrency >= 1)) {
+    throw new Error("'partConcurrency' must be a number greater than or equal to 1.");
+  }
+  setOptionDefaultIfNotProvided(options, "partConcurrency", 4);
+
+  if (options.retryMaxAttempts !== undefined && !(options.retryMaxAttempts >= 1)) {
+    throw new Error("'retryMaxAttempts' must be a number greater than or equal to 1.");
+  }
+  setOptionDefaultIfNotProvided(options, "retryMaxAttempts", DEFAULT_RETRY_POLICY.maxAttempts);
+  if (options.retryBaseDelay !== undefined && !(options.retryBaseDelay >= 0)) {
+    throw new Error("'retryBaseDelay' must be a number greater than or equal to 0.");
+  }
+  if (options.retryBaseDelay === undefined) {
+    // 0 is a valid delay
+    options.retryBaseDelay = DEFAULT_RETRY_POLICY.baseDelay;
+  }
+  if (options.retryJitter !== undefined && !(options.retryJitter >= 0 && options.retryJitter <= 1)) {
+    throw new Error("'retryJitter' must be a number between 0 and 1.");
+  }
+  if (options.retryJitter === undefined) {
+    options.retryJitter = DEFAULT_RETRY_POLICY.jitter;
+  }
+
   let queue = options.queue;
   if (!queue) {
     queue = new AsyncOpQueue({
                                defaultTaskRunTimeoutMillis: 60_000,
-                               maxConcurrency: options.maxConcurrency
+                               maxConcurrency: options.maxConcurrency,
+                               retryPolicy: {
+                                 ...DEFAULT_RETRY_POLICY,
+                                 maxAttempts: options.retryMaxAttempts!,
+                                 baseDelay: options.retryBaseDelay!,
+                                 jitter: options.retryJitter!
+                               }
                              })
   }
 
+  let manifest = options.manifest;
+  if (!manifest && stateDir && rootDir) {
+    manifest = new SyncManifest({stateDir, bucket: bucket!, rootDir});
+  }
+
+  if (options.fileCacheSize !== undefined && !(options.fileCacheSize >= 0)) {
+    throw new Error("'fileCacheSize' must be a number greater than or equal to 0.");
+  }
+  let fileCache = options.fileCache;
+  if (!fileCache && options.fileCacheSize) {
+    fileCache = new FileCache({
+                                maxSize: options.fileCacheSize,
+                                snapshotPath: options.fileCacheSnapshotPath && path.resolve(options.fileCacheSnapshotPath)
+                              });
+  }
+
+  let eventJournal = options.eventJournal;
+  if (!eventJournal && options.journal) {
+    if (!stateDir) {
+      throw new Error("'stateDir' must be provided when 'journal' is set.");
+    }
+    eventJournal = new EventJournal({stateDir});
+  }
+
+  if (options.auditLogMaxSize !== undefined && !(options.auditLogMaxSize > 0)) {
+    throw new Error("'auditLogMaxSize' must be a number greater than 0.");
+  }
+  if (options.auditLogMaxFiles !== undefined && !(options.auditLogMaxFiles >= 0)) {
+    throw new Error("'auditLogMaxFiles' must be a number greater than or equal to 0.");
+  }
+  let auditLog = options.auditLog;
+  if (!auditLog && options.auditLogPath) {
+    auditLog = new AuditLog({
+                              filePath: options.auditLogPath,
+                              maxFileSize: options.auditLogMaxSize,
+                              maxFiles: options.auditLogMaxFiles
+                            });
+  }
+
+  let sequencerTracker = options.sequencerTracker;
+  if (!sequencerTracker) {
+    if (options.persistSequencers && !stateDir) {
+      throw new Error("'stateDir' must be provided when 'persistSequencers' is set.");
+    }
+    sequencerTracker = new SequencerTracker({stateDir: options.persistSequencers ? stateDir : undefined});
+  }
+
+  let keyFilter = options.keyFilter;
+  if (!keyFilter) {
+    keyFilter = createKeyFilter(options);
+  }
+
   let s3KeyTransformers = options.s3KeyTransformers;
   if (!s3KeyTransformers) { // if they haven't already been provided, set defaults
     // s3KeyTransformers used by sync and SNS server
     s3KeyTransformers = getDefaultS3KeyTransformers(options);
   }
 
+  if (hasMappings) {
+    const inherited = {...options, tmpSuffix, tmpDir, stateDir, keyFilter, s3KeyTransformers};
+    mappings = mappings!.map(mapping => checkAndCopyMappingWithDefaults(mapping, inherited));
+    /*
+    * A mapping would mirror (and remove) the other's files if its rootDir were
+    * the same as or contained the other's.
+    * */
+    for (let i = 0; i < mappings.length; i++) {
+      for (let j = i + 1; j < mappings.length; j++) {
+        if (isSameOrWithin(mappings[i].rootDir, mappings[j].rootDir)
+          || isSameOrWithin(mappings[j].rootDir, mappings[i].rootDir)) {
+          throw new Error(`The rootDir of the mappings for 's3://${mappings[i].bucket}/${mappings[i].prefix}' `
+                            + `('${mappings[i].rootDir}') and 's3://${mappings[j].bucket}/${mappings[j].prefix}' `
+                            + `('${mappings[j].rootDir}') cannot be the same or within one another.`);
+        }
+      }
+    }
+  }
+
   // make copy so they can't be changed
   return {
     ...options,
     region,
-    bucket,
-    rootDir,
+    bucket: bucket as string,
+    rootDir: rootDir as string,
+    // the buckets have been converted to mappings (with the prefix and rootDir)
+    buckets: undefined,
+    prefix: hasMappings ? undefined : options.prefix,
+    mappings,
     tmpSuffix,
     tmpDir,
+    stateDir,
     s3Client,
+    largeObjectThreshold,
     queue,
+    manifest,
+    fileCache,
+    eventJournal,
+    auditLog,
+    sequencerTracker,
+    keyFilter,
     s3KeyTransformers,
   };
 
@@ -0,0 +1,84 @@
+import { createComponentLog, LogLevel } from "./logger";
+import { isRetryableError } from "./errors";
+
+const log = createComponentLog("queue");
+
+export interface RetryPolicy {
+  /**
+   * The maximum number of times the operation is attempted (including the first
+   * attempt). A value of 1 (or less) never retries the operation.
+   */
+  maxAttempts: number
+  /**
+   * The delay (in milliseconds) before the first retry. It is doubled for each
+   * retry after that, up to {@link maxDelay}.
+   */
+  baseDelay: number
+  /**
+   * The maximum delay (in milliseconds) between attempts.
+   */
+  maxDelay: number
+  /**
+   * The fraction (0-1) of each delay that is randomized, so that the operations
+   * that failed at the same time (e.g., were throttled) are not all retried at
+   * the same time. 0 always uses the full delay and 1 uses a random delay between
+   * 0 and the full delay.
+   */
+  jitter: number
+  /**
+   * Determines whether the operation is retried after it failed with the error.
+   *
+   * Defaults to {@link isRetryableError}.
+   */
+  isRetryable?: (err: any) => boolean
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 200,
+  maxDelay: 20_000,
+  jitter: 0.5
+};
+
+/**
+ * Computes the delay before the next attempt of an operation (exponential backoff
+ * with jitter).
+ *
+ * @param policy the retry policy
+ * @param attempt the attempt that failed (starting at 1)
+ * @param random a random number between 0 and 1
+ */
+export function computeRetryDelay(policy: RetryPolicy, attempt: number, random = Math.random()): number {
+  const delay = Math.min(policy.baseDelay * Math.pow(2, attempt - 1), policy.maxDelay);
+  const jitter = Math.min(Math.max(policy.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter * random));
+}
+
+/**
+ * Runs the operation until it succeeds, fails with an error that is not retryable
+ * or the policy's maximum attempts are reached, waiting an exponentially
+ * increasing delay between the attempts.
+ *
+ * @param task the operation to run
+ * @param policy the retry policy
+ * @param description describes the operation in the log messages (e.g., its key)
+ * @return a promise that settles with the last attempt
+ */
+export function retryWithBackoff<T>(task: () => Promise<T>, policy: RetryPolicy, description: string): Promise<T> {
+  const isRetryable = policy.isRetryable || isRetryableError;
+  const attempt = (attemptNumber: number): Promise<T> => task().catch(err => {
+    if (attemptNumber >= policy.maxAttempts || !isRetryable(err)) {
+      if (attemptNumber > 1) {
+        log(`Giving up on '${description}' after ${attemptNumber} attempts.`, LogLevel.ERROR);
+      }
+      return Promise.reject(err);
+    }
+    const delay = computeRetryDelay(policy, attemptNumber);
+    log(`Retrying '${description}' in ${delay} milliseconds (attempt ${attemptNumber} of ${policy.maxAttempts} `
+          + `failed). ${err}`, LogLevel.WARN);
+    return new Promise<T>((resolve, reject) => {
+      setTimeout(() => attempt(attemptNumber + 1).then(resolve, reject), delay);
+    });
+  });
+  return attempt(1);
+}
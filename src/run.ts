@@ -1,47 +1,300 @@
-import { checkAndCopyCommonOptionsWithDefaults, CommonOptions } from "./options";
-import sync, { SyncOptions } from "./sync";
-import { SnsServerOptions, startSnsServer } from "./SnsServer";
-import { setLogLevel } from "./logger";
-import { registerShutdownHook, StopService } from "./shutdown";
+import { checkAndCopyCommonOptionsWithDefaults, CommonOptions, getMappingOptions } from "./options";
+import sync, {
+  checkAndCopySyncOptionsWithDefaults,
+  formatSyncResult,
+  formatVerifyResult,
+  SyncOptions,
+  SyncPlanFormat,
+  syncOnce,
+  verify,
+  VerifyOptions
+} from "./sync";
+import { createDefaultSnsNotificationListener, SnsServerOptions, startSnsServer } from "./snsServer";
+import { SqsPollerOptions, startSqsPoller } from "./sqsPoller";
+import { createComponentLog, LogLevel, setLogFormat, setLogLevel, setLogSink } from "./logger";
+import { registerShutdownHook, removeShutdownHook, StopService } from "./shutdown";
+import { cleanUpStaleDownloads } from "./downloadState";
+import EventJournal, { JournalEntry, replayEventJournal } from "./journal";
+import { isAccessError } from "./errors";
+
+const log = createComponentLog("run");
+
+/**
+ * Sets the log level, format and sink from the options (those not provided are
+ * left as they are).
+ */
+function applyLogOptions(options: Partial<CommonOptions>) {
+  if (options.logSink) {
+    setLogSink(options.logSink);
+  }
+  if (options.logFormat) {
+    setLogFormat(options.logFormat);
+  }
+  if (options.log) {
+    setLogLevel(options.log);
+  }
+}
+
+/**
+ * Persists the changes to the manifests (of every mapping), the file cache and
+ * the sequencers that have not been written yet and closes the event journal and
+ * the audit log.
+ */
+function persistState(options: CommonOptions): Promise<any> {
+  const mappingOptions = getMappingOptions(options);
+  const persisted: Promise<any>[] = [];
+  for (let i = 0; i < mappingOptions.length; i++) {
+    const {manifest} = mappingOptions[i];
+    if (manifest) {
+      persisted.push(manifest.flush());
+    }
+  }
+  if (options.fileCache) {
+    persisted.push(options.fileCache.stop());
+  }
+  if (options.eventJournal) {
+    persisted.push(options.eventJournal.close());
+  }
+  if (options.auditLog) {
+    persisted.push(options.auditLog.close());
+  }
+  if (options.sequencerTracker) {
+    persisted.push(options.sequencerTracker.flush());
+  }
+  return Promise.all(persisted);
+}
 
 /**
  * Can be used to programmatically run the application. (This is called with the
  * CLI options if the user does not wrap the program to call this themselves.)
  */
-export function run(options: Partial<CommonOptions & SyncOptions & SnsServerOptions>): Promise<StopService> {
+export function run(options: Partial<CommonOptions & SyncOptions & SnsServerOptions & SqsPollerOptions>): Promise<StopService> {
   const stopServicePromises: Promise<any>[] = [];
   /*
   * Even though both startSnsServer and sync call this, it is called here to create an
   * S3Client that both will use.
   * */
   const commonOptions = checkAndCopyCommonOptionsWithDefaults(options);
+  applyLogOptions(commonOptions);
+  if (commonOptions.dryRun) {
+    /*
+    * Plan mode does not touch the disk, so the SNS server is not started and only
+    * a single pass is planned (and printed). The queue is stopped so that the
+    * program can exit once the plan has been provided to the listener. There is
+    * nothing to persist, so no shutdown hook is registered (which would make the
+    * program exit with 1 once it has nothing left to do).
+    * */
+    return sync({...commonOptions, skipInitialSync: false, resyncInterval: 0}).then(stopSync => {
+      commonOptions.queue.stop();
+      return stopSync;
+    });
+  }
   registerShutdownHook(() => {
     // stop the queue
     commonOptions.queue.stop();
+    return persistState(commonOptions);
   })
-  if (commonOptions.log) {
-    setLogLevel(commonOptions.log);
-  }
-  if (commonOptions.port) {
-    stopServicePromises.push(Promise.resolve(startSnsServer(commonOptions)));
-  }
-  if (!commonOptions.skipInitialSync || commonOptions.resyncInterval) {
-    stopServicePromises.push(sync(commonOptions));
-  }
   /*
-  * Combines the two StopService functions of startSnsServer and sync into one StopService
-  * function that the user can call to stop the program.
+  * The temporary files of downloads that cannot be resumed are removed before
+  * anything is downloaded.
   * */
-  return Promise.all(stopServicePromises).then(stopServices => {
+  const startup = commonOptions.stateDir
+    ? cleanUpStaleDownloads({stateDir: commonOptions.stateDir, s3Client: commonOptions.s3Client})
+    : Promise.resolve(0);
+  return startup.then(() => {
+    if (commonOptions.port) {
+      stopServicePromises.push(Promise.resolve(startSnsServer(commonOptions)));
+    }
+    if (commonOptions.sqsQueueUrl) {
+      stopServicePromises.push(Promise.resolve(startSqsPoller(commonOptions)));
+    }
+    if (commonOptions.eventJournal) {
+      /*
+      * Replayed alongside the initial sync. The notifications that are received
+      * in the meantime are journaled (and handled) as usual.
+      * */
+      replayEventJournal(commonOptions.eventJournal,
+                         commonOptions.snsNotificationListener
+                         || createDefaultSnsNotificationListener(commonOptions as SnsServerOptions));
+    }
+    if (!commonOptions.skipInitialSync || commonOptions.resyncInterval) {
+      stopServicePromises.push(sync(commonOptions));
+    }
+    /*
+    * Combines the StopService functions of startSnsServer, startSqsPoller and sync into one StopService
+    * function that the user can call to stop the program.
+    * */
+    return Promise.all(stopServicePromises);
+  }).then(stopServices => {
     return () => {
       for (let i = 0; i < stopServices.length; i++) {
         stopServices[i]()
       }
       commonOptions.queue.stop();
+      return persistState(commonOptions).then(() => undefined);
     }
   });
 }
 
+/**
+ * The exit codes of {@link runOnce}.
+ */
+export enum OnceExitCode {
+  SUCCESS = 0,
+  // the sync could not be completed (e.g., the bucket could not be listed because of a network error)
+  FAILURE = 1,
+  // the sync completed, but some of its downloads or removals failed
+  PARTIAL_FAILURE = 2,
+  // the bucket could not be accessed (e.g., access denied, no such bucket or invalid credentials)
+  ACCESS_ERROR = 3,
+  // the options are invalid
+  CONFIGURATION_ERROR = 4
+}
+
+/**
+ * Performs a single sync pass, waits for every download and removal to complete
+ * (or fail) and prints a summary of the result (in planFormat). Neither the SNS
+ * server nor the SQS poller is started and the queue is stopped and the state is
+ * persisted before the exit code is returned. (This is called with the CLI options
+ * when '--once' is provided.)
+ *
+ * @return the exit code (see {@link OnceExitCode}). Failed operations are access
+ * errors when every one of them failed because access was denied.
+ */
+export function runOnce(options: Partial<SyncOptions>): Promise<number> {
+  let syncOptions: SyncOptions;
+  try {
+    applyLogOptions(options);
+    syncOptions = checkAndCopySyncOptionsWithDefaults({...options, resyncInterval: 0});
+  } catch (err) {
+    log(`Invalid options. ${err}`, LogLevel.ERROR);
+    return Promise.resolve(OnceExitCode.CONFIGURATION_ERROR);
+  }
+  const shutdownHook = () => {
+    syncOptions.queue.stop();
+    return persistState(syncOptions);
+  };
+  registerShutdownHook(shutdownHook);
+  const startup = syncOptions.stateDir && !syncOptions.dryRun
+    ? cleanUpStaleDownloads({stateDir: syncOptions.stateDir, s3Client: syncOptions.s3Client})
+    : Promise.resolve(0);
+  return startup
+    .then(() => syncOnce(syncOptions))
+    .then(result => {
+      if (syncOptions.dryRun) {
+        // the plan was printed instead
+        return OnceExitCode.SUCCESS;
+      }
+      console.log(formatSyncResult(result, syncOptions.planFormat));
+      if (result.failed === 0) {
+        return OnceExitCode.SUCCESS;
+      }
+      return result.failures.every(failure => isAccessError(failure.error))
+        ? OnceExitCode.ACCESS_ERROR
+        : OnceExitCode.PARTIAL_FAILURE;
+    }, err => {
+      if (isAccessError(err)) {
+        log(`Could not access the bucket. ${err}`, LogLevel.ERROR);
+        return OnceExitCode.ACCESS_ERROR;
+      }
+      log(`Could not complete the sync. ${err}`, LogLevel.ERROR);
+      return OnceExitCode.FAILURE;
+    })
+    .then(exitCode => {
+      removeShutdownHook(shutdownHook);
+      syncOptions.queue.stop();
+      return persistState(syncOptions).then(() => exitCode, err => {
+        log(`Could not persist the state. ${err}`, LogLevel.ERROR);
+        return OnceExitCode.FAILURE;
+      });
+    });
+}
+
+/**
+ * Verifies the local directory against the bucket and prints the report. (This is
+ * called with the CLI options when the 'verify' command is provided.)
+ *
+ * @return the exit code: 0 if the local directory matches the bucket, 1 if it
+ * has drifted and 2 if the verification could not be completed.
+ */
+export function runVerify(options: Partial<VerifyOptions>): Promise<number> {
+  applyLogOptions(options);
+  return verify(options)
+    .then(result => {
+      console.log(formatVerifyResult(result, options.reportFormat));
+      return result.drift.length === 0 ? 0 : 1;
+    })
+    .catch(err => {
+      log(`Could not verify the local directory against the bucket. ${err}`, LogLevel.ERROR);
+      return 2;
+    });
+}
+
+export interface JournalCommandOptions {
+  stateDir: string
+  /**
+   * Whether to compact the journal (removing the entries that are done) after
+   * printing its pending entries.
+   */
+  compactJournal?: boolean
+  /**
+   * The format the pending entries are printed in. Can be 'text' or 'json'.
+   *
+   * Defaults to 'text'.
+   */
+  reportFormat?: SyncPlanFormat
+  log?: LogLevel | string
+}
+
+/**
+ * Formats the pending entries of the journal for output.
+ */
+export function formatJournalEntries(entries: JournalEntry[], doneEntries: number, format: SyncPlanFormat = "text"): string {
+  if (format === "json") {
+    return JSON.stringify({pending: entries, doneEntries}, null, 2);
+  }
+  const lines = [`${entries.length} pending notification(s), ${doneEntries} done entry(ies) awaiting compaction.`];
+  for (let i = 0; i < entries.length; i++) {
+    const {id, MessageId, receivedAt, Records} = entries[i];
+    lines.push(`#${id} MessageId='${MessageId}' received ${new Date(receivedAt).toISOString()}`);
+    for (let j = 0; j < Records.length; j++) {
+      lines.push(`  ${Records[j].eventName} s3://${Records[j].s3.bucket.name}/${Records[j].s3.object.key}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Prints the pending entries of the event journal in the state directory and
+ * optionally compacts it. (This is called with the CLI options when the
+ * 'journal' command is provided.) This should not be run while the program is
+ * running with the same state directory.
+ *
+ * @return the exit code: 0 if the journal was inspected (and compacted) and 2 if
+ * it could not be.
+ */
+export function runJournal(options: Partial<JournalCommandOptions>): Promise<number> {
+  applyLogOptions(options);
+  if (!options.stateDir) {
+    log("'stateDir' must be provided to inspect the event journal.", LogLevel.ERROR);
+    return Promise.resolve(2);
+  }
+  const journal = new EventJournal({stateDir: options.stateDir});
+  console.log(formatJournalEntries(journal.getPendingEntries(), journal.doneEntries, options.reportFormat));
+  if (!options.compactJournal) {
+    return Promise.resolve(0);
+  }
+  return journal.compact()
+                .then(() => {
+                  log(`Compacted the event journal ('${journal.filePath}').`, LogLevel.INFO);
+                  return 0;
+                })
+                .catch(err => {
+                  log(`Could not compact the event journal ('${journal.filePath}'). ${err}`, LogLevel.ERROR);
+                  return 2;
+                });
+}
+
 // run({
 //       log: LogLevel.DEBUG,
 //       rootDir: "./tmp1",
@@ -3,10 +3,12 @@
 * */
 
 import { KeysOfType } from "./typeUtils";
-import { log, LogLevel } from "./logger";
+import { createComponentLog, LogLevel } from "./logger";
 import * as path from "path";
 import { StringTransformer } from "./utils/transformers";
 
+const log = createComponentLog("s3");
+
 /**
  * This is an extension of the S3Object
  */
@@ -0,0 +1,227 @@
+import * as path from "path";
+import * as fs from "fs";
+import { createComponentLog, LogLevel } from "./logger";
+
+const log = createComponentLog("state");
+
+/**
+ * Compares the sequencers of two events of the same key. As described by AWS,
+ * the sequencers are hexadecimal strings that may be of different lengths, so
+ * the shorter one is right-padded with zeros before they are compared
+ * lexicographically.
+ *
+ * @return a negative number if a occurred before b, a positive number if a
+ *         occurred after b and 0 if they are the same event
+ */
+export function compareSequencers(a: string, b: string): number {
+  a = a.toUpperCase();
+  b = b.toUpperCase();
+  while (a.length < b.length) {
+    a += "0";
+  }
+  while (b.length < a.length) {
+    b += "0";
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+export interface SequencerTrackerOptions {
+  /**
+   * When provided, the sequencers are persisted to this directory so that stale
+   * events are also dropped after a restart.
+   */
+  stateDir?: string
+  /**
+   * Changes are persisted this many milliseconds after the first change that has
+   * not been persisted yet.
+   *
+   * Defaults to 1000.
+   */
+  flushDelay?: number
+  /**
+   * The maximum number of keys whose sequencer is kept. When it is reached, the
+   * sequencer of the key whose event was applied least recently is forgotten.
+   *
+   * Defaults to 100,000.
+   */
+  maxSize?: number
+}
+
+/**
+ * Tracks the sequencer of the latest event that was applied for each key.
+ * Event notifications are not delivered in the order the events occurred, so an
+ * event whose sequencer is older than the one that was applied for its key is
+ * stale (e.g., an 'ObjectRemoved' of a key that was created again) and must not
+ * be applied.
+ *
+ * A sequencer is kept for every key that an event was applied for, up to the
+ * maxSize keys whose events were applied most recently.
+ */
+export default class SequencerTracker {
+
+  // bucket and key -> sequencer, in the order the events were applied (least recent first)
+  private sequencers: Map<string, string> = new Map()
+  // bucket and key -> sequencers of the events that are being applied
+  private pending: Map<string, string[]> = new Map()
+  private flushTimeout?: ReturnType<typeof setTimeout>
+  // flushes are chained so that the file is never written concurrently
+  private flushing: Promise<void> = Promise.resolve()
+
+  readonly filePath?: string
+  flushDelay: number
+  maxSize: number
+
+  constructor(options: SequencerTrackerOptions = {}) {
+    this.filePath = options.stateDir && path.resolve(options.stateDir, "sequencers.json");
+    this.flushDelay = options.flushDelay !== undefined ? options.flushDelay : 1000;
+    this.maxSize = options.maxSize !== undefined ? options.maxSize : 100_000;
+    const sequencers = this.filePath ? SequencerTracker.readSequencers(this.filePath) : {};
+    const bucketAndKeys = Object.keys(sequencers);
+    // only the most recently applied are kept if the maxSize has been lowered
+    for (let i = Math.max(0, bucketAndKeys.length - this.maxSize); i < bucketAndKeys.length; i++) {
+      this.sequencers.set(bucketAndKeys[i], sequencers[bucketAndKeys[i]]);
+    }
+  }
+
+  private static readSequencers(filePath: string): { [bucketAndKey: string]: string } {
+    let data: string;
+    try {
+      data = fs.readFileSync(filePath, "utf8");
+    } catch (err) {
+      if (err.code !== "ENOENT") {
+        log(`Could not read the sequencers ('${filePath}'). Starting without sequencers. ${err}`, LogLevel.WARN);
+      }
+      return {};
+    }
+    try {
+      return JSON.parse(data).sequencers || {};
+    } catch (err) {
+      log(`Sequencers ('${filePath}') are corrupt. Starting without sequencers. ${err}`, LogLevel.WARN);
+      return {};
+    }
+  }
+
+  /**
+   * Returns the sequencer of the latest event that was applied for the key or
+   * undefined if none has been.
+   */
+  get(Bucket: string, Key: string): string | undefined {
+    return this.sequencers.get(Bucket + "\n" + Key);
+  }
+
+  /**
+   * Whether the event is stale (an event of the key that occurred later has already
+   * been applied or is being applied). The same event (e.g., a redelivered
+   * notification) is not stale.
+   */
+  isStale(Bucket: string, Key: string, sequencer: string): boolean {
+    const applied = this.get(Bucket, Key);
+    if (applied !== undefined && compareSequencers(sequencer, applied) < 0) {
+      return true;
+    }
+    const pending = this.pending.get(Bucket + "\n" + Key) || [];
+    for (let i = 0; i < pending.length; i++) {
+      if (compareSequencers(sequencer, pending[i]) < 0) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Tracks the event while it is being applied, so that the events of the key that
+   * occurred before it are stale in the meantime. It must be followed by
+   * {@link applied} or {@link failed}.
+   */
+  started(Bucket: string, Key: string, sequencer: string) {
+    const bucketAndKey = Bucket + "\n" + Key;
+    const pending = this.pending.get(bucketAndKey);
+    if (pending) {
+      pending.push(sequencer);
+    } else {
+      this.pending.set(bucketAndKey, [sequencer]);
+    }
+  }
+
+  /**
+   * Stops tracking the event that was being applied (see {@link started}), as it
+   * was not applied.
+   */
+  failed(Bucket: string, Key: string, sequencer: string) {
+    const bucketAndKey = Bucket + "\n" + Key;
+    const pending = this.pending.get(bucketAndKey);
+    if (pending) {
+      const index = pending.indexOf(sequencer);
+      if (index >= 0) {
+        pending.splice(index, 1);
+      }
+      if (pending.length === 0) {
+        this.pending.delete(bucketAndKey);
+      }
+    }
+  }
+
+  /**
+   * Records the sequencer of an event that was applied successfully, unless an
+   * event of the key that occurred later has already been applied (events may
+   * complete in a different order than they occurred).
+   */
+  applied(Bucket: string, Key: string, sequencer: string) {
+    this.failed(Bucket, Key, sequencer);
+    const bucketAndKey = Bucket + "\n" + Key;
+    const applied = this.sequencers.get(bucketAndKey);
+    if (applied !== undefined && compareSequencers(sequencer, applied) < 0) {
+      return;
+    }
+    // moved to the end, as the most recently applied
+    this.sequencers.delete(bucketAndKey);
+    if (this.maxSize <= 0) {
+      return;
+    }
+    if (this.sequencers.size >= this.maxSize) {
+      this.sequencers.delete(this.sequencers.keys().next().value);
+    }
+    this.sequencers.set(bucketAndKey, sequencer);
+    this.scheduleFlush();
+  }
+
+  private scheduleFlush() {
+    if (this.filePath && this.flushTimeout === undefined) {
+      this.flushTimeout = setTimeout(() => {
+        this.flush().catch(err => {
+          log(`Could not persist the sequencers ('${this.filePath}'). ${err}`, LogLevel.ERROR);
+        });
+      }, this.flushDelay);
+    }
+  }
+
+  /**
+   * Persists the sequencers (if a state directory was provided). The file is
+   * written to a temporary file first and then renamed, so partially written
+   * sequencers are never read.
+   */
+  flush(): Promise<void> {
+    if (this.flushTimeout !== undefined) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+    // in the order they were applied, so that the least recently applied are forgotten first after a restart
+    const sequencers: { [bucketAndKey: string]: string } = {};
+    this.sequencers.forEach((sequencer, bucketAndKey) => {
+      sequencers[bucketAndKey] = sequencer;
+    });
+    const data = JSON.stringify({sequencers});
+    const tmpFilePath = filePath + ".tmp";
+    this.flushing = this.flushing
+                        .catch(() => {/* previous failure was already reported */})
+                        .then(() => fs.promises.mkdir(path.dirname(filePath), {recursive: true}))
+                        .then(() => fs.promises.writeFile(tmpFilePath, data))
+                        .then(() => fs.promises.rename(tmpFilePath, filePath));
+    return this.flushing;
+  }
+
+}
@@ -1,4 +1,6 @@
-import { log, LogLevel } from "./logger";
+import { createComponentLog, LogLevel } from "./logger";
+
+const log = createComponentLog("run");
 
 export type StopService = () => Promise<void> | void
 
@@ -68,7 +70,7 @@ function runHooks(exitCode: number, timeoutMillis: number, args?: any) {
       const potentialPromise = shutdownHandlers[i]();
       if (potentialPromise instanceof Promise) {
         potentialPromise.catch(err => { // catch error so as not to hang shutdown process
-          console.error(err);
+          log(err, LogLevel.ERROR);
         });
         promises.push(potentialPromise);
       }
@@ -94,8 +96,11 @@ process.on('exit', () => {
   'SIGUSR2', 'SIGTERM',
 ].forEach(processOnKey => {
   process.on(processOnKey as any, function (args) {
-    console.log("Received shutdown from:");
-    console.log(args);
+    log(`Received shutdown from '${processOnKey}'.`, LogLevel.INFO);
+    if (processOnKey === 'uncaughtException' || processOnKey === 'unhandledRejection') {
+      // the error (or rejection reason) that caused the shutdown
+      log(args, LogLevel.ERROR);
+    }
     runHooks(1, SHUTDOWN_TIMEOUT, args)
   })
 });
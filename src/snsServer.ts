@@ -2,18 +2,27 @@ import * as fs from "fs"
 import * as Http from "http";
 import { IncomingHttpHeaders } from "http";
 import * as Https from "https";
+import * as path from "path";
 import { ConfirmSubscriptionCommand, SNSClient, SubscribeCommand, UnsubscribeCommand } from "@aws-sdk/client-sns";
-import { log, LogLevel } from "./logger";
+import { createComponentLog, LogLevel } from "./logger";
 import { registerShutdownHook, StopService } from "./shutdown";
 import { unlinkFile, writeS3Object } from "./filesystemOps";
 import { applyTransformersToKey } from "./s3ObjectOps";
 import {
   checkAndCopyCommonOptionsWithDefaults,
   CommonOptions,
+  getMappingOptions,
   requireOptions,
   setOptionDefaultIfNotProvided
 } from "./options";
 import MessageValidator from "sns-validator";
+import { normalizeETag } from "./downloadState";
+import EventJournal from "./journal";
+import { AuditSource } from "./auditLog";
+import MessageDeduplicator from "./cache/MessageDeduplicator";
+import { SUPERSEDED, Superseded } from "./AsyncOpQueue";
+
+const log = createComponentLog("sns");
 
 /*
 * Used to compare against the event version of the notification.
@@ -31,7 +40,7 @@ type AwsSnsMessageType = "SubscriptionConfirmation" | "Notification" | "Unsubscr
 /**
  * Headers provided in the AWS HTTP request.
  */
-interface AwsSnsHttpEndpointHeaders extends IncomingHttpHeaders {
+export interface AwsSnsHttpEndpointHeaders extends IncomingHttpHeaders {
   "x-amz-sns-message-type": AwsSnsMessageType
   "x-amz-sns-message-id": string
   "x-amz-sns-topic-arn": string
@@ -43,7 +52,7 @@ interface AwsSnsHttpEndpointHeaders extends IncomingHttpHeaders {
  * This provides information about the S3 Object that was changed
  * to generate the SNS event.
  */
-interface AwsSnsS3RecordS3Object {
+export interface AwsSnsS3RecordS3Object {
   bucket: {
     name: string
     arn: string
@@ -63,7 +72,7 @@ interface AwsSnsS3RecordS3Object {
  * As can be seen below at {@link AwsSnsS3NotificationMessage}, the record will
  * have this structure.
  */
-interface AwsSnsS3Record {
+export interface AwsSnsS3Record {
   /**
    * The region where the S3 bucket resides that created the event.
    */
@@ -156,14 +165,14 @@ interface AwsSnsS3Record {
    ]
  }
  */
-interface AwsSnsS3NotificationMessage {
+export interface AwsSnsS3NotificationMessage {
   Records: AwsSnsS3Record[]
 }
 
 /**
  * The HTTP(S) S3 event notification body.
  */
-interface AwsSnsHttpBody<T extends AwsSnsMessageType, Message> {
+export interface AwsSnsHttpBody<T extends AwsSnsMessageType, Message> {
   Type: T
   MessageId: string
   TopicArn: string
@@ -191,7 +200,7 @@ interface AwsSnsHttpSubConfirmBody extends AwsSnsHttpBody<"SubscriptionConfirmat
 interface AwsSnsHttpUnsubConfirmBody extends AwsSnsHttpBody<"UnsubscribeConfirmation", string>{}
 
 // S3 message
-interface AwsSnsHttpS3NotificationBody extends AwsSnsHttpBody<"Notification", AwsSnsS3NotificationMessage> {}
+export interface AwsSnsHttpS3NotificationBody extends AwsSnsHttpBody<"Notification", AwsSnsS3NotificationMessage> {}
 
 /**
  * The HTTP information of the "notification" request. Provided to the
@@ -207,8 +216,11 @@ export interface AwsSnsHttpS3NotificationRequest {
  * Handles SNS S3 notifications. Abstracting here allows the user to provide a
  * custom implementation if desired. The default implementation will handle
  * creating/updating/deleting the S3 Object from the mirror directory.
+ *
+ * The listener may return a promise that settles once the notification has been
+ * handled (e.g., the SQS message is only deleted once it resolves).
  */
-export type SnsNotificationListener = (notification: AwsSnsHttpS3NotificationRequest) => void;
+export type SnsNotificationListener = (notification: AwsSnsHttpS3NotificationRequest) => void | Promise<void>;
 
 export interface SnsServerOptions extends CommonOptions {
   /**
@@ -288,6 +300,57 @@ export interface SnsServerOptions extends CommonOptions {
    * Defaults to false (i.e., validate the message).
    */
   ignoreMessageValidation?: boolean
+  /**
+   * Whether the default request listener waits for the notification to be
+   * handled (i.e., the objects of its records have been written or removed)
+   * before responding. A notification that fails (or is not handled within
+   * {@link ackTimeout}) is responded to with a 500, so that SNS redelivers it
+   * according to the subscription's delivery policy. Otherwise, the request is
+   * responded to with a 200 once the notification has been received and the
+   * notification is lost if the program is stopped before it is handled.
+   *
+   * Only used when {@link requestListener} is not provided.
+   *
+   * Defaults to false.
+   */
+  ackAfterCompletion?: boolean
+  /**
+   * How long (in milliseconds) the default request listener waits for the
+   * notification to be handled when {@link ackAfterCompletion} is set. SNS
+   * considers the delivery failed if it does not receive a response within 15
+   * seconds, so this should be less than that. The notification's operations
+   * are not canceled when this elapses (the redelivered notification is
+   * handled once they complete).
+   *
+   * Defaults to 10 seconds.
+   */
+  ackTimeout?: number
+  /**
+   * How long (in milliseconds) the MessageIds of the received notifications are
+   * remembered, so that the notifications SNS redelivers within this time are
+   * responded to with a 200 without being handled again. 0 disables this.
+   *
+   * Only used when {@link requestListener} and {@link messageDeduplicator} are
+   * not provided.
+   *
+   * Defaults to 5 minutes.
+   */
+  messageDedupeWindow?: number
+  /**
+   * The maximum number of MessageIds that are remembered (the oldest are
+   * forgotten first).
+   *
+   * Defaults to 10,000.
+   */
+  messageDedupeMaxSize?: number
+  /**
+   * Suppresses the redelivered notifications and counts them (see
+   * {@link MessageDeduplicator.suppressedCount}).
+   *
+   * Defaults to a deduplicator created with {@link messageDedupeWindow} and
+   * {@link messageDedupeMaxSize}, unless messageDedupeWindow is 0.
+   */
+  messageDeduplicator?: MessageDeduplicator
 }
 
 const SNS_MESSAGE_VALIDATOR = new MessageValidator();
@@ -306,16 +369,21 @@ function validateMessage(message: any): Promise<any> {
 
 /**
  * The default implementation will handle creating/updating/deleting the
- * S3 Object from the mirror directory.
+ * S3 Object from the mirror directory. The returned promise resolves once
+ * every write and unlink of the notification has completed and rejects if any
+ * of them failed.
  */
 export function createDefaultSnsNotificationListener(options: SnsServerOptions): SnsNotificationListener {
-  const {s3Client, queue, bucket, rootDir, tmpSuffix, tmpDir, s3KeyTransformers, remove} = options;
+  // each record is handled by every mapping of its bucket whose prefix the key begins with
+  const mappingOptions = getMappingOptions(options);
+  const {sequencerTracker} = options;
   return notification => {
     const { Records } = notification.body.Message;
+    const operations: Promise<unknown>[] = [];
     if (Records && Records.length > 0) {
       for (let i = 0; i < Records.length; i++) {
         const record = Records[i];
-        const {eventName, eventVersion} = record;
+        const {eventVersion} = record;
         const splitEventVersion = eventVersion.split(".");
         if (
           splitEventVersion.length < 2
@@ -326,78 +394,235 @@ export function createDefaultSnsNotificationListener(options: SnsServerOptions):
           throw new Error("Unsupported event version");
         }
         /*
-        * If the key DOES NOT begin with the prefix or if it DOES NOT end with the suffix
-        * then ignore it.
+        * Ensure that the event came from a bucket that is mirrored. Each bucket is
+        * mirrored to its own directories (the mappings' root directories cannot
+        * overlap), so the same key of multiple buckets cannot overwrite each other.
         * */
-        if (options.prefix && !(record.s3.object.key.indexOf(options.prefix) === 0)
-          || options.suffix && !record.s3.object.key.endsWith(options.suffix)) {
+        const bucketMappings = mappingOptions.filter(mapping => mapping.bucket === record.s3.bucket.name);
+        if (bucketMappings.length === 0) {
+          log(`Received event from bucket (${record.s3.bucket.name}) that was not provided in settings `
+                + `(${mappingOptions.map(mapping => mapping.bucket).join(", ")}).`, LogLevel.ERROR,
+              {bucket: record.s3.bucket.name});
           continue;
         }
-        const transformedKey = applyTransformersToKey(record.s3.object.key, s3KeyTransformers);
         /*
-        * Ensure that the event came from the correct bucket. It would easily be possible
-        * to support multiple buckets, but as a safety measure only one bucket is currently
-        * supported. The risk with multiple buckets is that they both have Keys of the same
-        * name and thus could overwrite each other when mirrored to the same directory.
-        * The current workaround would be the user starting multiple SNS HTTP/S server for
-        * multiple buckets.
+        * Notifications are not delivered in order, so an event that occurred before
+        * the one that was applied for the key (e.g., the 'ObjectRemoved' of a key
+        * that has since been created again) is dropped.
         * */
-        if (record.s3.bucket.name === bucket) {
-          if (eventName.indexOf("ObjectCreated:") === 0 || eventName.indexOf("ObjectRestore:") === 0) {
-            /*
-            * It is assumed that the S3 event came from the correct region that the
-            * s3Client is using. If it did not an error will occur.
-            * */
-            const transformedKey = applyTransformersToKey(record.s3.object.key, s3KeyTransformers);
-            // get the object
-            writeS3Object({
-                            s3Client,
-                            queue,
-                            transformedKey,
-                            rootDir,
-                            tmpSuffix,
-                            tmpDir,
-                            Bucket: bucket,
-                            Key: record.s3.object.key,
-                          });
-          } else if (eventName.indexOf("ObjectRemoved:") === 0) {
-            unlinkFile({
-                         queue,
-                         relativeFilePath: transformedKey,
-                         rootDir,
-                         remove,
-                       })
-          } else {
-            log("Unhandled record event name '" + eventName + "'. Default snsNotificationListener handles " +
-                  "'ObjectCreated:*', 'ObjectRestore:*', and 'ObjectRemoved:*' events.", LogLevel.DEBUG)
+        const bucket = record.s3.bucket.name;
+        const {key, sequencer} = record.s3.object;
+        if (sequencerTracker && sequencer && sequencerTracker.isStale(bucket, key, sequencer)) {
+          log(`Skipping stale '${record.eventName}' event of key='${key}', because a later event `
+                + `(sequencer='${sequencerTracker.get(bucket, key)}') was already applied.`,
+              LogLevel.DEBUG, {bucket, key});
+          continue;
+        }
+        const recordOperations: Promise<void | Superseded>[] = [];
+        for (let j = 0; j < bucketMappings.length; j++) {
+          const operation = handleS3Record(record, bucketMappings[j], notification.body.MessageId);
+          if (operation) {
+            recordOperations.push(operation);
           }
+        }
+        if (sequencerTracker && sequencer) {
+          // only once applied, so that a failed event does not make the events that occurred before it stale
+          const tracker = sequencerTracker;
+          tracker.started(bucket, key, sequencer);
+          operations.push(Promise.all(recordOperations).then(outcomes => {
+            // not applied when a later operation of the file replaced it
+            if (outcomes.indexOf(SUPERSEDED) < 0) {
+              tracker.applied(bucket, key, sequencer);
+            } else {
+              tracker.failed(bucket, key, sequencer);
+            }
+          }, err => {
+            tracker.failed(bucket, key, sequencer);
+            return Promise.reject(err);
+          }));
         } else {
-          log(`Received event from bucket (${record.s3.bucket.name}) that was not provided in settings (${bucket}). Currently this is not supported - reduces chances of crossing bucket contents in mirror.`, LogLevel.ERROR);
+          operations.push(...recordOperations);
         }
       }
     }
+    return Promise.all(operations).then(() => undefined);
   };
 }
 
+/**
+ * Writes or removes the record's object in the (mapping's) local directory,
+ * unless the key is filtered out by the options.
+ *
+ * @param MessageId the notification's MessageId (recorded in the audit log)
+ * @return the write or unlink operation or undefined if the record was skipped
+ */
+function handleS3Record(record: AwsSnsS3Record,
+                        options: SnsServerOptions,
+                        MessageId: string): Promise<void | Superseded> | undefined {
+  const {
+    s3Client,
+    queue,
+    bucket,
+    rootDir,
+    tmpSuffix,
+    tmpDir,
+    s3KeyTransformers,
+    remove,
+    stateDir,
+    largeObjectThreshold,
+    partSize,
+    partConcurrency,
+    verifyIntegrity,
+    preserveLastModified,
+    manifest,
+    fileCache,
+    keyFilter,
+    auditLog
+  } = options;
+  const {eventName} = record;
+  const auditSource: AuditSource = {type: "sns", MessageId};
+  /*
+  * If the key DOES NOT begin with the prefix or if it DOES NOT end with the suffix
+  * then ignore it.
+  * */
+  if (options.prefix && !(record.s3.object.key.indexOf(options.prefix) === 0)
+    || options.suffix && !record.s3.object.key.endsWith(options.suffix)) {
+    return undefined;
+  }
+  const transformedKey = applyTransformersToKey(record.s3.object.key, s3KeyTransformers);
+  // e.g., the key of a mapping's prefix itself
+  if (transformedKey === "" || transformedKey === "/") {
+    return undefined;
+  }
+  // the same filter as listing, so that excluded keys are neither written nor removed
+  if (keyFilter && !keyFilter(record.s3.object.key, transformedKey)) {
+    return undefined;
+  }
+  if (eventName.indexOf("ObjectCreated:") === 0 || eventName.indexOf("ObjectRestore:") === 0) {
+    /*
+    * It is assumed that the S3 event came from the correct region that the
+    * s3Client is using. If it did not an error will occur.
+    *
+    * The same version of the object may already have been written (e.g., the
+    * event was redelivered or the object was retrieved by a sync pass first).
+    * */
+    const localPath = path.resolve(rootDir, transformedKey);
+    const cacheEntry = fileCache && fileCache.getCacheEntry(localPath);
+    if (
+      cacheEntry
+      && record.s3.object.eTag
+      && cacheEntry.etag === normalizeETag(record.s3.object.eTag)
+      && cacheEntry.size === record.s3.object.size
+    ) {
+      log(`Skipping key='${record.s3.object.key}', because the same version (ETag) was already written.`,
+          LogLevel.DEBUG, {bucket, key: record.s3.object.key, localPath, operation: "download"});
+      return undefined;
+    }
+    // get the object
+    return writeS3Object({
+                    s3Client,
+                    queue,
+                    transformedKey,
+                    rootDir,
+                    tmpSuffix,
+                    tmpDir,
+                    Bucket: bucket,
+                    Key: record.s3.object.key,
+                    ETag: record.s3.object.eTag,
+                    Size: record.s3.object.size,
+                    stateDir,
+                    manifest,
+                    fileCache,
+                    largeObjectThreshold,
+                    partSize,
+                    partConcurrency,
+                    verifyIntegrity,
+                    preserveLastModified,
+                    auditLog,
+                    auditSource
+                  });
+  } else if (eventName.indexOf("ObjectRemoved:") === 0) {
+    return unlinkFile({
+                 queue,
+                 relativeFilePath: transformedKey,
+                 rootDir,
+                 remove,
+                 manifest,
+                 fileCache,
+                 Bucket: bucket,
+                 Key: record.s3.object.key,
+                 auditLog,
+                 auditSource
+               })
+  } else {
+    log("Unhandled record event name '" + eventName + "'. Default snsNotificationListener handles " +
+          "'ObjectCreated:*', 'ObjectRestore:*', and 'ObjectRemoved:*' events.", LogLevel.DEBUG,
+        {bucket, key: record.s3.object.key})
+    return undefined;
+  }
+}
+
+
+const DEFAULT_ACK_TIMEOUT_MILLIS = 10_000;
+
+/**
+ * Rejects if the promise has not settled within the timeout.
+ */
+function rejectAfterTimeout<T>(promise: Promise<T>, timeoutMillis: number, MessageId: string): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new Error(`Notification (MessageId='${MessageId}') was not handled within ${timeoutMillis}ms.`));
+    }, timeoutMillis);
+    promise.then(res => {
+      clearTimeout(timeout);
+      resolve(res);
+    }, err => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+  });
+}
 
 /**
  * The default request listener does not do any filtering based on httpPath,
  * headers, or any other request information; it simply waits for the
  * 'data' event and calls the SnsEndpointListener provided in the options.
+ *
+ * When ackAfterCompletion is set, a notification is only responded to (with a
+ * 200) once the listener's promise resolves. If it rejects or does not settle
+ * within the ackTimeout a 500 is returned, so that SNS redelivers the
+ * notification.
+ *
+ * When an eventJournal is provided, a notification is only responded to once it
+ * has been appended to the journal and it is marked done once the listener's
+ * promise resolves.
+ *
+ * When a messageDeduplicator is provided, a notification whose MessageId was
+ * received recently is responded to with a 200 without being handled. The
+ * MessageId is forgotten if the notification fails, so that it can be redelivered.
+ * When acknowledging after completion, a duplicate of a notification that is still
+ * being handled is responded to with the outcome of that notification (so that it
+ * is redelivered again if the notification fails).
  */
 export function createDefaultRequestListener(snsClient: SNSClient,
                                              snsNotificationListener: SnsNotificationListener,
-                                             ignoreMessageValidation: boolean = false): Http.RequestListener {
+                                             ignoreMessageValidation: boolean = false,
+                                             ackAfterCompletion: boolean = false,
+                                             ackTimeout: number = DEFAULT_ACK_TIMEOUT_MILLIS,
+                                             eventJournal?: EventJournal,
+                                             messageDeduplicator?: MessageDeduplicator): Http.RequestListener {
   if (!snsClient) {
     throw new Error("An 'snsClient' must be provided.");
   }
   if (!snsNotificationListener) {
     throw new Error("An 'snsNotificationListener' must be provided.");
   }
+  // MessageId -> completion of the notifications that are being handled
+  const inFlight: Map<string, Promise<void>> = new Map();
   return (req, resp) => {
     let chunks: Buffer[] = [];
     req.on('error', err => {
-      console.error(err);
+      log(err, LogLevel.ERROR);
     }).on('data', chunk => {
       chunks.push(chunk);
     }).on('end', () => {
@@ -410,6 +635,8 @@ export function createDefaultRequestListener(snsClient: SNSClient,
       try {
         const body: AwsSnsHttpBody<AwsSnsMessageType, unknown> = JSON.parse(Buffer.concat(chunks).toString());
         (ignoreMessageValidation ? Promise.resolve(body) : validateMessage(body)).then(body => {
+          // the response waits for this when acknowledging after completion
+          let handled: Promise<void> = Promise.resolve();
           if (body.Type === 'SubscriptionConfirmation') {
             log(`Received SubscriptionConfirmation ${JSON.stringify(body)}`, LogLevel.DEBUG);
             const {Token, TopicArn} = body as AwsSnsHttpSubConfirmBody;
@@ -423,7 +650,8 @@ export function createDefaultRequestListener(snsClient: SNSClient,
             * */
             snsClient.send(new ConfirmSubscriptionCommand({Token, TopicArn}))
                      .then(confirmSubResp => {
-                       console.log(`Confirmed subscription to TopicArn='${TopicArn}'. SubscriptionArn='${confirmSubResp.SubscriptionArn}'.`);
+                       log(`Confirmed subscription to TopicArn='${TopicArn}'. SubscriptionArn='${confirmSubResp.SubscriptionArn}'.`,
+                           LogLevel.INFO);
                        // TODO: handle this.
                        confirmSubResp.SubscriptionArn
                      });
@@ -434,16 +662,53 @@ export function createDefaultRequestListener(snsClient: SNSClient,
             * not this will respond to the request with a success, but will not cause
             * any event to occur here on the server.
             * */
-            if ((body.Message as string).indexOf("Records") >= 0) {
+            const MessageId = body.MessageId || req.headers["x-amz-sns-message-id"] as string | undefined;
+            if (messageDeduplicator && MessageId && messageDeduplicator.isDuplicate(MessageId)) {
+              // already received (e.g., SNS retried the request), so responds without any work
+              log(`Skipping duplicate notification (MessageId='${MessageId}'). `
+                    + `${messageDeduplicator.suppressedCount} duplicate(s) have been suppressed.`, LogLevel.DEBUG);
+              const original = inFlight.get(MessageId);
+              if (ackAfterCompletion && original) {
+                handled = rejectAfterTimeout(original, ackTimeout, MessageId);
+              }
+            } else if ((body.Message as string).indexOf("Records") >= 0) {
               /*
               * Convert the message to JSON as it comes in as a string.
               * This will keep it from having to be converted downstream.
               * */
               body.Message = JSON.parse(body.Message as string);
-              snsNotificationListener({
-                                        headers: req.headers as AwsSnsHttpEndpointHeaders,
-                                        body: body as AwsSnsHttpS3NotificationBody
-                                      });
+              const notification = {
+                headers: req.headers as AwsSnsHttpEndpointHeaders,
+                body: body as AwsSnsHttpS3NotificationBody
+              };
+              // written ahead, so that it is replayed on startup if it is not handled
+              const journaled = eventJournal
+                ? eventJournal.append(body.MessageId, notification.body.Message.Records || [])
+                : Promise.resolve(undefined);
+              const completed = journaled.then(entry => (
+                Promise.resolve(notification)
+                       .then(snsNotificationListener)
+                       .then(() => entry && eventJournal!.markDone(entry.id))
+              ));
+              if (messageDeduplicator && MessageId) {
+                const deduplicator = messageDeduplicator;
+                inFlight.set(MessageId, completed);
+                completed.then(() => {
+                  inFlight.delete(MessageId);
+                }, () => {
+                  inFlight.delete(MessageId);
+                  // so that its redelivery is handled
+                  deduplicator.forget(MessageId);
+                });
+              }
+              if (ackAfterCompletion) {
+                handled = rejectAfterTimeout(completed, ackTimeout, body.MessageId);
+              } else {
+                handled = journaled.then(() => undefined);
+                completed.catch(err => {
+                  log(`Failed to handle notification (MessageId='${body.MessageId}'). ${err}`, LogLevel.ERROR);
+                });
+              }
             } else {
               log(`Unhandled notification message. May have received a notification that was not an S3 Object change? Body='${JSON.stringify(body)}'.`, LogLevel.DEBUG);
             }
@@ -454,13 +719,20 @@ export function createDefaultRequestListener(snsClient: SNSClient,
             * the endpoint to the topic and/or the program may also be setup on a
             * resynchronization schedule.
             * */
-            console.log("Received UnsubscribeConfirmation message. '\n" + JSON.stringify(body) + "\n'.");
+            log("Received UnsubscribeConfirmation message. '\n" + JSON.stringify(body) + "\n'.", LogLevel.WARN);
           } else {
             // not handled..
             log(`Received request of unknown/unsupported SNS type: ${JSON.stringify(body)}`, LogLevel.ERROR);
           }
-          resp.statusCode = 200;
-          resp.end();
+          handled.then(() => {
+            resp.statusCode = 200;
+            resp.end();
+          }, err => {
+            log(`Failed to handle notification (MessageId='${body.MessageId}'). Responding with an error so that `
+                  + `it is redelivered. ${err}`, LogLevel.ERROR);
+            resp.statusCode = 500;
+            resp.end();
+          });
         });
       } catch (e) {
         resp.statusCode = 500;
@@ -504,6 +776,13 @@ export function checkAndCopySnsServerOptionsWithDefaults(options: Partial<SnsSer
 
   setOptionDefaultIfNotProvided(snsOptions, 'ignoreUnsubscribeOnShutdown', false);
 
+  setOptionDefaultIfNotProvided(snsOptions, 'ackAfterCompletion', false);
+
+  if (snsOptions.ackTimeout !== undefined && !(snsOptions.ackTimeout > 0)) {
+    throw new Error("'ackTimeout' must be a number greater than 0.");
+  }
+  setOptionDefaultIfNotProvided(snsOptions, 'ackTimeout', DEFAULT_ACK_TIMEOUT_MILLIS);
+
   if (snsOptions.httpPath && snsOptions.httpPath.charAt(0) !== '/') {
     throw new Error("'httpPath' option must begin with forward slash.");
   }
@@ -524,6 +803,20 @@ export function checkAndCopySnsServerOptionsWithDefaults(options: Partial<SnsSer
                       "Https will be used.")
   }
 
+  if (snsOptions.messageDedupeWindow !== undefined && !(snsOptions.messageDedupeWindow >= 0)) {
+    throw new Error("'messageDedupeWindow' must be a number greater than or equal to 0.");
+  }
+  if (snsOptions.messageDedupeMaxSize !== undefined && !(snsOptions.messageDedupeMaxSize >= 1)) {
+    throw new Error("'messageDedupeMaxSize' must be a number greater than or equal to 1.");
+  }
+  let messageDeduplicator = snsOptions.messageDeduplicator;
+  if (!messageDeduplicator && snsOptions.messageDedupeWindow !== 0) {
+    messageDeduplicator = new MessageDeduplicator({
+                                                    window: snsOptions.messageDedupeWindow,
+                                                    maxSize: snsOptions.messageDedupeMaxSize
+                                                  });
+  }
+
   let requestListener = snsOptions.requestListener;
   let snsNotificationListener = snsOptions.snsNotificationListener;
 
@@ -534,7 +827,11 @@ export function checkAndCopySnsServerOptionsWithDefaults(options: Partial<SnsSer
     }
     requestListener = createDefaultRequestListener(snsClient,
                                                    snsNotificationListener,
-                                                   snsOptions.ignoreMessageValidation);
+                                                   snsOptions.ignoreMessageValidation,
+                                                   snsOptions.ackAfterCompletion,
+                                                   snsOptions.ackTimeout,
+                                                   snsOptions.eventJournal,
+                                                   messageDeduplicator);
   }
 
   return {
@@ -542,7 +839,8 @@ export function checkAndCopySnsServerOptionsWithDefaults(options: Partial<SnsSer
     snsClient,
     port,
     requestListener,
-    snsNotificationListener
+    snsNotificationListener,
+    messageDeduplicator
   }
 }
 
@@ -587,7 +885,8 @@ export function startSnsServer(inputOptions: Partial<SnsServerOptions>): StopSer
     * shutting down).
     * */
     if (!options.ignoreUnsubscribeOnShutdown && SubscriptionArn && !hasUnsubscribed) {
-      console.log(`Unsubscribing from SNS topic (${options.topicArn}) with SubscriptionArn='${SubscriptionArn}'.`);
+      log(`Unsubscribing from SNS topic (${options.topicArn}) with SubscriptionArn='${SubscriptionArn}'.`,
+          LogLevel.INFO);
       hasUnsubscribed = true;
       return snsClient.send(new UnsubscribeCommand({SubscriptionArn}))
                       .catch(err => {
@@ -595,7 +894,7 @@ export function startSnsServer(inputOptions: Partial<SnsServerOptions>): StopSer
                         * This is run on shutdown, so just log the error if there is one,
                         * nothing to do for recovery
                         * */
-                        console.error(err);
+                        log(err, LogLevel.ERROR);
                       });
     }
     return Promise.resolve();
@@ -614,7 +913,7 @@ export function startSnsServer(inputOptions: Partial<SnsServerOptions>): StopSer
         listeningAddress += "/" + options.httpPath;
       }
     }
-    console.log(`Server has started listening for SNS events at '${listeningAddress}'.`);
+    log(`Server has started listening for SNS events at '${listeningAddress}'.`, LogLevel.INFO);
     /*
     * Once the server is started, determine whether or not need to create
     * a subscription for this endpoint to the topic. There is no issue
@@ -631,7 +930,8 @@ export function startSnsServer(inputOptions: Partial<SnsServerOptions>): StopSer
                                      ReturnSubscriptionArn: true}
         ))
         .then(res => {
-          console.log(`Subscribed to TopicArn='${options.topicArn}' with Endpoint='${options.endpoint}'. Pending confirmation.`);
+          log(`Subscribed to TopicArn='${options.topicArn}' with Endpoint='${options.endpoint}'. Pending confirmation.`,
+              LogLevel.INFO);
           // need to set this so unsubscribe can be done if desired
           SubscriptionArn = res.SubscriptionArn;
           registerShutdownHook(() => executeUnsubscribeCommand());
@@ -647,7 +947,7 @@ export function startSnsServer(inputOptions: Partial<SnsServerOptions>): StopSer
     return new Promise<void>((resolve, reject) => {
       // make sure server hasn't been closed already
       if (httpServer.listening) {
-        console.log("Closing SNS server.");
+        log("Closing SNS server.", LogLevel.INFO);
         httpServer.close(err => {
           if (err) {
             reject(err);
@@ -0,0 +1,265 @@
+import { DeleteMessageCommand, Message, ReceiveMessageCommand, SQSClient } from "@aws-sdk/client-sqs";
+import { createComponentLog, LogLevel } from "./logger";
+import { registerShutdownHook, StopService } from "./shutdown";
+import {
+  checkAndCopyCommonOptionsWithDefaults,
+  CommonOptions,
+  requireOptions,
+  setOptionDefaultIfNotProvided
+} from "./options";
+import {
+  AwsSnsHttpEndpointHeaders,
+  AwsSnsHttpS3NotificationBody,
+  AwsSnsHttpS3NotificationRequest,
+  createDefaultSnsNotificationListener,
+  SnsNotificationListener,
+  SnsServerOptions
+} from "./snsServer";
+
+const log = createComponentLog("sqs");
+
+export interface SqsPollerOptions extends CommonOptions {
+  /**
+   * The SQS client used to receive and delete the messages.
+   */
+  sqsClient: SQSClient
+  /**
+   * The URL of the SQS queue to poll. The queue may be subscribed to the SNS
+   * topic of the bucket's notifications (with or without raw message delivery)
+   * or receive the bucket's notifications directly.
+   */
+  sqsQueueUrl: string
+  /**
+   * How long (in seconds) each receive request waits for messages to arrive
+   * (long polling). Can be 0 to 20.
+   *
+   * Defaults to 20.
+   */
+  sqsWaitTimeSeconds?: number
+  /**
+   * The maximum number of messages received by each request. Can be 1 to 10.
+   *
+   * Defaults to 10.
+   */
+  sqsMaxMessages?: number
+  /**
+   * The visibility timeout (in seconds) of the received messages. A message that
+   * has not been handled (and deleted) within this time is received again. This
+   * should be longer than the largest object takes to download.
+   *
+   * Defaults to the queue's visibility timeout.
+   */
+  sqsVisibilityTimeout?: number
+  /**
+   * The maximum number of received messages that are being handled at a time.
+   * No more messages are received until the number of messages being handled
+   * is below this.
+   *
+   * Defaults to 100.
+   */
+  sqsMaxInFlightMessages?: number
+  /**
+   * Receives the S3 notifications of the messages. The message is deleted once
+   * the listener's promise resolves (or the listener returns) and is left in the
+   * queue (to be received again) when the listener fails.
+   *
+   * Defaults to {@link createDefaultSnsNotificationListener}.
+   */
+  snsNotificationListener?: SnsNotificationListener
+}
+
+/**
+ * Ensures that the required options are provided and defaults are set
+ * where possible.
+ */
+export function checkAndCopySqsPollerOptionsWithDefaults(options: Partial<SqsPollerOptions>): SqsPollerOptions {
+  const sqsOptions = checkAndCopyCommonOptionsWithDefaults(options);
+
+  requireOptions(sqsOptions, ["sqsQueueUrl"]);
+  const sqsQueueUrl = sqsOptions.sqsQueueUrl!;
+
+  let sqsClient = sqsOptions.sqsClient;
+  if (!sqsClient) {
+    // region will be supplied by common options defaults
+    const {region, accessKeyId, secretAccessKey} = sqsOptions;
+    if (accessKeyId && secretAccessKey) {
+      sqsClient = new SQSClient({region, credentials: {accessKeyId, secretAccessKey}});
+    } else {
+      sqsClient = new SQSClient({region});
+    }
+  }
+
+  if (sqsOptions.sqsWaitTimeSeconds !== undefined &&
+    !(sqsOptions.sqsWaitTimeSeconds >= 0 && sqsOptions.sqsWaitTimeSeconds <= 20)) {
+    throw new Error("'sqsWaitTimeSeconds' must be a number between 0 and 20.");
+  }
+  if (sqsOptions.sqsWaitTimeSeconds === undefined) {
+    sqsOptions.sqsWaitTimeSeconds = 20;
+  }
+
+  if (sqsOptions.sqsMaxMessages !== undefined && !(sqsOptions.sqsMaxMessages >= 1 && sqsOptions.sqsMaxMessages <= 10)) {
+    throw new Error("'sqsMaxMessages' must be a number between 1 and 10.");
+  }
+  setOptionDefaultIfNotProvided(sqsOptions, "sqsMaxMessages", 10);
+
+  if (sqsOptions.sqsMaxInFlightMessages !== undefined && !(sqsOptions.sqsMaxInFlightMessages >= 1)) {
+    throw new Error("'sqsMaxInFlightMessages' must be a number greater than or equal to 1.");
+  }
+  setOptionDefaultIfNotProvided(sqsOptions, "sqsMaxInFlightMessages", 100);
+
+  let snsNotificationListener = sqsOptions.snsNotificationListener;
+  if (!snsNotificationListener) {
+    snsNotificationListener = createDefaultSnsNotificationListener(sqsOptions as SnsServerOptions);
+  }
+
+  return {
+    ...sqsOptions,
+    sqsClient,
+    sqsQueueUrl,
+    snsNotificationListener
+  };
+}
+
+/**
+ * Converts the body of an SQS message to the notification that is provided to
+ * the {@link SnsNotificationListener}. The body is either the SNS envelope (the
+ * queue is subscribed to the topic) or the S3 event itself (raw message delivery
+ * or the bucket notifies the queue directly).
+ *
+ * The SNS envelope is not validated, as only those that are allowed by the
+ * queue's policy can send messages to the queue.
+ *
+ * @return the notification or undefined if the message is not an S3 event
+ *         notification (e.g., the 's3:TestEvent' sent when notifications are
+ *         configured)
+ * @throws if the body is not JSON
+ */
+export function parseSqsMessage(message: Message): AwsSnsHttpS3NotificationRequest | undefined {
+  const body = JSON.parse(message.Body || "");
+  if (body.Type === "Notification" && typeof body.Message === "string") {
+    if (body.Message.indexOf("Records") < 0) {
+      return undefined;
+    }
+    return {
+      headers: {
+        "x-amz-sns-message-type": "Notification",
+        "x-amz-sns-message-id": body.MessageId,
+        "x-amz-sns-topic-arn": body.TopicArn
+      } as AwsSnsHttpEndpointHeaders,
+      body: {...body, Message: JSON.parse(body.Message)}
+    };
+  }
+  if (Array.isArray(body.Records)) {
+    // the S3 event is not wrapped, so the SQS message's ID is used
+    return {
+      headers: {
+        "x-amz-sns-message-type": "Notification",
+        "x-amz-sns-message-id": message.MessageId
+      } as AwsSnsHttpEndpointHeaders,
+      body: {Type: "Notification", MessageId: message.MessageId, Message: body} as AwsSnsHttpS3NotificationBody
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Long polls the SQS queue for the bucket's notifications. This is an
+ * alternative to {@link startSnsServer} for hosts that cannot receive
+ * HTTP(S) requests.
+ *
+ * Each message is provided to the {@link SnsNotificationListener} and deleted
+ * once it has been handled (i.e., the objects have been written or removed).
+ * Messages that could not be handled are left in the queue, so they are received
+ * again once their visibility timeout expires (or are moved to the queue's
+ * dead-letter queue).
+ */
+export function startSqsPoller(inputOptions: Partial<SqsPollerOptions>): StopService {
+
+  const options = checkAndCopySqsPollerOptionsWithDefaults(inputOptions);
+  const {sqsClient, sqsQueueUrl, snsNotificationListener} = options;
+
+  let stopped = false;
+  let inFlightMessages = 0;
+  // resolves the poll that is waiting for a message to be handled (when there are too many in flight)
+  let messageHandled: (() => void) | undefined;
+
+  const deleteMessage = (message: Message) => (
+    sqsClient.send(new DeleteMessageCommand({QueueUrl: sqsQueueUrl, ReceiptHandle: message.ReceiptHandle}))
+  );
+
+  const handleMessage = (message: Message): Promise<void> => {
+    let notification: AwsSnsHttpS3NotificationRequest | undefined;
+    try {
+      notification = parseSqsMessage(message);
+    } catch (err) {
+      // left in the queue, so it is moved to the dead-letter queue (if there is one)
+      log(`Could not parse SQS message (MessageId='${message.MessageId}'). ${err}`, LogLevel.ERROR);
+      return Promise.resolve();
+    }
+    let handled: Promise<void>;
+    if (notification) {
+      log(`Received SQS message: ${message.Body}.`, LogLevel.DEBUG);
+      handled = Promise.resolve(notification).then(snsNotificationListener!);
+    } else {
+      log(`Deleting SQS message (MessageId='${message.MessageId}') that is not an S3 event notification. `
+            + `Body='${message.Body}'.`, LogLevel.DEBUG);
+      handled = Promise.resolve();
+    }
+    return handled.then(() => deleteMessage(message))
+                  .then(() => undefined, err => {
+                    log(`Failed to handle SQS message (MessageId='${message.MessageId}'). It will be received `
+                          + `again. ${err}`, LogLevel.ERROR);
+                  });
+  };
+
+  const poll = (): Promise<void> => {
+    if (stopped) {
+      return Promise.resolve();
+    }
+    if (inFlightMessages >= options.sqsMaxInFlightMessages!) {
+      return new Promise<void>(resolve => messageHandled = resolve).then(poll);
+    }
+    return sqsClient
+      .send(new ReceiveMessageCommand({
+                                        QueueUrl: sqsQueueUrl,
+                                        WaitTimeSeconds: options.sqsWaitTimeSeconds,
+                                        MaxNumberOfMessages: Math.min(options.sqsMaxMessages!,
+                                                                      options.sqsMaxInFlightMessages! - inFlightMessages),
+                                        VisibilityTimeout: options.sqsVisibilityTimeout
+                                      }))
+      .then(resp => {
+        // messages received after stopping are received again once their visibility timeout expires
+        const messages = stopped ? [] : resp.Messages || [];
+        for (let i = 0; i < messages.length; i++) {
+          inFlightMessages++;
+          handleMessage(messages[i]).then(() => {
+            inFlightMessages--;
+            if (messageHandled) {
+              const resolve = messageHandled;
+              messageHandled = undefined;
+              resolve();
+            }
+          });
+        }
+      }, err => {
+        log(`Failed to receive messages from SQS queue '${sqsQueueUrl}'. ${err}`, LogLevel.ERROR);
+        // keeps from retrying in a tight loop when the queue cannot be reached
+        return new Promise<void>(resolve => setTimeout(resolve, 1000));
+      })
+      .then(poll);
+  };
+
+  log(`Polling SQS queue '${sqsQueueUrl}' for S3 events.`, LogLevel.DEBUG);
+  poll();
+
+  const stop = () => {
+    stopped = true;
+    if (messageHandled) {
+      messageHandled();
+    }
+  };
+
+  registerShutdownHook(stop);
+
+  return stop;
+}
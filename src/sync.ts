@@ -1,21 +1,29 @@
 import { GetObjectCommand, ListObjectsV2Command, S3Client } from "@aws-sdk/client-s3";
-import { log, LogLevel } from "./logger";
+import { createComponentLog, LogLevel } from "./logger";
 import * as path from "path";
-import { getDirectoryEntries, rmdirRecursive, unlinkFile, writeS3Object } from "./filesystemOps";
+import { DirEntry, getDirectoryEntries, rmdirRecursive, unlinkFile, writeS3Object } from "./filesystemOps";
 import {
   checkAndCopyCommonOptionsWithDefaults,
   CommonOptions,
+  getMappingOptions,
   setOptionDefaultIfNotProvided
 } from "./options";
-import { getS3List } from "./utils/s3Utils";
+import { getS3List, S3ListObj } from "./utils/s3Utils";
 import { compareStringsUtf8BinaryOrder } from "./utils/stringUtils";
 import {
   checkKeyOrPathIsDirectory,
   keyBelongsInCurrentDirectory
 } from "./utils/keyAndPathUtils";
-import Timeout = NodeJS.Timeout;
 import { registerShutdownHook, StopService } from "./shutdown";
 import { createNormalizationTransformer, NormalizationType, StringTransformer } from "./utils/transformers";
+import { verifyDownloadedObject } from "./integrity";
+import { INTEGRITY_MISMATCH_ERROR_CODE, OBJECT_CHANGED_ERROR_CODE } from "./errors";
+import { KeyFilter } from "./utils/keyFilter";
+import { normalizeETag } from "./downloadState";
+import { AuditSource } from "./auditLog";
+import { SUPERSEDED, Superseded } from "./AsyncOpQueue";
+
+const log = createComponentLog("sync");
 
 /**
  * Options for the sync implementation. This is a combination of options
@@ -57,6 +65,70 @@ export interface SyncOptions extends CommonOptions {
    * already been added.)
    */
   dirEntryTransformers?: StringTransformer[]
+  /**
+   * Plan mode. When true, the keys and directory entries are still listed and
+   * compared, but nothing is downloaded or removed. The planned actions are
+   * provided to {@link syncPlanListener} instead.
+   *
+   * Defaults to false.
+   */
+  dryRun?: boolean
+  /**
+   * The format the default {@link syncPlanListener} prints the plan in (and
+   * {@link runOnce} prints the summary in). Can be 'text' or 'json'.
+   *
+   * Defaults to 'text'.
+   */
+  planFormat?: SyncPlanFormat
+  /**
+   * Receives the planned actions of every sync pass when {@link dryRun} is true.
+   * A default implementation that prints the plan (in {@link planFormat}) to
+   * stdout is used if this is not provided.
+   */
+  syncPlanListener?: SyncPlanListener
+  /**
+   * Safety threshold for removals. If the entries that a sync pass would remove
+   * make up more than this percentage (0-100) of the local directory's entries,
+   * the pass is aborted and nothing is removed. Only used when {@link remove} is
+   * true.
+   *
+   * Defaults to undefined (i.e., no threshold).
+   */
+  maxDeletePercent?: number
+  /**
+   * Safety threshold for removals. If a sync pass would remove more than this
+   * number of local entries, the pass is aborted and nothing is removed. Only
+   * used when {@link remove} is true.
+   *
+   * Defaults to undefined (i.e., no threshold).
+   */
+  maxDeleteCount?: number
+  /**
+   * By default, when a removal threshold ({@link maxDeletePercent} or
+   * {@link maxDeleteCount}) is exceeded only the removals are skipped and the
+   * downloads of the pass still go ahead. When this is true the downloads are
+   * skipped as well.
+   *
+   * Defaults to false.
+   */
+  maxDeleteBlocksDownloads?: boolean
+  /**
+   * Whether each sync pass waits for every download and removal that it submitted
+   * to the queue to complete (or fail). Otherwise a pass is complete once its
+   * operations have been submitted, so the initial sync resolves before the
+   * local directory is consistent with the bucket and the next pass may start
+   * while operations of the previous one are still queued.
+   *
+   * Defaults to true when there is no {@link resyncInterval} (i.e., a one-shot
+   * sync) and false otherwise.
+   */
+  waitForCompletion?: boolean
+  /**
+   * Receives the result of every sync pass (the number of objects downloaded and
+   * updated, entries removed and the operations that failed) once its operations
+   * have settled.
+   */
+  syncResultListener?: SyncResultListener
 }
 
 export interface DirEntryTransformerOptions {
@@ -103,12 +175,30 @@ export function checkAndCopySyncOptionsWithDefaults(initialOptions: Partial<Sync
 
   setOptionDefaultIfNotProvided(options, 'skipInitialSync', false);
   setOptionDefaultIfNotProvided(options, 'maxKeys', 1000);
+  setOptionDefaultIfNotProvided(options, 'dryRun', false);
+  setOptionDefaultIfNotProvided(options, 'planFormat', "text");
+  if (options.waitForCompletion === undefined) {
+    options.waitForCompletion = !options.resyncInterval;
+  }
+
+  if (options.planFormat !== "text" && options.planFormat !== "json") {
+    throw new Error("'planFormat' must be 'text' or 'json'.");
+  }
+
+  if (options.maxDeletePercent !== undefined &&
+    (isNaN(options.maxDeletePercent) || options.maxDeletePercent < 0 || options.maxDeletePercent > 100)) {
+    throw new Error("'maxDeletePercent' must be a number between 0 and 100.");
+  }
+
+  if (options.maxDeleteCount !== undefined && (isNaN(options.maxDeleteCount) || options.maxDeleteCount < 0)) {
+    throw new Error("'maxDeleteCount' must be a number greater than or equal to 0.");
+  }
   // setOptionDefaultIfNotProvided(options, 'resyncInterval', 0);
 
   if (options.resyncInterval && options.resyncInterval < 60 * 1000) {
-    console.warn("Resync is set to " + options.resyncInterval + " (ms), which will cause the S3 bucket to "
-                   + "be polled quite often and could dramatically increase your S3 bill (depends "
-                   + "on frequency and number of objects listed).");
+    log("Resync is set to " + options.resyncInterval + " (ms), which will cause the S3 bucket to "
+          + "be polled quite often and could dramatically increase your S3 bill (depends "
+          + "on frequency and number of objects listed).", LogLevel.WARN);
   }
 
   let dirEntryTransformers = options.dirEntryTransformers;
@@ -117,9 +207,16 @@ export function checkAndCopySyncOptionsWithDefaults(initialOptions: Partial<Sync
     dirEntryTransformers = getDefaultDirEntryTransformers(options);
   }
 
+  let syncPlanListener = options.syncPlanListener;
+  if (!syncPlanListener && options.dryRun) {
+    // each mapping's plan is relative to its own rootDir
+    syncPlanListener = createDefaultSyncPlanListener(options.planFormat, !!options.mappings);
+  }
+
   return {
     ...options,
-    dirEntryTransformers
+    dirEntryTransformers,
+    syncPlanListener
   };
 }
 
@@ -169,234 +266,1085 @@ function checkBucketAccess(s3Client: S3Client, Bucket: string) {
 }
 
 /**
- * Synchronizes the specified directory with the specified S3 bucket. This will list
- * all keys in S3 and all directory entries apply any supplied transformers, sort the
- * keys/entries and then compare them to determine whether or not the key exists locally.
- *
- * If the key does not exists locally it will be downloaded and added.
+ * The type of file system operation a sync pass will perform for a given
+ * key or directory entry.
+ */
+export type SyncActionType = "download" | "update" | "unlink" | "rmdir";
+
+/**
+ * Why the action was planned.
  *
- * If the directory contains entries that are not in the S3 bucket, they will be removed
- * if the `remove` option is `true`.
+ * missingLocally     - the key does not exist in the local directory.
+ * etagChanged        - the S3 object's ETag (or key) differs from what the manifest recorded as written.
+ * sizeMismatch       - the S3 object's size differs from the local file's size.
+ * newerLastModified  - the S3 object was modified after the local file or, when LastModified is preserved,
+ *                      its LastModified differs from the local file's mtime (only used without a manifest entry).
+ * notInBucket        - the local entry does not exist in the bucket (only planned when remove = true).
+ */
+export type SyncActionReason =
+  "missingLocally"
+  | "etagChanged"
+  | "sizeMismatch"
+  | "newerLastModified"
+  | "notInBucket";
+
+/**
+ * A single operation that a sync pass will perform. A list of these is
+ * created by comparing the S3 keys with the local directory entries and
+ * is then either executed or, in plan mode (dryRun), reported to the user.
+ */
+export interface SyncAction {
+  type: SyncActionType
+  reason: SyncActionReason
+  /**
+   * Path relative to the root mirror directory. For download and update actions
+   * this is the transformed key and for unlink and rmdir actions this is the
+   * directory entry.
+   */
+  relativePath: string
+  /**
+   * The S3 object to retrieve. Only provided for download and update actions.
+   */
+  s3ListObj?: S3ListObj
+  /**
+   * The number of local entries (the directory itself and everything within it)
+   * that will be removed. Only provided for rmdir actions.
+   */
+  removedEntryCount?: number
+}
+
+export type SyncPlanFormat = "text" | "json";
+
+/**
+ * The options that determine the actions of the plan (see {@link createSyncPlan}).
+ */
+export type SyncPlanOptions = Partial<Pick<SyncOptions, "remove" | "manifest" | "preserveLastModified" | "keyFilter">>;
+
+/**
+ * Receives the planned actions of a sync pass when {@link SyncOptions.dryRun}
+ * is true. With {@link CommonOptions.mappings}, this is called with the plan
+ * of each mapping.
  *
- * @param inputOptions
+ * The rootDir is the directory the actions' paths are relative to.
  */
-export default async function sync(inputOptions: Partial<SyncOptions>): Promise<StopService> {
+export type SyncPlanListener = (plan: SyncAction[], rootDir: string) => void;
 
-  const options = checkAndCopySyncOptionsWithDefaults(inputOptions);
+/**
+ * Determines whether the S3 object is newer than the local file.
+ *
+ * When the LastModified is preserved, the local file's mtime is the LastModified
+ * of the object that was written, so any difference means the file is not that
+ * object (e.g., the object was replaced or the file was touched by another tool).
+ * S3's LastModified only has second precision and some file systems store mtimes
+ * with less precision, so they are compared in whole seconds.
+ *
+ * Otherwise, the local file's mtime is when it was written, so the object is only
+ * newer if it was modified after the file was written.
+ */
+function lastModifiedIsNewer(lastModified: Date, mtime: Date, preserveLastModified?: boolean): boolean {
+  if (preserveLastModified) {
+    return Math.floor(lastModified.getTime() / 1000) !== Math.floor(mtime.getTime() / 1000);
+  }
+  return lastModified.getTime() > mtime.getTime();
+}
 
-  const { s3Client, queue, rootDir, remove, tmpSuffix, tmpDir } = options;
-
-  // go ahead and capture here. used multiple times below
-  const Bucket = options.bucket;
-  const MaxKeys = options.maxKeys;
-  const Prefix = options.prefix;
-  const suffix = options.suffix;
-
-  async function sync() {
-    log(`Syncing S3 Bucket '${Bucket}' with local directory '${rootDir}'.`, LogLevel.DEBUG);
-    const s3ListPromise = getS3List({
-                                      s3Client,
-                                      Bucket,
-                                      MaxKeys,
-                                      Prefix,
-                                      suffix,
-                                      s3KeyTransformers: options.s3KeyTransformers});
-    const dirEntriesPromise = getDirectoryEntries(rootDir, rootDir);
-    /*
-    * All S3 keys and directory entries have been retrieved and sorted.
-    * Can compare them to determine what needs to be added, updated, or removed.
-    * */
-    const [s3List, dirEntries] = await Promise.all([s3ListPromise, dirEntriesPromise]);
-    let dirEntPos = 0;
-    const getNextDirEntry = () => {
-      return dirEntries[dirEntPos++];
+/**
+ * Iterates through the S3 Objects and the local directory entries and determines
+ * what needs to be added, updated, or removed. Nothing is performed here; the
+ * returned actions are in the order that they should be performed.
+ *
+ * Both arrays must be sorted (UTF-8 binary order) and the S3 objects must have
+ * had their transformedKey set.
+ *
+ * @param s3List the sorted S3 objects (see {@link getS3List})
+ * @param dirEntries the sorted directory entries (see {@link getDirectoryEntries})
+ * @param options.remove whether or not entries that do not exist in the bucket should be removed
+ * @param options.manifest what was written for each key. When an entry exists for a key, its ETag is
+ *                         compared rather than the local file's mtime.
+ * @param options.preserveLastModified whether the local files' mtimes are set to their object's LastModified
+ * @param options.keyFilter local entries that are excluded by the filter are never removed (the S3
+ *                          objects are expected to have been filtered already, see {@link getS3List})
+ */
+export function createSyncPlan(s3List: S3ListObj[],
+                               dirEntries: DirEntry[],
+                               options: SyncPlanOptions = {}): SyncAction[] {
+  const {remove, manifest, preserveLastModified, keyFilter} = options;
+  const plan: SyncAction[] = [];
+  const isExcluded = (relativePath: string) => keyFilter !== undefined && !keyFilter(relativePath, relativePath);
+  let dirEntPos = 0;
+  const getNextDirEntry = () => {
+    return dirEntries[dirEntPos++];
+  }
+  const getNextDirEntryAfterRemovedDir = (removedDir: string) => {
+    let curVal = dirEntries[dirEntPos++];
+    while (curVal !== undefined && curVal.relativePath.indexOf(removedDir) === 0) {
+      curVal = dirEntries[dirEntPos++];
     }
-    const getNextDirEntryAfterRemovedDir = (removedDir: string) => {
-      let curVal = dirEntries[dirEntPos++];
-      while (curVal !== undefined && curVal.relativePath.indexOf(removedDir) === 0) {
-        curVal = dirEntries[dirEntPos++];
+    return curVal;
+  }
+  /*
+  * Adds the rmdir action and returns the next entry after the removed directory's entries.
+  * If any of the directory's entries are excluded, the directory is not removed and its
+  * next entry is returned instead, so that its other entries are removed individually.
+  * */
+  const planRmdir = (removedDir: string) => {
+    for (let i = dirEntPos; i < dirEntries.length && dirEntries[i].relativePath.indexOf(removedDir) === 0; i++) {
+      if (isExcluded(dirEntries[i].relativePath)) {
+        return getNextDirEntry();
       }
-      return curVal;
-    }
-    let s3ListPos = 0;
-    const getNextS3ListObj = () => {
-      return s3List[s3ListPos++];
     }
-    let s3ListObj = getNextS3ListObj();
-    let dirEntry = getNextDirEntry();
+    const startPos = dirEntPos;
+    const nextEntry = getNextDirEntryAfterRemovedDir(removedDir);
     /*
-    * Iterate through the S3 Objects and the local directory entries and
-    * add, update, or remove them as necessary.
-    *
-    * Note that both arrays are sorted at this point, so now can iterate
-    * through each array as required. This creates the following conditions:
-    *
-    * Only care about the S3 objects that are part of the current directory.
-    * This means that the S3 key likely will be available, but it should be
-    * ignored, because it is not part of the current directory. In this case
-    * still need to loop through all of the current directory's entries so
-    * that they can be deleted if required.
-    *
-    * 1. DirEntry < S3Key - need to remove the DirEntry (if deleteOnSync = true),
-    *                       because it does not exist in the bucket
-    * 2. DirEntry = S3Key - need to check DirEntry stats and update the DirEntry if
-    *                       it is outdated
-    * 3. DirEntry > S3Key - need to download the object, because it does not exist
-    *                       in the local directory
+    * startPos is the position after the directory itself and dirEntPos is now one past
+    * the first entry outside of the directory (even when that entry is undefined), so
+    * the difference is the directory's entries plus the directory itself.
     * */
-    while (dirEntry !== undefined || s3ListObj !== undefined) {
-      if (dirEntry !== undefined && s3ListObj !== undefined) {
-        const { transformedKey } = s3ListObj;
-        switch (compareStringsUtf8BinaryOrder(dirEntry.relativePath, transformedKey!)) {
-          case -1:  // case 1 above (DirEntry < S3Key)
+    const removedEntryCount = dirEntPos - startPos;
+    plan.push({type: "rmdir", reason: "notInBucket", relativePath: removedDir, removedEntryCount});
+    return nextEntry;
+  }
+  let s3ListPos = 0;
+  const getNextS3ListObj = () => {
+    return s3List[s3ListPos++];
+  }
+  let s3ListObj = getNextS3ListObj();
+  let dirEntry = getNextDirEntry();
+  /*
+  * Iterate through the S3 Objects and the local directory entries and
+  * add, update, or remove them as necessary.
+  *
+  * Note that both arrays are sorted at this point, so now can iterate
+  * through each array as required. This creates the following conditions:
+  *
+  * Only care about the S3 objects that are part of the current directory.
+  * This means that the S3 key likely will be available, but it should be
+  * ignored, because it is not part of the current directory. In this case
+  * still need to loop through all of the current directory's entries so
+  * that they can be deleted if required.
+  *
+  * 1. DirEntry < S3Key - need to remove the DirEntry (if deleteOnSync = true),
+  *                       because it does not exist in the bucket
+  * 2. DirEntry = S3Key - need to check DirEntry stats and update the DirEntry if
+  *                       it is outdated
+  * 3. DirEntry > S3Key - need to download the object, because it does not exist
+  *                       in the local directory
+  * */
+  while (dirEntry !== undefined || s3ListObj !== undefined) {
+    if (dirEntry !== undefined && s3ListObj !== undefined) {
+      const { transformedKey } = s3ListObj;
+      switch (compareStringsUtf8BinaryOrder(dirEntry.relativePath, transformedKey!)) {
+        case -1:  // case 1 above (DirEntry < S3Key)
+          /*
+          * At this point it is possible that the directory entry is a directory
+          * (i.e., ends with the httpPath.sep) - in this case need to check whether
+          * or not the S3 key is within the directory.
+          * - If the key is within the directory then can skip the entry.
+          * - If the key is NOT within the directory need to remove it (when deleteOnSync = true).
+          * */
+          log(`Dir entry (${dirEntry.relativePath}) comes before the S3 key (${transformedKey}); remove it.`,
+              LogLevel.DEBUG);
+          if (remove) {
             /*
-            * At this point it is possible that the directory entry is a directory
-            * (i.e., ends with the httpPath.sep) - in this case need to check whether
-            * or not the S3 key is within the directory.
-            * - If the key is within the directory then can skip the entry.
-            * - If the key is NOT within the directory need to remove it (when deleteOnSync = true).
+            * If: DirEntry is a directory and the key is NOT within the directory,
+            * then remove the directory, because it occurs before the S3 Key and
+            * therefore is not within the S3 bucket - remove it (remove = true here).
+            *
+            * Else: DirEntry is NOT a directory and it occurs before the S3 Key and
+            * therefore is not within the S3 bucket - remove it (remove = true).
             * */
-            log(`Dir entry (${dirEntry.relativePath}) comes before the S3 key (${transformedKey}); remove it.`,
-                LogLevel.DEBUG);
-            if (remove) {
+            if (isExcluded(dirEntry.relativePath)) {
+              // excluded entries are never removed (a directory's entries are checked individually)
+              dirEntry = getNextDirEntry();
+            } else if (checkKeyOrPathIsDirectory(dirEntry.relativePath) &&
+              !keyBelongsInCurrentDirectory(dirEntry.relativePath, transformedKey)) {
               /*
-              * If: DirEntry is a directory and the key is NOT within the directory,
-              * then remove the directory, because it occurs before the S3 Key and
-              * therefore is not within the S3 bucket - remove it (remove = true here).
-              *
-              * Else: DirEntry is NOT a directory and it occurs before the S3 Key and
-              * therefore is not within the S3 bucket - remove it (remove = true).
+              * When an entire directory is removed, need to go back through the list of
+              * dirEntries and ensure that
               * */
-              if (checkKeyOrPathIsDirectory(dirEntry.relativePath) &&
-                !keyBelongsInCurrentDirectory(dirEntry.relativePath, transformedKey)) {
-                rmdirRecursive({
-                                 queue,
-                                 rootDir,
-                                 relativeDirPath: dirEntry.relativePath
-                               });
-                /*
-                * When an entire directory is removed, need to go back through the list of
-                * dirEntries and ensure that
-                * */
-                dirEntry = getNextDirEntryAfterRemovedDir(dirEntry.relativePath);
-              } else if (!checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
-                /*
-                 * Only unlink when the dirEntry is NOT a directory. Otherwise it is a
-                 * directory and the key resides within it.
-                 * */
-                unlinkFile({
-                             queue,
-                             rootDir,
-                             remove,
-                             relativeFilePath: dirEntry.relativePath
-                           });
-                // advance dir entry
-                dirEntry = getNextDirEntry();
-              } else {  // key belongs in directory, advance to next entry
-                dirEntry = getNextDirEntry();
-              }
-            } else {
+              dirEntry = planRmdir(dirEntry.relativePath);
+            } else if (!checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
               /*
-              * Skipping removal (remove = false), but need to advance to next position.
-              * This is an else condition, because the remove condition above advances
-              * the directory conditionally (based on whether an entire directory was removed).
-              * */
+               * Only unlink when the dirEntry is NOT a directory. Otherwise it is a
+               * directory and the key resides within it.
+               * */
+              plan.push({type: "unlink", reason: "notInBucket", relativePath: dirEntry.relativePath});
+              // advance dir entry
+              dirEntry = getNextDirEntry();
+            } else {  // key belongs in directory, advance to next entry
               dirEntry = getNextDirEntry();
             }
-            break;
-          case 0: // case 2 above (DirEntry = S3Key)
-            log(`Dir entry (${dirEntry.relativePath}) equals the S3 key (${transformedKey}); check for changes.`,
-                LogLevel.DEBUG);
+          } else {
             /*
-            * Are equal, check to see which is the more recent. In the case that the
-            * local file is more recent can ignore, however if it is older it should
-            * be updated -- because this is a MIRROR. If they are not the same size
-            * then they are not the same and the S3 object will be downloaded.
-            *
-            * Because the directory separator is added to the directory entry httpPath,
-            * these will compare exactly if the key is considered a directory.
-            *
-            * Note, skipping if the dirEntry is a directory as there is nothing to do
-            * since the key is equal to the dirEntry and the directory already exists.
+            * Skipping removal (remove = false), but need to advance to next position.
+            * This is an else condition, because the remove condition above advances
+            * the directory conditionally (based on whether an entire directory was removed).
             * */
-            if (!checkKeyOrPathIsDirectory(dirEntry.relativePath) &&
-              (
-                s3ListObj.LastModified!.getTime() > dirEntry.stats.mtime.getTime() ||
-                s3ListObj.Size !== dirEntry.stats.size
-              )
-            ) {
-              log(`Updating dir entry '${dirEntry.relativePath}'.`, LogLevel.DEBUG);
-              writeS3Object({
-                              s3Client,
-                              queue,
-                              transformedKey,
-                              rootDir,
-                              tmpSuffix,
-                              tmpDir,
-                              Bucket,
-                              Key: s3ListObj.Key!
-                            });
-            }
-            dirEntry = getNextDirEntry();
-            s3ListObj = getNextS3ListObj();
-            break;
-          case 1: // case 3 above (DirEntry > S3Key)
-            log(`Dir entry (${dirEntry.relativePath}) comes after the S3 key (${transformedKey}); download S3 object.`,
-                LogLevel.DEBUG);
-            writeS3Object({
-                            s3Client,
-                            queue,
-                            transformedKey,
-                            rootDir,
-                            tmpSuffix,
-                            tmpDir,
-                            Bucket,
-                            Key: s3ListObj.Key!
-                          });
-            s3ListObj = getNextS3ListObj();
-            break;
-        }
-      } else if (dirEntry !== undefined) {
-        // dir entry occurs after all s3 keys have finished. thus, it is not in s3. remove if required.
-        if (remove) {
-          if (checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
-            rmdirRecursive({
-                             rootDir,
-                             queue,
-                             relativeDirPath: dirEntry.relativePath
-                           })
-            dirEntry = getNextDirEntryAfterRemovedDir(dirEntry.relativePath);
-          } else {
-            unlinkFile({
-                         queue,
-                         rootDir,
-                         remove,
-                         relativeFilePath: dirEntry.relativePath
-                       });
             dirEntry = getNextDirEntry();
           }
-        } else {
+          break;
+        case 0: // case 2 above (DirEntry = S3Key)
+          log(`Dir entry (${dirEntry.relativePath}) equals the S3 key (${transformedKey}); check for changes.`,
+              LogLevel.DEBUG);
           /*
-          * Skipping removal (remove = false), but need to advance to next position.
-          * This is an else condition, because the remove condition above advances
-          * the directory conditionally (based on whether an entire directory was removed).
+          * Are equal. When the manifest recorded what was written for the key, the
+          * object is only downloaded if its ETag (or key) has changed, regardless of
+          * the local file's mtime (which other tools, restores, etc. may change).
+          *
+          * Otherwise, check to see which is the more recent. In the case that the
+          * local file is more recent can ignore, however if it is older it should
+          * be updated -- because this is a MIRROR. If they are not the same size
+          * then they are not the same and the S3 object will be downloaded.
+          *
+          * Because the directory separator is added to the directory entry httpPath,
+          * these will compare exactly if the key is considered a directory.
+          *
+          * Note, skipping if the dirEntry is a directory as there is nothing to do
+          * since the key is equal to the dirEntry and the directory already exists.
           * */
+          if (!checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
+            const manifestEntry = manifest && s3ListObj.ETag ? manifest.get(transformedKey!) : undefined;
+            if (
+              manifestEntry
+              && (manifestEntry.Key !== s3ListObj.Key || manifestEntry.ETag !== normalizeETag(s3ListObj.ETag!))
+            ) {
+              plan.push({type: "update", reason: "etagChanged", relativePath: transformedKey, s3ListObj});
+            } else if (s3ListObj.Size !== dirEntry.stats.size) {
+              plan.push({type: "update", reason: "sizeMismatch", relativePath: transformedKey, s3ListObj});
+            } else if (
+              !manifestEntry && lastModifiedIsNewer(s3ListObj.LastModified!, dirEntry.stats.mtime, preserveLastModified)
+            ) {
+              plan.push({type: "update", reason: "newerLastModified", relativePath: transformedKey, s3ListObj});
+            }
+          }
           dirEntry = getNextDirEntry();
+          s3ListObj = getNextS3ListObj();
+          break;
+        case 1: // case 3 above (DirEntry > S3Key)
+          log(`Dir entry (${dirEntry.relativePath}) comes after the S3 key (${transformedKey}); download S3 object.`,
+              LogLevel.DEBUG);
+          plan.push({type: "download", reason: "missingLocally", relativePath: transformedKey, s3ListObj});
+          s3ListObj = getNextS3ListObj();
+          break;
+      }
+    } else if (dirEntry !== undefined) {
+      // dir entry occurs after all s3 keys have finished. thus, it is not in s3. remove if required.
+      if (remove) {
+        if (isExcluded(dirEntry.relativePath)) {
+          dirEntry = getNextDirEntry();
+        } else if (checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
+          dirEntry = planRmdir(dirEntry.relativePath);
+        } else {
+          plan.push({type: "unlink", reason: "notInBucket", relativePath: dirEntry.relativePath});
+          dirEntry = getNextDirEntry();
+        }
+      } else {
+        /*
+        * Skipping removal (remove = false), but need to advance to next position.
+        * This is an else condition, because the remove condition above advances
+        * the directory conditionally (based on whether an entire directory was removed).
+        * */
+        dirEntry = getNextDirEntry();
+      }
+    } else { // s3ListObj !== undefined
+      plan.push({type: "download", reason: "missingLocally", relativePath: s3ListObj!.transformedKey, s3ListObj});
+      s3ListObj = getNextS3ListObj();
+    }
+  }
+  return plan;
+}
+
+/**
+ * A planned action whose operation failed (after it was retried, see
+ * {@link CommonOptions.retryMaxAttempts}).
+ */
+export interface SyncFailure {
+  type: SyncActionType
+  bucket: string
+  /**
+   * The object's key (undefined for removals).
+   */
+  Key?: string
+  /**
+   * The local path, relative to the rootDir.
+   */
+  relativePath: string
+  error: any
+}
+
+/**
+ * The outcome of the operations of a sync pass (of every mapping).
+ */
+export interface SyncResult {
+  /**
+   * The number of objects that were written because they did not exist locally.
+   */
+  downloaded: number
+  /**
+   * The number of objects that were written because they had changed.
+   */
+  updated: number
+  /**
+   * The number of files and directories that were removed.
+   */
+  removed: number
+  /**
+   * The number of operations that were not performed, because a later operation
+   * of the same file (e.g., of an SNS notification) replaced them before they were
+   * run. They are not counted as downloaded, updated or removed.
+   */
+  superseded: number
+  /**
+   * The number of operations that failed.
+   */
+  failed: number
+  failures: SyncFailure[]
+}
+
+/**
+ * Receives the result of every sync pass once its operations have settled.
+ */
+export type SyncResultListener = (result: SyncResult) => void
+
+function createSyncResult(): SyncResult {
+  return {downloaded: 0, updated: 0, removed: 0, superseded: 0, failed: 0, failures: []};
+}
+
+function addSyncResult(result: SyncResult, other: SyncResult) {
+  result.downloaded += other.downloaded;
+  result.updated += other.updated;
+  result.removed += other.removed;
+  result.superseded += other.superseded;
+  result.failed += other.failed;
+  result.failures.push(...other.failures);
+}
+
+/**
+ * Submits the file system operation for each of the planned actions to the queue.
+ *
+ * @return a promise that resolves with the result once the operations of every
+ *         action have settled
+ */
+function executeSyncPlan(plan: SyncAction[], options: SyncOptions, auditSource: AuditSource): Promise<SyncResult> {
+  const {
+    s3Client,
+    queue,
+    rootDir,
+    remove,
+    tmpSuffix,
+    tmpDir,
+    stateDir,
+    largeObjectThreshold,
+    partSize,
+    partConcurrency,
+    verifyIntegrity,
+    preserveLastModified,
+    manifest,
+    fileCache,
+    auditLog
+  } = options;
+  const result = createSyncResult();
+  const operations: Promise<void>[] = [];
+  const track = (action: SyncAction, operation: Promise<void | Superseded>) => {
+    operations.push(operation.then(outcome => {
+      if (outcome === SUPERSEDED) {
+        result.superseded++;
+      } else if (action.type === "download") {
+        result.downloaded++;
+      } else if (action.type === "update") {
+        result.updated++;
+      } else {
+        result.removed++;
+      }
+    }, error => {
+      result.failed++;
+      result.failures.push({
+                             type: action.type,
+                             bucket: options.bucket,
+                             Key: action.s3ListObj?.Key,
+                             relativePath: action.relativePath,
+                             error
+                           });
+    }));
+  };
+  for (let i = 0; i < plan.length; i++) {
+    const action = plan[i];
+    switch (action.type) {
+      case "download":
+      case "update":
+        if (action.type === "update") {
+          log(`Updating dir entry '${action.relativePath}'.`, LogLevel.DEBUG);
+        }
+        track(action, writeS3Object({
+                                  s3Client,
+                                  queue,
+                                  transformedKey: action.relativePath,
+                                  rootDir,
+                                  tmpSuffix,
+                                  tmpDir,
+                                  Bucket: options.bucket,
+                                  Key: action.s3ListObj!.Key!,
+                                  ETag: action.s3ListObj!.ETag,
+                                  Size: action.s3ListObj!.Size,
+                                  LastModified: action.s3ListObj!.LastModified,
+                                  stateDir,
+                                  manifest,
+                                  fileCache,
+                                  largeObjectThreshold,
+                                  partSize,
+                                  partConcurrency,
+                                  verifyIntegrity,
+                                  preserveLastModified,
+                                  auditLog,
+                                  auditSource
+                                }));
+        break;
+      case "unlink":
+        track(action, unlinkFile({
+                                   queue,
+                                   rootDir,
+                                   remove,
+                                   manifest,
+                                   fileCache,
+                                   relativeFilePath: action.relativePath,
+                                   Bucket: options.bucket,
+                                   auditLog,
+                                   auditSource
+                                 }));
+        break;
+      case "rmdir":
+        track(action, rmdirRecursive({
+                                       queue,
+                                       rootDir,
+                                       manifest,
+                                       fileCache,
+                                       relativeDirPath: action.relativePath,
+                                       Bucket: options.bucket,
+                                       auditLog,
+                                       auditSource
+                                     }));
+        break;
+    }
+  }
+  return Promise.all(operations).then(() => result);
+}
+
+/**
+ * Logs the keys whose operations failed permanently during the sync pass.
+ */
+function reportSyncFailures(result: SyncResult) {
+  if (result.failed === 0) {
+    return;
+  }
+  const lines = result.failures.map(({type, bucket, Key, relativePath, error}) => {
+    const key = Key !== undefined ? `key='${Key}'` : `path='${relativePath}'`;
+    return `  ${type} bucket='${bucket}' ${key}: ${error && error.code || error && error.name || error}`;
+  });
+  log(`${result.failed} operation(s) of the sync pass failed:\n${lines.join("\n")}`, LogLevel.ERROR);
+}
+
+/**
+ * Formats the result of a sync pass for output.
+ */
+export function formatSyncResult(result: SyncResult, format: SyncPlanFormat = "text"): string {
+  if (format === "json") {
+    return JSON.stringify({
+                            downloaded: result.downloaded,
+                            updated: result.updated,
+                            removed: result.removed,
+                            superseded: result.superseded,
+                            failed: result.failed,
+                            failures: result.failures.map(failure => ({
+                              type: failure.type,
+                              bucket: failure.bucket,
+                              key: failure.Key,
+                              relativePath: failure.relativePath,
+                              error: String(failure.error && (failure.error.message || failure.error.name)
+                                              || failure.error)
+                            }))
+                          });
+  }
+  let text = "";
+  for (let i = 0; i < result.failures.length; i++) {
+    const failure = result.failures[i];
+    text += `failed ${failure.type.padEnd(8)} ${failure.relativePath}`;
+    if (failure.Key !== undefined && failure.Key !== failure.relativePath) {
+      text += ` (key='${failure.Key}')`;
+    }
+    text += ` ${failure.error && (failure.error.message || failure.error.name) || failure.error}\n`;
+  }
+  return text + `${result.failed === 0 ? "Sync completed" : "Sync completed with failures"}: `
+    + `${result.downloaded} downloaded, ${result.updated} updated, ${result.removed} removed, `
+    + `${result.superseded ? `${result.superseded} superseded, ` : ""}${result.failed} failed.`;
+}
+
+/**
+ * Counts the number of planned actions of each type.
+ */
+export function summarizeSyncPlan(plan: SyncAction[]): { [type in SyncActionType]: number } {
+  const summary = {download: 0, update: 0, unlink: 0, rmdir: 0};
+  for (let i = 0; i < plan.length; i++) {
+    summary[plan[i].type]++;
+  }
+  return summary;
+}
+
+/**
+ * Returns the number of local entries that the plan would remove. A removed
+ * directory counts itself and every entry within it.
+ */
+export function countPlannedRemovals(plan: SyncAction[]): number {
+  let count = 0;
+  for (let i = 0; i < plan.length; i++) {
+    const action = plan[i];
+    if (action.type === "unlink") {
+      count++;
+    } else if (action.type === "rmdir") {
+      count += action.removedEntryCount !== undefined ? action.removedEntryCount : 1;
+    }
+  }
+  return count;
+}
+
+/**
+ * Checks the plan's removals against the {@link SyncOptions.maxDeletePercent} and
+ * {@link SyncOptions.maxDeleteCount} thresholds.
+ *
+ * @param plan the planned actions of the sync pass
+ * @param localEntryCount the number of entries in the local directory when the plan was created
+ * @param options the thresholds
+ * @return a description of the exceeded threshold or undefined if no threshold was exceeded
+ */
+export function checkDeleteThreshold(plan: SyncAction[],
+                                     localEntryCount: number,
+                                     options: Pick<SyncOptions, "maxDeletePercent" | "maxDeleteCount">)
+  : string | undefined {
+  const removalCount = countPlannedRemovals(plan);
+  if (removalCount === 0) {
+    return undefined;
+  }
+  const {maxDeleteCount, maxDeletePercent} = options;
+  if (maxDeleteCount !== undefined && removalCount > maxDeleteCount) {
+    return `${removalCount} local entries would be removed, which exceeds maxDeleteCount (${maxDeleteCount}).`;
+  }
+  if (maxDeletePercent !== undefined && localEntryCount > 0) {
+    const removalPercent = removalCount / localEntryCount * 100;
+    if (removalPercent > maxDeletePercent) {
+      return `${removalCount} of ${localEntryCount} local entries (${removalPercent.toFixed(2)}%) would be removed, `
+        + `which exceeds maxDeletePercent (${maxDeletePercent}%).`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Removes the actions that should not be performed when a removal threshold is
+ * exceeded. All removals are dropped and, if {@link SyncOptions.maxDeleteBlocksDownloads}
+ * is true, the downloads are dropped as well.
+ */
+function applyDeleteThreshold(plan: SyncAction[], localEntryCount: number, options: SyncOptions): SyncAction[] {
+  const exceeded = checkDeleteThreshold(plan, localEntryCount, options);
+  if (exceeded === undefined) {
+    return plan;
+  }
+  if (options.maxDeleteBlocksDownloads) {
+    log(`Aborting sync pass of S3 Bucket '${options.bucket}' with local directory '${options.rootDir}'. `
+          + `${exceeded} Nothing will be downloaded or removed.`, LogLevel.ERROR,
+        {bucket: options.bucket, localPath: options.rootDir, operation: "sync"});
+    return [];
+  }
+  log(`Aborting removals of sync pass of S3 Bucket '${options.bucket}' with local directory '${options.rootDir}'. `
+        + `${exceeded} Nothing will be removed, but downloads will continue.`, LogLevel.ERROR,
+      {bucket: options.bucket, localPath: options.rootDir, operation: "sync"});
+  return plan.filter(action => action.type !== "unlink" && action.type !== "rmdir");
+}
+
+/**
+ * Formats the plan so that it can be printed. The JSON format is meant to be
+ * consumed by other programs (e.g., a deploy pipeline) and the text format
+ * is meant to be read by the user.
+ *
+ * The rootDir the actions' paths are relative to is included when provided.
+ */
+export function formatSyncPlan(plan: SyncAction[], format: SyncPlanFormat = "text", rootDir?: string): string {
+  const summary = summarizeSyncPlan(plan);
+  if (format === "json") {
+    return JSON.stringify({
+                            rootDir,
+                            actions: plan.map(action => ({
+                              type: action.type,
+                              reason: action.reason,
+                              relativePath: action.relativePath,
+                              key: action.s3ListObj?.Key,
+                              size: action.s3ListObj?.Size,
+                              lastModified: action.s3ListObj?.LastModified,
+                              removedEntryCount: action.removedEntryCount
+                            })),
+                            summary
+                          });
+  }
+  let text = rootDir ? `Plan for '${rootDir}':\n` : "";
+  for (let i = 0; i < plan.length; i++) {
+    const action = plan[i];
+    text += `${action.type.padEnd(8)} ${action.reason.padEnd(17)} ${action.relativePath}`;
+    if (action.s3ListObj && action.s3ListObj.Key !== action.relativePath) {
+      text += ` (key='${action.s3ListObj.Key}')`;
+    }
+    text += "\n";
+  }
+  return text + `${plan.length} planned action(s): ${summary.download} download, ${summary.update} update, `
+    + `${summary.unlink} unlink, ${summary.rmdir} rmdir.`;
+}
+
+/**
+ * The default plan listener prints the plan to stdout in the provided format.
+ * The rootDir of each plan is printed as well when includeRootDir is true (i.e.,
+ * there are multiple mappings).
+ */
+export function createDefaultSyncPlanListener(format?: SyncPlanFormat, includeRootDir?: boolean): SyncPlanListener {
+  return (plan, rootDir) => {
+    console.log(formatSyncPlan(plan, format, includeRootDir ? rootDir : undefined));
+  };
+}
+
+interface ListedSyncPlan {
+  plan: SyncAction[]
+  /**
+   * The number of local directory entries the plan was created from.
+   */
+  localEntryCount: number
+}
+
+/**
+ * Lists the bucket's keys and the local directory's entries. Both are sorted and
+ * have had their transformers applied, so they can be compared.
+ *
+ * The file cache's stats are used for the local entries unless ignoreFileCache
+ * is true.
+ */
+async function listBucketAndDirectory(options: SyncOptions,
+                                      ignoreFileCache?: boolean): Promise<[S3ListObj[], DirEntry[]]> {
+  const { s3Client, rootDir } = options;
+  const s3ListPromise = getS3List({
+                                    s3Client,
+                                    Bucket: options.bucket,
+                                    MaxKeys: options.maxKeys,
+                                    Prefix: options.prefix,
+                                    suffix: options.suffix,
+                                    keyFilter: options.keyFilter,
+                                    s3KeyTransformers: options.s3KeyTransformers});
+  // the temporary files are only written to the rootDir when there is no tmpDir
+  const dirEntriesPromise = getDirectoryEntries(rootDir,
+                                                rootDir,
+                                                ignoreFileCache ? undefined : options.fileCache,
+                                                options.tmpDir ? undefined : options.tmpSuffix);
+  return Promise.all([s3ListPromise, dirEntriesPromise]);
+}
+
+/**
+ * Lists the bucket's keys and the local directory's entries and creates the
+ * plan of actions required to synchronize the local directory with the bucket.
+ */
+async function listAndCreateSyncPlan(options: SyncOptions): Promise<ListedSyncPlan> {
+  log(`Syncing S3 Bucket '${options.bucket}' with local directory '${options.rootDir}'.`, LogLevel.DEBUG,
+      {bucket: options.bucket, localPath: options.rootDir, operation: "sync"});
+  /*
+  * All S3 keys and directory entries have been retrieved and sorted.
+  * Can compare them to determine what needs to be added, updated, or removed.
+  * */
+  const [s3List, dirEntries] = await listBucketAndDirectory(options);
+  return {
+    plan: createSyncPlan(s3List, dirEntries, options),
+    localEntryCount: dirEntries.length
+  };
+}
+
+/**
+ * Creates the plan for synchronizing the local directory with the S3 bucket
+ * without performing any of the planned actions.
+ *
+ * With {@link CommonOptions.mappings}, the plans of the mappings are returned
+ * in the order of the mappings (each action's path is relative to its mapping's
+ * rootDir).
+ *
+ * @param inputOptions
+ */
+export async function getSyncPlan(inputOptions: Partial<SyncOptions>): Promise<SyncAction[]> {
+  const mappingOptions = getMappingOptions(checkAndCopySyncOptionsWithDefaults(inputOptions));
+  const plans = await Promise.all(mappingOptions.map(options => listAndCreateSyncPlan(options)));
+  return ([] as SyncAction[]).concat(...plans.map(listed => listed.plan));
+}
+
+/**
+ * How the local mirror differs from the bucket.
+ *
+ * missing       - the key does not exist in the local directory.
+ * extra         - the local entry does not exist in the bucket.
+ * sizeMismatch  - the S3 object's size differs from the local file's size.
+ * hashMismatch  - the local file's content does not match the S3 object (only checked when verifyHashes = true).
+ */
+export type MirrorDriftType = "missing" | "extra" | "sizeMismatch" | "hashMismatch";
+
+export interface MirrorDrift {
+  type: MirrorDriftType
+  /**
+   * Path relative to the root mirror directory (the transformed key or the directory entry).
+   */
+  relativePath: string
+  /**
+   * The S3 object. Not provided for extra entries.
+   */
+  s3ListObj?: S3ListObj
+  /**
+   * The size of the local file. Only provided for size and hash mismatches.
+   */
+  localSize?: number
+  /**
+   * Why the content does not match. Only provided for hash mismatches.
+   */
+  detail?: string
+}
+
+/**
+ * A local file that exists in the bucket with the same size.
+ */
+interface MatchedFile {
+  relativePath: string
+  s3ListObj: S3ListObj
+}
+
+interface MirrorComparison {
+  drift: MirrorDrift[]
+  matchedFiles: MatchedFile[]
+}
+
+export interface VerifyOptions extends SyncOptions {
+  /**
+   * Whether or not to compare the content of the local files that have the same
+   * size as their S3 object. This reads every file and requests each object's
+   * metadata (see {@link verifyDownloadedObject}), so it is much slower.
+   *
+   * Defaults to false.
+   */
+  verifyHashes?: boolean
+  /**
+   * The format {@link formatVerifyResult} uses by default. Can be 'text' or 'json'.
+   *
+   * Defaults to 'text'.
+   */
+  reportFormat?: SyncPlanFormat
+}
+
+export interface VerifyResult {
+  /**
+   * Every difference between the mirror and the bucket, sorted by relativePath.
+   * Empty when the mirror matches the bucket.
+   */
+  drift: MirrorDrift[]
+  /**
+   * The number of keys that were compared.
+   */
+  keyCount: number
+  /**
+   * The number of local directory entries that were compared.
+   */
+  localEntryCount: number
+}
+
+/**
+ * Compares the S3 Objects with the local directory entries, in the same way
+ * {@link createSyncPlan} does, and returns the differences. Local directories
+ * are only extra if no key resides within them and every extra entry is
+ * reported (i.e., an extra directory and each of its entries).
+ *
+ * Local entries that are excluded by the key filter are not reported, nor are
+ * the directories that contain them.
+ *
+ * Both arrays must be sorted (UTF-8 binary order) and the S3 objects must have
+ * had their transformedKey set.
+ */
+export function findMirrorDrift(s3List: S3ListObj[], dirEntries: DirEntry[], keyFilter?: KeyFilter): MirrorComparison {
+  const drift: MirrorDrift[] = [];
+  const isExcluded = (relativePath: string) => keyFilter !== undefined && !keyFilter(relativePath, relativePath);
+  const containsExcludedEntry = (dirPos: number, dir: string) => {
+    for (let i = dirPos; i < dirEntries.length && dirEntries[i].relativePath.indexOf(dir) === 0; i++) {
+      if (isExcluded(dirEntries[i].relativePath)) {
+        return true;
+      }
+    }
+    return false;
+  };
+  const matchedFiles: MatchedFile[] = [];
+  let dirEntPos = 0;
+  let s3ListPos = 0;
+  let dirEntry = dirEntries[dirEntPos++];
+  let s3ListObj = s3List[s3ListPos++];
+  while (dirEntry !== undefined || s3ListObj !== undefined) {
+    const comparison = dirEntry === undefined
+      ? 1
+      : s3ListObj === undefined
+        ? -1
+        : compareStringsUtf8BinaryOrder(dirEntry.relativePath, s3ListObj.transformedKey!);
+    if (comparison < 0) {  // DirEntry < S3Key
+      // a directory is not extra when the (next) key is within it
+      if (isExcluded(dirEntry.relativePath)) {
+        // not part of the mirror
+      } else if (!checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
+        drift.push({type: "extra", relativePath: dirEntry.relativePath});
+      } else if (
+        (s3ListObj === undefined || !keyBelongsInCurrentDirectory(dirEntry.relativePath, s3ListObj.transformedKey))
+        && !containsExcludedEntry(dirEntPos, dirEntry.relativePath)
+      ) {
+        drift.push({type: "extra", relativePath: dirEntry.relativePath});
+      }
+      dirEntry = dirEntries[dirEntPos++];
+    } else if (comparison === 0) {
+      if (!checkKeyOrPathIsDirectory(dirEntry.relativePath)) {
+        if (s3ListObj.Size !== dirEntry.stats.size) {
+          drift.push({
+                       type: "sizeMismatch",
+                       relativePath: dirEntry.relativePath,
+                       s3ListObj,
+                       localSize: dirEntry.stats.size
+                     });
+        } else {
+          matchedFiles.push({relativePath: dirEntry.relativePath, s3ListObj});
         }
-      } else { // s3ListObj !== undefined
-        const { transformedKey } = s3ListObj!;
-        writeS3Object({
-                        s3Client,
-                        queue,
-                        transformedKey,
-                        rootDir,
-                        tmpSuffix,
-                        tmpDir,
-                        Bucket,
-                        Key: s3ListObj!.Key!
-                      })
-        s3ListObj = getNextS3ListObj();
       }
+      dirEntry = dirEntries[dirEntPos++];
+      s3ListObj = s3List[s3ListPos++];
+    } else {  // DirEntry > S3Key
+      drift.push({type: "missing", relativePath: s3ListObj.transformedKey!, s3ListObj});
+      s3ListObj = s3List[s3ListPos++];
+    }
+  }
+  return {drift, matchedFiles};
+}
+
+/**
+ * Compares the content of the matched files with their S3 objects, with at most
+ * maxConcurrency files being compared at a time.
+ */
+async function findHashMismatches(matchedFiles: MatchedFile[], options: VerifyOptions): Promise<MirrorDrift[]> {
+  const {s3Client, rootDir, bucket} = options;
+  const mismatches: MirrorDrift[] = [];
+  let next = 0;
+  const verifyRemainingFiles = (): Promise<void> => {
+    if (next >= matchedFiles.length) {
+      return Promise.resolve();
+    }
+    const {relativePath, s3ListObj} = matchedFiles[next++];
+    return verifyDownloadedObject({
+                                    s3Client,
+                                    Bucket: bucket,
+                                    Key: s3ListObj.Key!,
+                                    ETag: s3ListObj.ETag,
+                                    filePath: path.resolve(rootDir, relativePath)
+                                  })
+      .catch(err => {
+        if (err.code !== INTEGRITY_MISMATCH_ERROR_CODE && err.code !== OBJECT_CHANGED_ERROR_CODE) {
+          return Promise.reject(err);
+        }
+        mismatches.push({
+                          type: "hashMismatch",
+                          relativePath,
+                          s3ListObj,
+                          localSize: s3ListObj.Size,
+                          detail: err.message
+                        });
+      })
+      .then(verifyRemainingFiles);
+  };
+  const workers: Promise<void>[] = [];
+  for (let i = 0; i < Math.min(options.maxConcurrency || 1, matchedFiles.length); i++) {
+    workers.push(verifyRemainingFiles());
+  }
+  await Promise.all(workers);
+  return mismatches;
+}
+
+/**
+ * Formats the verify result so that it can be printed, like {@link formatSyncPlan}.
+ */
+export function formatVerifyResult(result: VerifyResult, format: SyncPlanFormat = "text"): string {
+  const summary = {missing: 0, extra: 0, sizeMismatch: 0, hashMismatch: 0};
+  for (let i = 0; i < result.drift.length; i++) {
+    summary[result.drift[i].type]++;
+  }
+  if (format === "json") {
+    return JSON.stringify({
+                            drift: result.drift.map(drift => ({
+                              type: drift.type,
+                              relativePath: drift.relativePath,
+                              key: drift.s3ListObj?.Key,
+                              size: drift.s3ListObj?.Size,
+                              localSize: drift.localSize,
+                              detail: drift.detail
+                            })),
+                            keyCount: result.keyCount,
+                            localEntryCount: result.localEntryCount,
+                            summary
+                          });
+  }
+  let text = "";
+  for (let i = 0; i < result.drift.length; i++) {
+    const drift = result.drift[i];
+    text += `${drift.type.padEnd(12)} ${drift.relativePath}`;
+    if (drift.s3ListObj && drift.s3ListObj.Key !== drift.relativePath) {
+      text += ` (key='${drift.s3ListObj.Key}')`;
+    }
+    if (drift.type === "sizeMismatch") {
+      text += ` (size=${drift.s3ListObj!.Size}, localSize=${drift.localSize})`;
+    } else if (drift.detail) {
+      text += ` (${drift.detail})`;
+    }
+    text += "\n";
+  }
+  return text + `${result.drift.length === 0 ? "Mirror matches the bucket" : "Mirror has drifted"}: `
+    + `${result.keyCount} key(s) and ${result.localEntryCount} local entries compared. ${summary.missing} missing, `
+    + `${summary.extra} extra, ${summary.sizeMismatch} size mismatch, ${summary.hashMismatch} hash mismatch.`;
+}
+
+/**
+ * Checks and copies the sync options and then checks and copies the options
+ * directly related to verification.
+ */
+export function checkAndCopyVerifyOptionsWithDefaults(initialOptions: Partial<VerifyOptions>): VerifyOptions {
+  if (initialOptions.mappings && initialOptions.mappings.length > 0) {
+    throw new Error("'mappings' are not supported when verifying. Verify each mapping with its prefix and rootDir.");
+  }
+  const options = checkAndCopySyncOptionsWithDefaults(initialOptions) as VerifyOptions;
+  setOptionDefaultIfNotProvided(options, 'verifyHashes', false);
+  setOptionDefaultIfNotProvided(options, 'reportFormat', "text");
+  if (options.reportFormat !== "text" && options.reportFormat !== "json") {
+    throw new Error("'reportFormat' must be 'text' or 'json'.");
+  }
+  return options;
+}
+
+/**
+ * Audits the local directory against the S3 bucket without modifying anything.
+ * Lists the keys and the directory entries (like a sync pass) and reports the
+ * keys that are missing locally, the local entries that are not in the bucket
+ * and the files whose size (and, when verifyHashes is true, content) differs
+ * from their S3 object.
+ *
+ * If the queue was not provided it is stopped once the verification completes.
+ *
+ * @param inputOptions
+ */
+export async function verify(inputOptions: Partial<VerifyOptions>): Promise<VerifyResult> {
+  const options = checkAndCopyVerifyOptionsWithDefaults(inputOptions);
+  try {
+    log(`Verifying local directory '${options.rootDir}' against S3 Bucket '${options.bucket}'.`, LogLevel.DEBUG);
+    // the local files are always checked, as the cache may not reflect changes made by other programs
+    const [s3List, dirEntries] = await listBucketAndDirectory(options, true);
+    const {drift, matchedFiles} = findMirrorDrift(s3List, dirEntries, options.keyFilter);
+    if (options.verifyHashes) {
+      drift.push(...await findHashMismatches(matchedFiles, options));
+      drift.sort((a, b) => compareStringsUtf8BinaryOrder(a.relativePath, b.relativePath));
+    }
+    return {drift, keyCount: s3List.length, localEntryCount: dirEntries.length};
+  } finally {
+    if (!inputOptions.queue) {
+      options.queue.stop();
+    }
+  }
+}
+
+/**
+ * Lists and plans each mapping and submits the operations of its plan to the queue
+ * (or provides the plan to the syncPlanListener when dryRun is true).
+ *
+ * @return the promises of the results of the mappings' operations
+ */
+async function submitSyncPass(mappingOptions: SyncOptions[],
+                              auditSource: AuditSource): Promise<Promise<SyncResult>[]> {
+  const completions: Promise<SyncResult>[] = [];
+  for (let i = 0; i < mappingOptions.length; i++) {
+    const options = mappingOptions[i];
+    const {plan, localEntryCount} = await listAndCreateSyncPlan(options);
+    if (options.dryRun) {
+      // the full plan is still reported, but the user is made aware that it would be aborted
+      const exceeded = checkDeleteThreshold(plan, localEntryCount, options);
+      if (exceeded !== undefined) {
+        log(`The planned sync pass would be aborted. ${exceeded}`, LogLevel.ERROR);
+      }
+      options.syncPlanListener!(plan, options.rootDir);
+    } else {
+      completions.push(executeSyncPlan(applyDeleteThreshold(plan, localEntryCount, options), options, auditSource));
+    }
+  }
+  return completions;
+}
+
+/**
+ * Combines the results of the mappings once their operations have settled, reports
+ * the failures and provides the result to the syncResultListener.
+ */
+function completeSyncPass(completions: Promise<SyncResult>[],
+                          options: SyncOptions,
+                          startTime: number): Promise<SyncResult> {
+  return Promise.all(completions).then(results => {
+    const result = createSyncResult();
+    for (let i = 0; i < results.length; i++) {
+      addSyncResult(result, results[i]);
+    }
+    log(`Completed sync pass. ${result.downloaded} downloaded, ${result.updated} updated, ${result.removed} removed, `
+          + `${result.superseded} superseded, ${result.failed} failed.`, LogLevel.DEBUG, {operation: "sync", duration: Date.now() - startTime});
+    reportSyncFailures(result);
+    if (options.syncResultListener) {
+      options.syncResultListener(result);
+    }
+    return result;
+  });
+}
+
+/**
+ * Performs a single sync pass (see {@link sync}) and waits for every operation
+ * that it submitted to settle, regardless of {@link SyncOptions.waitForCompletion}
+ * and {@link SyncOptions.resyncInterval}.
+ *
+ * @param inputOptions
+ * @return the result of the pass (the result is empty when dryRun is true)
+ */
+export async function syncOnce(inputOptions: Partial<SyncOptions>): Promise<SyncResult> {
+  const options = checkAndCopySyncOptionsWithDefaults(inputOptions);
+  const startTime = Date.now();
+  const completions = await submitSyncPass(getMappingOptions(options), {type: "initialSync"});
+  return completeSyncPass(completions, options, startTime);
+}
+
+/**
+ * Synchronizes the specified directory with the specified S3 bucket. This will list
+ * all keys in S3 and all directory entries apply any supplied transformers, sort the
+ * keys/entries and then compare them to determine whether or not the key exists locally.
+ *
+ * If the key does not exists locally it will be downloaded and added.
+ *
+ * If the directory contains entries that are not in the S3 bucket, they will be removed
+ * if the `remove` option is `true`.
+ *
+ * If the `dryRun` option is `true` nothing is downloaded or removed and the planned
+ * actions are provided to the `syncPlanListener` instead.
+ *
+ * When the `waitForCompletion` option is `true` each pass (and the returned promise
+ * for the initial pass) waits for every operation that it submitted to settle.
+ * The result of every pass is provided to the `syncResultListener`.
+ *
+ * @param inputOptions
+ */
+export default async function sync(inputOptions: Partial<SyncOptions>): Promise<StopService> {
+
+  const options = checkAndCopySyncOptionsWithDefaults(inputOptions);
+  // each mapping is synchronized separately (the removal thresholds apply to each)
+  const mappingOptions = getMappingOptions(options);
+
+  async function sync(auditSource: AuditSource) {
+    const startTime = Date.now();
+    const completion = completeSyncPass(await submitSyncPass(mappingOptions, auditSource), options, startTime);
+    if (options.waitForCompletion) {
+      await completion;
     }
   }
 
@@ -404,12 +1352,12 @@ export default async function sync(inputOptions: Partial<SyncOptions>): Promise<
 
   if (!options.skipInitialSync) {
     currentlySyncing = true;
-    await sync();
+    await sync({type: "initialSync"});
     currentlySyncing = false;
   }
 
   // tracks the timeout for the sync operation
-  let timeout: Timeout;
+  let timeout: ReturnType<typeof setTimeout>;
 
   /*
   * Currently, the resync interval is reset AFTER the resynchronization operation has
@@ -423,18 +1371,17 @@ export default async function sync(inputOptions: Partial<SyncOptions>): Promise<
       if (!currentlySyncing) {
         log("Resynchronizing. Interval = " + resyncInterval + " milliseconds.", LogLevel.DEBUG);
         currentlySyncing = true;
-        await sync();
+        await sync({type: "resync"});
         currentlySyncing = false;
       }
       timeout = setTimeout(executeResync, resyncInterval);
     }
     timeout = setTimeout(executeResync, resyncInterval);
+    registerShutdownHook(() => {
+      clearTimeout(timeout);
+    });
   }
 
-  registerShutdownHook(() => {
-    clearTimeout(timeout);
-  });
-
   return () => {
     clearTimeout(timeout);
   }
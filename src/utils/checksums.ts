@@ -0,0 +1,92 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+
+/**
+ * The algorithms that can be used to check the content of an object. MD5 is used
+ * with single part ETags, the others are the additional checksums that S3 stores
+ * (x-amz-checksum-*).
+ */
+export type ChecksumAlgorithm = "MD5" | "CRC32" | "CRC32C" | "SHA1" | "SHA256";
+
+export interface Checksum {
+  algorithm: ChecksumAlgorithm
+  update(data: Buffer): void
+  digest(): Buffer
+}
+
+const CRC32_TABLES: { [polynomial: number]: Uint32Array } = {};
+
+/*
+* Lookup table for the reflected polynomial. Only created once it is needed.
+* */
+function getCrc32Table(polynomial: number): Uint32Array {
+  let table = CRC32_TABLES[polynomial];
+  if (!table) {
+    table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let crc = i;
+      for (let j = 0; j < 8; j++) {
+        crc = crc & 1 ? (crc >>> 1) ^ polynomial : crc >>> 1;
+      }
+      table[i] = crc >>> 0;
+    }
+    CRC32_TABLES[polynomial] = table;
+  }
+  return table;
+}
+
+function createCrc32(algorithm: "CRC32" | "CRC32C", polynomial: number): Checksum {
+  const table = getCrc32Table(polynomial);
+  let crc = 0xFFFFFFFF;
+  return {
+    algorithm,
+    update(data: Buffer) {
+      for (let i = 0; i < data.length; i++) {
+        crc = table[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+      }
+    },
+    digest(): Buffer {
+      const digest = Buffer.alloc(4);
+      digest.writeUInt32BE((crc ^ 0xFFFFFFFF) >>> 0, 0);
+      return digest;
+    }
+  };
+}
+
+/**
+ * Creates the checksum for the algorithm. The digest is the raw bytes, S3 provides
+ * MD5 (ETag) as hex and the other checksums as base64.
+ */
+export function createChecksum(algorithm: ChecksumAlgorithm): Checksum {
+  switch (algorithm) {
+    case "CRC32":
+      return createCrc32(algorithm, 0xEDB88320);
+    case "CRC32C":
+      return createCrc32(algorithm, 0x82F63B78);
+    default: {
+      const hash = createHash(algorithm.toLowerCase());
+      return {
+        algorithm,
+        update(data: Buffer) {
+          hash.update(data);
+        },
+        digest(): Buffer {
+          return hash.digest();
+        }
+      };
+    }
+  }
+}
+
+/**
+ * Streams the file through the checksum.
+ */
+export function checksumFile(filePath: string, algorithm: ChecksumAlgorithm): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const checksum = createChecksum(algorithm);
+    fs.createReadStream(filePath)
+      .on("data", (chunk: Buffer) => checksum.update(chunk))
+      .on("error", reject)
+      .on("end", () => resolve(checksum.digest()));
+  });
+}
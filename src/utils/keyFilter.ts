@@ -0,0 +1,126 @@
+/**
+ * Determines whether a key (or local entry) is included in the mirror. Both the
+ * original key and the transformed key are provided so that the filter can match
+ * either. Local directory entries only have their relative path, which is passed
+ * as both.
+ */
+export type KeyFilter = (key: string, transformedKey: string) => boolean;
+
+export interface KeyFilterOptions {
+  /**
+   * Glob patterns of the keys to mirror. If none are provided every key is
+   * included (unless it is excluded). A pattern beginning with '!' excludes the
+   * keys it matches.
+   */
+  include?: string[]
+  /**
+   * Glob patterns of the keys that are never mirrored, even if they match an
+   * include pattern. Excluded local entries are never removed. A pattern
+   * beginning with '!' is treated as an include pattern.
+   */
+  exclude?: string[]
+  /**
+   * Whether the patterns are matched against the transformed key rather than the
+   * original key.
+   *
+   * Defaults to false.
+   */
+  filterTransformedKey?: boolean
+}
+
+/**
+ * Converts the glob pattern to a regular expression that matches the whole key.
+ * Directory separators ('/' or '\') in keys are expected to have been replaced
+ * with '/' before matching.
+ *
+ * '**'   - matches anything, including directory separators. When it is a whole
+ *          path segment ('**' + '/') it also matches no segments at all.
+ * '*'    - matches anything except a directory separator.
+ * '?'    - matches a single character except a directory separator.
+ * '[..]' - matches a single character in the set ('[!..]' or '[^..]' negate it).
+ *
+ * Any other character (including '\') matches itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+  let regex = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob.charAt(i);
+    if (char === "*") {
+      if (glob.charAt(i + 1) === "*") {
+        i++;
+        if (glob.charAt(i + 1) === "/" && (i === 1 || glob.charAt(i - 2) === "/")) {
+          // whole segment, so may match zero or more directories
+          i++;
+          regex += "(?:.*/)?";
+        } else {
+          regex += ".*";
+        }
+      } else {
+        regex += "[^/]*";
+      }
+    } else if (char === "?") {
+      regex += "[^/]";
+    } else if (char === "[") {
+      const end = glob.indexOf("]", i + 2);
+      if (end < 0) {
+        regex += "\\[";
+      } else {
+        let set = glob.substring(i + 1, end);
+        if (set.charAt(0) === "!") {
+          set = "^" + set.substr(1);
+        }
+        regex += "[" + set.replace(/\\/g, "\\\\") + "]";
+        i = end;
+      }
+    } else {
+      regex += char.replace(/[-\/\\^$+?.()|[\]{}]/g, "\\$&");
+    }
+  }
+  return new RegExp("^" + regex + "$");
+}
+
+/**
+ * Keys and local paths are matched with '/' as the directory separator on all
+ * platforms.
+ */
+function normalizeSeparators(str: string): string {
+  return str.replace(/\\/g, "/");
+}
+
+/**
+ * Creates the filter for the include and exclude patterns. Returns undefined when
+ * no patterns are provided (i.e., everything is included).
+ */
+export function createKeyFilter(options: KeyFilterOptions): KeyFilter | undefined {
+  const includes: RegExp[] = [];
+  const excludes: RegExp[] = [];
+  const addPatterns = (patterns: string[] | undefined, list: RegExp[], negatedList: RegExp[]) => {
+    if (patterns) {
+      for (let i = 0; i < patterns.length; i++) {
+        const pattern = patterns[i];
+        if (pattern.charAt(0) === "!") {
+          negatedList.push(globToRegExp(pattern.substr(1)));
+        } else {
+          list.push(globToRegExp(pattern));
+        }
+      }
+    }
+  };
+  addPatterns(options.include, includes, excludes);
+  addPatterns(options.exclude, excludes, includes);
+  if (includes.length === 0 && excludes.length === 0) {
+    return undefined;
+  }
+  const matchesAny = (regExps: RegExp[], str: string) => {
+    for (let i = 0; i < regExps.length; i++) {
+      if (regExps[i].test(str)) {
+        return true;
+      }
+    }
+    return false;
+  };
+  return (key, transformedKey) => {
+    const str = normalizeSeparators(options.filterTransformedKey ? transformedKey : key);
+    return (includes.length === 0 || matchesAny(includes, str)) && !matchesAny(excludes, str);
+  };
+}
@@ -1,9 +1,21 @@
 import { MirrorS3Object, setTransformedKey } from "../s3ObjectOps";
-import { _Object, GetObjectCommand, ListObjectsV2Command, ListObjectsV2Output, S3Client } from "@aws-sdk/client-s3";
-import { log, LogLevel } from "../logger";
+import {
+  _Object,
+  GetObjectCommand,
+  GetObjectCommandOutput,
+  HeadObjectCommand,
+  HeadObjectCommandOutput,
+  ListObjectsV2Command,
+  ListObjectsV2Output,
+  S3Client
+} from "@aws-sdk/client-s3";
+import { createComponentLog, LogLevel } from "../logger";
 import { compareStringsUtf8BinaryOrder } from "./stringUtils";
 import { Readable } from "stream";
 import { StringTransformer } from "./transformers";
+import { KeyFilter } from "./keyFilter";
+
+const log = createComponentLog("s3");
 
 // S3 will send errors that have a "name" and possibly a code.
 type S3Error = {
@@ -56,6 +68,14 @@ export interface S3ListOptions extends S3CommonOptions {
    */
   suffix?: string
 
+  /**
+   * Used to filter out keys (or transformed keys) that are not included by the
+   * include/exclude patterns after they have been returned.
+   *
+   * Is NOT part of S3 API.
+   */
+  keyFilter?: KeyFilter
+
   /**
    * Transformers to be applied to each key
    */
@@ -152,6 +172,9 @@ export async function getS3List(options: S3ListOptions): Promise<S3ListObj[]> {
           transformedKey === "" || transformedKey === "/") {
           log(`Ignoring S3 Object with key='${s3ListObj.Key}' because the transformed key='${transformedKey}'.`,
               LogLevel.WARN);
+        } else if (options.keyFilter && !options.keyFilter(s3ListObj.Key!, transformedKey)) {
+          log(`Ignoring S3 Object with key='${s3ListObj.Key}' because it is not included by the filter.`,
+              LogLevel.DEBUG);
         } else {
           allBucketKeys[s3ListObj.transformedKey!] = s3ListObj;
         }
@@ -174,30 +197,101 @@ export interface GetS3ObjectOptions {
   Bucket: string
   // this is the S3 key, not the transformed key.
   Key: string
+  // optional byte range to retrieve (e.g., 'bytes=0-1023').
+  Range?: string
+  // optional ETag the object must have, otherwise S3 responds with a 412 (PreconditionFailed).
+  IfMatch?: string
+}
+
+/**
+ * The GetObject response where the Body is the object's data stream. (In Node.js
+ * the Body is always a Readable.)
+ */
+export type S3ObjectStreamOutput = Omit<GetObjectCommandOutput, "Body"> & { Body: Readable };
+
+/**
+ * Retrieves the S3 object and returns the response with the object's data as a
+ * stream. The data is not buffered here, so the caller must consume (or destroy)
+ * the Body; this keeps memory usage bounded regardless of the object's size.
+ */
+export async function getS3Object(options: GetS3ObjectOptions): Promise<S3ObjectStreamOutput> {
+  const {s3Client, Key, Bucket, Range, IfMatch} = options;
+  return s3Client
+    .send(new GetObjectCommand({Bucket, Key, Range, IfMatch}))
+    .then(resp => {
+      const {httpStatusCode} = resp.$metadata;
+      if (httpStatusCode && httpStatusCode >= 200 && httpStatusCode < 300) {
+        return resp as S3ObjectStreamOutput;
+      }
+      if (resp.Body) {
+        (resp.Body as Readable).destroy();
+      }
+      return Promise.reject(new Error(`Received bad httpStatusCode '${httpStatusCode} for s3.GetObject request.'`));
+    });
+}
+
+export interface HeadS3ObjectOptions extends GetS3ObjectOptions {
+  /**
+   * Requests the object's additional checksums (x-amz-checksum-*) as well.
+   */
+  checksumMode?: boolean
 }
 
 /**
- * Retrieves the S3 object and returns the data of the S3 object as a buffer.
+ * The additional checksums S3 stores for the object (base64). Multipart uploads
+ * may have a checksum of the parts' checksums, which ends with '-<part count>'.
  */
-export async function getS3Object(options: GetS3ObjectOptions): Promise<Buffer> {
-  const {s3Client, Key, Bucket} = options;
+export interface S3ObjectChecksums {
+  CRC32?: string
+  CRC32C?: string
+  SHA1?: string
+  SHA256?: string
+}
+
+export type HeadS3ObjectOutput = HeadObjectCommandOutput & { Checksums: S3ObjectChecksums };
+
+const CHECKSUM_HEADERS: { [header: string]: keyof S3ObjectChecksums } = {
+  "x-amz-checksum-crc32": "CRC32",
+  "x-amz-checksum-crc32c": "CRC32C",
+  "x-amz-checksum-sha1": "SHA1",
+  "x-amz-checksum-sha256": "SHA256"
+};
+
+/**
+ * Retrieves the S3 object's metadata (e.g., ETag and ContentLength) without its
+ * data. Resolves to undefined if the object does not exist.
+ *
+ * The checksum mode is not part of the client's HeadObject input (or output), so
+ * the header is added to the request and the checksums are read from the raw
+ * response's headers.
+ */
+export async function headS3Object(options: HeadS3ObjectOptions): Promise<HeadS3ObjectOutput | undefined> {
+  const {s3Client, Key, Bucket, checksumMode} = options;
+  const command = new HeadObjectCommand({Bucket, Key});
+  const Checksums: S3ObjectChecksums = {};
+  if (checksumMode) {
+    command.middlewareStack.add(next => (args: any) => {
+      args.request.headers["x-amz-checksum-mode"] = "ENABLED";
+      return next(args);
+    }, {step: "build"});
+    command.middlewareStack.add(next => (args: any) => next(args).then((result: any) => {
+      const headers = result.response.headers || {};
+      for (const header in CHECKSUM_HEADERS) {
+        if (headers[header]) {
+          Checksums[CHECKSUM_HEADERS[header]] = headers[header];
+        }
+      }
+      return result;
+    }), {step: "deserialize"});
+  }
   return s3Client
-    .send(new GetObjectCommand({Bucket, Key}))
-    .then(resp => (
-            new Promise((resolve, reject) => {
-              const {httpStatusCode} = resp.$metadata;
-              if (httpStatusCode && httpStatusCode >= 200 && httpStatusCode < 300) {
-                let chunks: Buffer[] = [];
-                (resp.Body as Readable).on('data', (chunk: Buffer) => {
-                  chunks.push(chunk);
-                });
-                (resp.Body as Readable).on('end', () => {
-                  resolve(Buffer.concat(chunks));
-                });
-              } else {
-                reject(new Error(`Received bad httpStatusCode '${httpStatusCode} for s3.GetObject request.'`))
-              }
-            })
-          )
-    );
+    .send(command)
+    .then(resp => ({...resp, Checksums}))
+    .catch(err => {
+      const {name, code} = getS3ErrorInfo(err);
+      if (name === "NotFound" || name === "NoSuchKey" || code === "NotFound" || err.$metadata?.httpStatusCode === 404) {
+        return undefined;
+      }
+      return Promise.reject(err);
+    });
 }
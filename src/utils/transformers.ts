@@ -155,6 +155,17 @@ export function removeRootDirCharsFromS3Key(key: string): string {
 }
 
 
+/**
+ * Creates a transformer that removes the prefix from the beginning of a key, so
+ * that the keys beneath the prefix are written relative to a mapping's root
+ * directory (e.g., 'reports/2020/a.pdf' becomes '2020/a.pdf' with the prefix
+ * 'reports/'). Keys that do not begin with the prefix are not changed.
+ * @param prefix
+ */
+export function createPrefixRemovalTransformer(prefix: string): StringTransformer {
+  return key => key.indexOf(prefix) === 0 ? key.substr(prefix.length) : key;
+}
+
 /**
  * Returns transformers to be applied to all S3 keys.
  *